@@ -0,0 +1,103 @@
+import { type Hash, isHash, numberToHex } from "viem";
+import { ENTRYPOINTS } from "../../lib/entrypoint";
+import { baseSepolia } from "../../lib/chains";
+import {
+  BUNDLER_ERROR_CODES,
+  BundlerRpcError,
+  estimateUserOperationGas,
+  getUserOperationByHash,
+  getUserOperationReceipt,
+  sendUserOperation,
+} from "../../lib/bundler";
+import { getPaymasterDataRpc, getPaymasterStubDataRpc } from "../../lib/paymaster-rpc";
+
+type JsonRpcRequest = {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  method: string;
+  params?: unknown[];
+};
+
+function readUserOpHash(params: unknown[]): Hash {
+  const [hash] = params;
+  if (typeof hash !== "string" || !isHash(hash)) {
+    throw new BundlerRpcError(BUNDLER_ERROR_CODES.INVALID_PARAMS, "userOpHash must be a 32-byte hash");
+  }
+  return hash;
+}
+
+// Dispatches one ERC-4337 bundler or ERC-7677 paymaster method
+async function handleMethod(method: string, params: unknown[]): Promise<unknown> {
+  switch (method) {
+    case "eth_chainId":
+      return numberToHex(baseSepolia.id);
+    case "eth_supportedEntryPoints":
+      return Object.values(ENTRYPOINTS).map(({ address }) => address);
+    case "eth_sendUserOperation":
+      return sendUserOperation(params[0], params[1]);
+    case "eth_estimateUserOperationGas":
+      return estimateUserOperationGas(params[0], params[1]);
+    case "eth_getUserOperationByHash":
+      return getUserOperationByHash(readUserOpHash(params));
+    case "eth_getUserOperationReceipt":
+      return getUserOperationReceipt(readUserOpHash(params));
+    case "pm_getPaymasterStubData":
+      return getPaymasterStubDataRpc(params);
+    case "pm_getPaymasterData":
+      return getPaymasterDataRpc(params);
+    default:
+      throw new BundlerRpcError(BUNDLER_ERROR_CODES.METHOD_NOT_FOUND, `Method ${method} is not supported`);
+  }
+}
+
+async function handleRequest(request: unknown) {
+  const id = (request as Partial<JsonRpcRequest> | null)?.id ?? null;
+  try {
+    const { jsonrpc, method, params = [] } = (request ?? {}) as Partial<JsonRpcRequest>;
+    if (jsonrpc !== "2.0" || typeof method !== "string" || !Array.isArray(params)) {
+      throw new BundlerRpcError(BUNDLER_ERROR_CODES.INVALID_REQUEST, "Invalid JSON-RPC request");
+    }
+
+    console.log("Bundler request:", method);
+    const result = await handleMethod(method, params);
+    return { jsonrpc: "2.0", id, result };
+  } catch (error) {
+    if (error instanceof BundlerRpcError) {
+      console.log("Bundler request rejected:", error.code, error.message);
+      return { jsonrpc: "2.0", id, error: { code: error.code, message: error.message, data: error.data } };
+    }
+    console.error("Bundler error:", error);
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: {
+        code: BUNDLER_ERROR_CODES.INTERNAL_ERROR,
+        message: error instanceof Error ? error.message : "Internal error",
+      },
+    };
+  }
+}
+
+// ERC-4337 bundler JSON-RPC endpoint for the v0.6 and v0.7 EntryPoints, usable with viem's `createBundlerClient`.
+// Errors are returned as JSON-RPC error objects with HTTP 200, as bundler clients expect.
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: BUNDLER_ERROR_CODES.PARSE_ERROR, message: "Request body must be valid JSON" },
+    });
+  }
+
+  if (Array.isArray(body)) {
+    const responses = [];
+    for (let i = 0; i < body.length; i++) {
+      responses.push(await handleRequest(body[i]));
+    }
+    return Response.json(responses);
+  }
+  return Response.json(await handleRequest(body));
+}
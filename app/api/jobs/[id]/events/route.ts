@@ -0,0 +1,72 @@
+import { type Hash, isHash } from "viem";
+import { type JobEvent, isTerminalJobEvent } from "../../../../lib/job-stream";
+import { getJobEvents, subscribeJobEvents } from "../../../../lib/job-events";
+import { resumeRelayJobEvents } from "../../../../lib/relay-jobs";
+
+export const dynamic = "force-dynamic";
+
+// Comment lines sent periodically so proxies don't close an idle stream
+const KEEPALIVE_INTERVAL_MS = 15_000;
+
+// Streams a job's progress as Server-Sent Events: its history first (after `Last-Event-ID` on
+// reconnect), then live events until the job confirms, reverts or fails
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+  if (!isHash(id)) {
+    return Response.json(
+      { error: "id must be a 32-byte job id", code: "INVALID_HEX" },
+      { status: 400 }
+    );
+  }
+  const jobId = id as Hash;
+
+  await resumeRelayJobEvents(jobId);
+
+  const lastEventId = Number(request.headers.get("Last-Event-ID") ?? -1);
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (event: JobEvent) => {
+        controller.enqueue(encoder.encode(`id: ${event.seq}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
+
+      const unsubscribe = subscribeJobEvents(jobId, (event) => {
+        send(event);
+        if (isTerminalJobEvent(event)) cleanup();
+      });
+      const keepalive = setInterval(() => {
+        controller.enqueue(encoder.encode(": keepalive\n\n"));
+      }, KEEPALIVE_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(keepalive);
+        controller.close();
+      };
+      request.signal.addEventListener("abort", cleanup);
+
+      const history = getJobEvents(jobId).filter((event) => event.seq > lastEventId);
+      history.forEach(send);
+      if (history.some(isTerminalJobEvent)) cleanup();
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { type Hash, isHash } from "viem";
+import { getJobEvents } from "../../../lib/job-events";
+import { resumeRelayJobEvents } from "../../../lib/relay-jobs";
+
+export const dynamic = "force-dynamic";
+
+// Returns a job's event history as JSON. Polled by browsers whose event stream from
+// `/api/jobs/:id/events` failed.
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+  if (!isHash(id)) {
+    return Response.json(
+      { error: "id must be a 32-byte job id", code: "INVALID_HEX" },
+      { status: 400 }
+    );
+  }
+  const jobId = id as Hash;
+
+  await resumeRelayJobEvents(jobId);
+
+  return Response.json({ events: getJobEvents(jobId) });
+}
@@ -0,0 +1,56 @@
+import { ENTRYPOINTS, getEntryPointVersion } from "../../lib/entrypoint";
+import { BundlerRpcError, parseUserOperation } from "../../lib/bundler";
+import { sponsorUserOperation } from "../../lib/paymaster";
+
+// Sponsors a user operation through the relayer's verifying paymaster. Takes the op (JSON-RPC
+// format, with its final gas limits and fees) and its EntryPoint address, and returns the
+// paymaster fields to include before the account signs it. Dapps can use the same service through
+// the ERC-7677 methods of `/api/bundler`.
+export async function POST(request: Request) {
+  try {
+    const { userOperation, entryPoint } = await request.json();
+
+    const version = typeof entryPoint === "string" ? getEntryPointVersion(entryPoint) : undefined;
+    if (!version) {
+      return Response.json(
+        { error: `EntryPoint ${String(entryPoint)} is not supported`, code: "UNSUPPORTED_ENTRYPOINT" },
+        { status: 400 }
+      );
+    }
+
+    let userOp;
+    try {
+      userOp = parseUserOperation(userOperation, { version });
+    } catch (error) {
+      if (error instanceof BundlerRpcError) {
+        return Response.json({ error: error.message, code: "INVALID_USER_OPERATION" }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const result = await sponsorUserOperation(userOp, ENTRYPOINTS[version]);
+    if (!result.sponsored) {
+      return Response.json({ error: result.message, code: result.code }, { status: result.status });
+    }
+
+    return Response.json({
+      paymaster: result.paymaster,
+      paymasterData: result.paymasterData,
+      paymasterAndData: result.paymasterAndData,
+      paymasterVerificationGasLimit: result.paymasterVerificationGasLimit?.toString(),
+      paymasterPostOpGasLimit: result.paymasterPostOpGasLimit?.toString(),
+      validUntil: result.validUntil,
+      validAfter: result.validAfter,
+      maxCost: result.maxCost.toString(),
+    });
+  } catch (error: any) {
+    console.error("Paymaster error:", error);
+    return Response.json(
+      {
+        error: error.message || "Internal server error",
+        details: error.shortMessage || error.details || undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { type Hash, isHash } from "viem";
+import { getRelayJob } from "../../../../lib/relay-jobs";
+
+// Reports a relay job's status, transaction hashes and receipt summary. Pending jobs are refreshed
+// from the relayer and the chain on each request.
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+  if (!isHash(id)) {
+    return Response.json(
+      { error: "id must be a 32-byte job id", code: "INVALID_HEX" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const job = await getRelayJob(id as Hash);
+    if (!job) {
+      return Response.json(
+        { error: `Relay job ${id} does not exist`, code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+    return Response.json(job);
+  } catch (error: any) {
+    console.error("Relay job error:", error);
+    return Response.json(
+      {
+        error: error.message || "Internal server error",
+        details: error.shortMessage || error.details || undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,234 +1,390 @@
-import { privateKeyToAccount } from "viem/accounts";
-import { createWalletClient, http, type Hex, encodeFunctionData, maxUint256 } from "viem";
-import { baseSepolia } from "@/app/lib/chains";
-import { CBSW_IMPLEMENTATION_ADDRESS, VALIDATOR_ADDRESS } from "../../lib/constants";
+import { type Hex, type SignedAuthorization, encodeFunctionData, maxUint256 } from "viem";
+import { CBSW_IMPLEMENTATION_ADDRESS, ENTRYPOINT_ADDRESS, VALIDATOR_ADDRESS } from "../../lib/constants";
+import { ENTRYPOINT_ABI } from "../../lib/abi/EntryPoint";
 import { MULTI_OWNABLE_STORAGE_ERASER_ABI } from "../../lib/abi/MultiOwnableStorageEraser";
+import {
+  type ParsedRelayRequest,
+  type RelayErrorResponse,
+  type RelayJob,
+  type RelayOperation,
+  getRelayRequestFingerprint,
+  parseRelayRequest,
+} from "../../lib/relay-schema";
+import {
+  getRelayerAccount,
+  getRelayerPublicClient,
+  sendRelayerTransaction,
+  writeRelayerContract,
+} from "../../lib/relayer-signer";
+import { encodeSetImplementation } from "../../lib/wallet-utils";
+import { simulateRelayerTransaction } from "../../lib/simulation-utils";
+import { verifyAuthorizationList } from "../../lib/authorization-utils";
+import { baseSepolia } from "../../lib/chains";
+import { type PolicyDecision, authorizeRelayerSpend, authorizeRelayerUpgrade } from "../../lib/relayer-policy";
+import { authenticateRelayRequest } from "../../lib/relay-auth";
+import {
+  abandonRelayJob,
+  beginRelayJob,
+  getRelayJob,
+  getRelayJobId,
+  isValidIdempotencyKey,
+  recordRelayJobSubmission,
+} from "../../lib/relay-jobs";
+import { watchRelayerTransaction } from "../../lib/job-events";
 
-// This runs on the server, so it's safe to access the private key
-const RELAYER_PRIVATE_KEY = process.env.RELAYER_PRIVATE_KEY as Hex;
-const PUBLIC_RELAYER_ADDRESS = process.env.NEXT_PUBLIC_RELAYER_ADDRESS;
-
-if (!RELAYER_PRIVATE_KEY) {
-  throw new Error("RELAYER_PRIVATE_KEY environment variable is required");
-}
-
-if (!PUBLIC_RELAYER_ADDRESS) {
-  throw new Error(
-    "NEXT_PUBLIC_RELAYER_ADDRESS environment variable is required"
-  );
-}
-
-// Create relayer wallet once
-const relayerAccount = privateKeyToAccount(RELAYER_PRIVATE_KEY);
-
-// Verify the relayer address matches what's public
-if (
-  relayerAccount.address.toLowerCase() !== PUBLIC_RELAYER_ADDRESS.toLowerCase()
-) {
-  throw new Error("Relayer private key does not match public address");
-}
+// Helper to submit transaction with optional authorization, accounted under `operation`
+const submitTransaction = async (
+  operation: RelayOperation,
+  to: Hex,
+  value: bigint = BigInt(0),
+  data?: Hex,
+  authorizationList?: SignedAuthorization[]
+) => {
+  return await sendRelayerTransaction({
+    to,
+    value,
+    data,
+    authorizationList,
+    operation,
+    beneficiary: to,
+  });
+};
 
-const relayerWallet = createWalletClient({
-  account: relayerAccount,
-  chain: baseSepolia,
-  transport: http(),
-});
-
-// Helper to encode setImplementation call
-const encodeSetImplementation = (
-  newImplementation: Hex,
-  callData: Hex,
-  signature: Hex,
-  expiry: bigint,
-  allowCrossChainReplay = false
+// Helper to check signed 7702 authorizations before relaying them.
+// Returns an error response if any would be skipped on-chain.
+const checkAuthorizations = async (
+  targetAddress: Hex,
+  authorizationList: SignedAuthorization[]
 ) => {
-  return encodeFunctionData({
-    abi: [{
-      type: "function",
-      name: "setImplementation",
-      inputs: [
-        { name: "newImplementation", type: "address" },
-        { name: "callData", type: "bytes" },
-        { name: "validator", type: "address" },
-        { name: "expiry", type: "uint256" },
-        { name: "signature", type: "bytes" },
-        { name: "allowCrossChainReplay", type: "bool" }
-      ],
-      outputs: [],
-      stateMutability: "payable"
-    }],
-    functionName: "setImplementation",
-    args: [
-      newImplementation,
-      callData,
-      VALIDATOR_ADDRESS,
-      expiry,
-      signature,
-      allowCrossChainReplay
-    ]
+  const issues = await verifyAuthorizationList(getRelayerPublicClient(), {
+    authorizationList,
+    targetAddress,
+    chainId: baseSepolia.id,
+  });
+  if (issues.length === 0) return;
+
+  console.log("Rejected authorization list:", issues);
+  return errorResponse(422, {
+    error: "Authorization list would not be applied on-chain",
+    code: issues[0].code,
+    issues,
   });
 };
 
-// Helper to submit transaction with optional authorization
-const submitTransaction = async (
+// Helper to dry-run a transaction with `eth_call` before spending relayer gas on it.
+// Returns an error response if the transaction would revert.
+const preflight = async (
   to: Hex,
-  value: bigint = BigInt(0),
-  data?: Hex,
-  authorizationList?: any[]
+  data: Hex,
+  authorizationList?: SignedAuthorization[]
 ) => {
-  const tx = {
+  const simulation = await simulateRelayerTransaction(getRelayerPublicClient(), {
+    from: getRelayerAccount().address,
     to,
-    value,
-    ...(data && { data }),
-    ...(authorizationList && { authorizationList })
-  };
-  
-  return await relayerWallet.sendTransaction(tx);
+    data,
+    authorizationList,
+  });
+  if (simulation.success) return;
+
+  console.log("Pre-flight simulation reverted:", simulation);
+  return errorResponse(422, {
+    error: simulation.message,
+    code: "SIMULATION_REVERTED",
+    revert: simulation.revert,
+  });
 };
 
-export async function POST(request: Request) {
+// Helper to send a transaction whose policy allowance has been reserved,
+// releasing the reservation if the send fails
+const submitWithinPolicy = async (
+  decision: Extract<PolicyDecision, { allowed: true }>,
+  send: () => Promise<Hex>
+) => {
   try {
-    const body = await request.json();
-    const { operation, targetAddress } = body;
-
-    switch (operation) {
-      // *************** Fund **************************************** 
-      case "fund": {
-        const { value } = body;
-        const hash = await submitTransaction(
-          targetAddress,
-          BigInt(value)
-        );
-        return Response.json({ hash });
-      }
+    return await send();
+  } catch (error) {
+    await decision.release();
+    throw error;
+  }
+};
 
-      // *************** Submit 7702 Authorization *******************
-      case "submit7702Auth": {
-        const { authorizationList } = body;
-        
-        console.log("\n=== Submitting 7702 Authorization ===");
-        console.log("Received auth request:", {
-          targetAddress,
-          hasAuthList: !!authorizationList,
-          authListLength: authorizationList?.length,
-          authDetails: authorizationList?.[0],
-        });
+// Helper to build an error response with a stable error code
+const errorResponse = (status: number, body: RelayErrorResponse) =>
+  Response.json(body, { status });
 
-        const hash = await submitTransaction(
-          targetAddress,
-          BigInt(0),
-          "0x",  // Empty calldata for only the 7702 authorization
-          authorizationList
-        );
-        
-        return Response.json({ hash });
+// Helper to answer a retried request with the job its idempotency key already created
+const existingJobResponse = (job: RelayJob, relayRequest: ParsedRelayRequest) => {
+  if (job.requestHash !== getRelayRequestFingerprint(relayRequest)) {
+    return errorResponse(422, {
+      error: "Idempotency-Key was already used for a different request",
+      code: "IDEMPOTENCY_KEY_REUSED",
+    });
+  }
+  if (job.status === "submitting") {
+    return errorResponse(409, {
+      error: "A request with this Idempotency-Key is still being submitted; retry once it has been sent or abandoned",
+      code: "JOB_IN_PROGRESS",
+    });
+  }
+  return Response.json({ hash: job.hash, job }, { headers: { "Idempotent-Replayed": "true" } });
+};
+
+// Validates, pre-flights and sends a relay operation. Returns the broadcast hash,
+// or an error response if the request was rejected before anything was sent.
+async function relayOperation(relayRequest: ParsedRelayRequest): Promise<Hex | Response> {
+  const { targetAddress } = relayRequest;
+
+  switch (relayRequest.operation) {
+    // *************** Fund **************************************** 
+    case "fund": {
+      const { value } = relayRequest;
+      const decision = await authorizeRelayerSpend({ operation: "fund", targetAddress, value });
+      if (!decision.allowed) {
+        return errorResponse(decision.status, { error: decision.message, code: decision.code });
       }
 
-      // *************** Set Implementation ****************************
-      case "setImplementation": {
-        const { signature, initArgs = "0x" } = body;
-        
-        console.log("\n=== Setting Implementation ===");
-        console.log("Received setImplementation request:", {
+      const hash = await submitWithinPolicy(decision, () =>
+        submitTransaction(
+          relayRequest.operation,
           targetAddress,
-          hasSignature: !!signature,
-          hasInitArgs: !!initArgs,
-        });
-        
-        const data = encodeSetImplementation(
-          CBSW_IMPLEMENTATION_ADDRESS,
-          initArgs,
-          signature,
-          BigInt(maxUint256)
-        );
-        
-        const hash = await submitTransaction(
-          targetAddress,
-          BigInt(0),
-          data
-        );
-        
-        return Response.json({ hash });
+          value
+        )
+      );
+      return hash;
+    }
+
+    // *************** Deposit To ******************************** 
+    case "depositTo": {
+      const { value } = relayRequest;
+      const decision = await authorizeRelayerSpend({ operation: "depositTo", targetAddress, value });
+      if (!decision.allowed) {
+        return errorResponse(decision.status, { error: decision.message, code: decision.code });
       }
 
-      // *************** Upgrade EOA (Combined Operation) ******************
-      case "upgradeEOA": {
-        const { initArgs, signature, authorizationList } = body;
-        
-        console.log("\n=== Upgrading EOA (Combined Operation) ===");
-        console.log("Received upgradeEOA request:", {
-          targetAddress,
-          hasAuthList: !!authorizationList,
-          authListLength: authorizationList?.length,
-          authDetails: authorizationList?.[0],
-          hasInitArgs: !!initArgs,
-          hasSignature: !!signature,
-        });
-        
-        // Combined transaction that includes both the 7702 authorization and setImplementation call
-        const data = encodeSetImplementation(
-          CBSW_IMPLEMENTATION_ADDRESS,
-          initArgs,
-          signature,
-          BigInt(maxUint256),
-          false
-        );
-        
-        const hash = await submitTransaction(
+      // The client sizes `value` to top the deposit up to what its next ops will need
+      const hash = await submitWithinPolicy(decision, () =>
+        writeRelayerContract({
+          address: ENTRYPOINT_ADDRESS,
+          abi: ENTRYPOINT_ABI,
+          functionName: "depositTo",
+          args: [targetAddress],
+          value,
+          operation: relayRequest.operation,
+          beneficiary: targetAddress,
+        })
+      );
+      return hash;
+    }
+
+    // *************** Submit 7702 Authorization *******************
+    case "submit7702Auth": {
+      const { authorizationList } = relayRequest;
+      
+      console.log("\n=== Submitting 7702 Authorization ===");
+      console.log("Received auth request:", {
+        targetAddress,
+        hasAuthList: !!authorizationList,
+        authListLength: authorizationList.length,
+        authDetails: authorizationList[0],
+      });
+
+      const rejection = await checkAuthorizations(targetAddress, authorizationList);
+      if (rejection) return rejection;
+
+      const hash = await submitTransaction(
+        relayRequest.operation,
+        targetAddress,
+        BigInt(0),
+        "0x",  // Empty calldata for only the 7702 authorization
+        authorizationList
+      );
+      
+      return hash;
+    }
+
+    // *************** Set Implementation ****************************
+    case "setImplementation": {
+      const { signature, initArgs } = relayRequest;
+      
+      console.log("\n=== Setting Implementation ===");
+      console.log("Received setImplementation request:", {
+        targetAddress,
+        hasSignature: !!signature,
+        hasInitArgs: !!initArgs,
+      });
+      
+      const data = encodeSetImplementation(
+        CBSW_IMPLEMENTATION_ADDRESS,
+        initArgs,
+        signature,
+        BigInt(maxUint256)
+      );
+
+      const rejection = await preflight(targetAddress, data);
+      if (rejection) return rejection;
+      
+      const hash = await submitTransaction(
+        relayRequest.operation,
+        targetAddress,
+        BigInt(0),
+        data
+      );
+      
+      return hash;
+    }
+
+    // *************** Upgrade EOA (Combined Operation) ******************
+    case "upgradeEOA": {
+      const { initArgs, signature, authorizationList } = relayRequest;
+      
+      console.log("\n=== Upgrading EOA (Combined Operation) ===");
+      console.log("Received upgradeEOA request:", {
+        targetAddress,
+        hasAuthList: !!authorizationList,
+        authListLength: authorizationList.length,
+        authDetails: authorizationList[0],
+        hasInitArgs: !!initArgs,
+        hasSignature: !!signature,
+      });
+      
+      // Combined transaction that includes both the 7702 authorization and setImplementation call
+      const data = encodeSetImplementation(
+        CBSW_IMPLEMENTATION_ADDRESS,
+        initArgs,
+        signature,
+        BigInt(maxUint256),
+        false
+      );
+
+      const rejection =
+        (await checkAuthorizations(targetAddress, authorizationList)) ??
+        (await preflight(targetAddress, data, authorizationList));
+      if (rejection) return rejection;
+
+      const decision = await authorizeRelayerUpgrade(targetAddress);
+      if (!decision.allowed) {
+        return errorResponse(decision.status, { error: decision.message, code: decision.code });
+      }
+      
+      const hash = await submitWithinPolicy(decision, () =>
+        submitTransaction(
+          relayRequest.operation,
           targetAddress,
           BigInt(0),
           data,
           authorizationList
-        );
-        
-        console.log("Submitted upgradeEOA transaction:", {
-          hash,
-          targetAddress,
-          implementation: CBSW_IMPLEMENTATION_ADDRESS,
-          validator: VALIDATOR_ADDRESS,
-        });
-        
-        return Response.json({ hash });
-      }
-      // *************** Erase Storage ****************************
-      case "eraseStorage": {
-        console.log("\n=== Erasing Storage ===");
-        console.log("Target address:", targetAddress);
-        
-        const data = encodeFunctionData({
-          abi: MULTI_OWNABLE_STORAGE_ERASER_ABI,
-          functionName: "eraseNextOwnerIndexStorage",
-          args: []
-        });
-        
-        const hash = await submitTransaction(
-          targetAddress,
-          BigInt(0),
-          data
-        );
-        
-        console.log("Submitted eraseStorage transaction:", {
-          hash,
-          targetAddress,
-        });
-        
-        return Response.json({ hash });
-      }
+        )
+      );
+      
+      console.log("Submitted upgradeEOA transaction:", {
+        hash,
+        targetAddress,
+        implementation: CBSW_IMPLEMENTATION_ADDRESS,
+        validator: VALIDATOR_ADDRESS,
+      });
+      
+      return hash;
+    }
+    // *************** Erase Storage ****************************
+    case "eraseStorage": {
+      console.log("\n=== Erasing Storage ===");
+      console.log("Target address:", targetAddress);
+      
+      const data = encodeFunctionData({
+        abi: MULTI_OWNABLE_STORAGE_ERASER_ABI,
+        functionName: "eraseNextOwnerIndexStorage",
+        args: []
+      });
+      
+      const hash = await submitTransaction(
+        relayRequest.operation,
+        targetAddress,
+        BigInt(0),
+        data
+      );
+      
+      console.log("Submitted eraseStorage transaction:", {
+        hash,
+        targetAddress,
+      });
+      
+      return hash;
+    }
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const idempotencyKey = request.headers.get("Idempotency-Key") ?? undefined;
+    if (idempotencyKey !== undefined && !isValidIdempotencyKey(idempotencyKey)) {
+      return errorResponse(400, {
+        error: "Idempotency-Key must be 1-255 printable ASCII characters",
+        code: "INVALID_IDEMPOTENCY_KEY",
+      });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, {
+        error: "Request body must be valid JSON",
+        code: "INVALID_JSON",
+      });
+    }
 
-      default:
-        return new Response(
-          JSON.stringify({ error: `Unknown operation: ${operation}` }),
-          { status: 400 }
-        );
+    const parsed = parseRelayRequest(body);
+    if (!parsed.success) {
+      const unauthenticated = parsed.errors.some((issue) => issue.code === "UNAUTHENTICATED");
+      return errorResponse(unauthenticated ? 401 : 400, {
+        error: unauthenticated ? "Relay request is not signed" : "Invalid relay request",
+        code: unauthenticated ? "UNAUTHENTICATED" : parsed.errors[0]?.code ?? "INVALID_REQUEST",
+        issues: parsed.errors,
+      });
     }
+
+    const relayRequest = parsed.data;
+    const { targetAddress } = relayRequest;
+
+    const jobId = getRelayJobId(targetAddress, idempotencyKey);
+    if (idempotencyKey) {
+      const existing = await getRelayJob(jobId);
+      if (existing) return existingJobResponse(existing, relayRequest);
+    }
+
+    const auth = await authenticateRelayRequest(getRelayerPublicClient(), relayRequest, parsed.auth, {
+      chainId: baseSepolia.id,
+    });
+    if (!auth.authenticated) {
+      console.log("Rejected relay request:", { targetAddress, code: auth.code, message: auth.message });
+      return errorResponse(auth.status, { error: auth.message, code: auth.code });
+    }
+
+    const { created, job } = await beginRelayJob(jobId, relayRequest);
+    if (!created) return existingJobResponse(job, relayRequest);
+
+    let result: Hex | Response;
+    try {
+      result = await relayOperation(relayRequest);
+    } catch (error) {
+      await abandonRelayJob(jobId);
+      throw error;
+    }
+    // Rejected before anything was broadcast, so the idempotency key stays usable
+    if (result instanceof Response) {
+      await abandonRelayJob(jobId);
+      return result;
+    }
+
+    const submitted = await recordRelayJobSubmission(jobId, result);
+    // Progress is streamed from `/api/jobs/:id/events`
+    void watchRelayerTransaction(jobId, result);
+    return Response.json({ hash: result, job: submitted });
   } catch (error: any) {
     console.error("Relay error:", error);
-    return new Response(
-      JSON.stringify({ 
-        error: error.message || "Internal server error",
-        details: error.shortMessage || error.details || undefined
-      }),
-      { status: 500 }
-    );
+    return errorResponse(500, {
+      error: error.message || "Internal server error",
+      details: error.shortMessage || error.details || undefined,
+    });
   }
 }
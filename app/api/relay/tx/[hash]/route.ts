@@ -0,0 +1,47 @@
+import { type Hash, isHash } from "viem";
+import { getRelayerTransaction } from "../../../../lib/relayer-signer";
+import { type RelayTransactionStatus } from "../../../../lib/relay-schema";
+
+// Reports the current state of a relayed transaction, including any fee-bumped replacements.
+// Polling this endpoint also triggers the rebroadcast of transactions that have been stuck too long.
+export async function GET(
+  _request: Request,
+  { params }: { params: { hash: string } }
+) {
+  const { hash } = params;
+  if (!isHash(hash)) {
+    return Response.json(
+      { error: "hash must be a 32-byte transaction hash", code: "INVALID_HEX" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const entry = await getRelayerTransaction(hash as Hash);
+    if (!entry) {
+      return Response.json(
+        { error: `Transaction ${hash} is not tracked by this relayer`, code: "NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    const status: RelayTransactionStatus = {
+      hash: entry.hashes[entry.hashes.length - 1],
+      originalHash: entry.hashes[0],
+      replacements: entry.hashes.slice(1),
+      status: entry.status,
+      minedHash: entry.minedHash,
+      nonce: entry.nonce,
+    };
+    return Response.json(status);
+  } catch (error: any) {
+    console.error("Relay status error:", error);
+    return Response.json(
+      {
+        error: error.message || "Internal server error",
+        details: error.shortMessage || error.details || undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { formatEther } from "viem";
+import { ENTRYPOINT_ADDRESS } from "../../../lib/constants";
+import { ENTRYPOINT_ABI } from "../../../lib/abi/EntryPoint";
+import {
+  checkStuckRelayerTransactions,
+  getPendingRelayerTransactions,
+  getRelayerAccount,
+  getRelayerPublicClient,
+  getRelayerQueueState,
+} from "../../../lib/relayer-signer";
+import { getFundedDeposits, getRelayerSpending } from "../../../lib/relayer-accounting";
+import { getMempoolEntries } from "../../../lib/mempool";
+import { getPaymasterStatuses } from "../../../lib/paymaster";
+
+export const dynamic = "force-dynamic";
+
+// Below this balance the relayer may fail to pay for upgrades and deposits (the README asks for 0.1 ETH)
+const MIN_BALANCE_WEI = BigInt(process.env.RELAYER_MIN_BALANCE_WEI || "100000000000000000");
+
+// Reports the relayer's address and balance, its pending transactions and send queue, the bundler's
+// mempool, its verifying paymasters' deposits, the EntryPoint deposits it has funded that are still
+// outstanding, and what it has spent per operation type
+export async function GET() {
+  try {
+    const publicClient = getRelayerPublicClient();
+    const { address } = getRelayerAccount();
+
+    // Bring pending transactions (and so the spending totals) up to date first
+    await checkStuckRelayerTransactions();
+
+    const [balance, confirmedNonce, pendingNonce, spending, funded, paymasters] = await Promise.all([
+      publicClient.getBalance({ address }),
+      publicClient.getTransactionCount({ address, blockTag: "latest" }),
+      publicClient.getTransactionCount({ address, blockTag: "pending" }),
+      getRelayerSpending(),
+      getFundedDeposits(),
+      getPaymasterStatuses(),
+    ]);
+
+    const deposits = await Promise.all(
+      funded.map(async ({ address: account, fundedWei }) => {
+        const balance = (await publicClient.readContract({
+          address: ENTRYPOINT_ADDRESS,
+          abi: ENTRYPOINT_ABI,
+          functionName: "balanceOf",
+          args: [account],
+        })) as bigint;
+        // The deposit may also hold the account's own funds; only what the relayer funded counts
+        const remaining = balance < fundedWei ? balance : fundedWei;
+        return { address: account, fundedWei, remaining };
+      })
+    );
+    const outstanding = deposits.filter(({ remaining }) => remaining > BigInt(0));
+    const outstandingTotal = outstanding.reduce((sum, { remaining }) => sum + remaining, BigInt(0));
+
+    const operations = Object.entries(spending).map(([operation, spend]) => ({
+      operation,
+      ...spend,
+      totalWei: (BigInt(spend!.gasCostWei) + BigInt(spend!.valueWei)).toString(),
+    }));
+    const totalSpent = operations.reduce((sum, { totalWei }) => sum + BigInt(totalWei), BigInt(0));
+
+    const warnings: string[] = [];
+    if (balance < MIN_BALANCE_WEI) {
+      warnings.push(
+        `Relayer balance ${formatEther(balance)} ETH is below the recommended ${formatEther(MIN_BALANCE_WEI)} ETH`
+      );
+    }
+
+    paymasters.forEach((paymaster) => {
+      if (!paymaster.signerMatches) {
+        warnings.push(
+          `Paymaster ${paymaster.address} expects signer ${paymaster.verifyingSigner}, so its sponsorships will be rejected`
+        );
+      }
+      if (paymaster.deposit < MIN_BALANCE_WEI) {
+        warnings.push(
+          `Paymaster ${paymaster.address} deposit ${formatEther(paymaster.deposit)} ETH is below the recommended ${formatEther(MIN_BALANCE_WEI)} ETH`
+        );
+      }
+    });
+
+    const { nextNonce, queueDepth } = getRelayerQueueState();
+    return Response.json({
+      address,
+      balanceWei: balance.toString(),
+      balance: formatEther(balance),
+      lowBalance: balance < MIN_BALANCE_WEI,
+      warnings,
+      nonces: {
+        confirmed: confirmedNonce,
+        pending: pendingNonce,
+        next: nextNonce ?? pendingNonce,
+      },
+      queueDepth,
+      pendingTransactions: getPendingRelayerTransactions().map((entry) => ({
+        nonce: entry.nonce,
+        hash: entry.hashes[entry.hashes.length - 1],
+        operation: entry.request.operation,
+        replacements: entry.hashes.length - 1,
+        sentAt: new Date(entry.sentAt).toISOString(),
+      })),
+      mempool: getMempoolEntries().map(({ userOpHash, userOp, receivedAt }) => ({
+        userOpHash,
+        sender: userOp.sender,
+        nonce: userOp.nonce.toString(),
+        maxPriorityFeePerGas: userOp.maxPriorityFeePerGas.toString(),
+        receivedAt: new Date(receivedAt).toISOString(),
+      })),
+      paymasters: paymasters.map((paymaster) => ({
+        entryPointVersion: paymaster.entryPointVersion,
+        address: paymaster.address,
+        depositWei: paymaster.deposit.toString(),
+        deposit: formatEther(paymaster.deposit),
+        verifyingSigner: paymaster.verifyingSigner,
+      })),
+      entryPointDeposits: {
+        outstandingWei: outstandingTotal.toString(),
+        outstanding: formatEther(outstandingTotal),
+        accounts: outstanding.map(({ address: account, fundedWei, remaining }) => ({
+          address: account,
+          fundedWei: fundedWei.toString(),
+          remainingWei: remaining.toString(),
+        })),
+      },
+      spending: {
+        totalWei: totalSpent.toString(),
+        total: formatEther(totalSpent),
+        operations,
+      },
+    });
+  } catch (error: any) {
+    console.error("Relayer status error:", error);
+    return Response.json(
+      {
+        error: error.message || "Internal server error",
+        details: error.shortMessage || error.details || undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,7 @@ import { createEOAClient, type ExtendedAccount } from "@/app/lib/wallet-utils";
 import { CBSW_IMPLEMENTATION_ADDRESS, STORAGE_ERASER_ADDRESS, FOREIGN_1967_IMPLEMENTATION } from "@/app/lib/constants";
 import { AccountState } from "./AccountState";
 import { checkContractState, getCurrentImplementation, getExpectedBytecode } from "@/app/lib/contract-utils";
+import { relay, waitForRelayedTransaction } from "@/app/lib/relay-client";
 
 // Helper to check if bytecode is correct
 const isCorrectBytecode = (bytecode: string) => {
@@ -131,27 +132,15 @@ export function AccountDisruption({
 
       // Submit via relay endpoint
       console.log("Submitting authorization for re-delegation...");
-      const response = await fetch("/api/relay", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          operation: "submit7702Auth",
-          targetAddress: account.address,
-          authorizationList: [authorization],
-        }, (_, value) => 
-          typeof value === "bigint" ? value.toString() : value
-        ),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to submit delegation via relay");
-      }
-
-      const { hash } = await response.json();
+      const { hash } = await relay({
+        operation: "submit7702Auth",
+        targetAddress: account.address,
+        authorizationList: [authorization],
+      }, { type: "eoa", account });
       console.log("Transaction submitted:", hash);
 
       // Wait for transaction confirmation
-      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const receipt = await waitForRelayedTransaction(publicClient, hash);
       console.log("Transaction receipt:", receipt);
 
       await checkState();
@@ -182,24 +171,14 @@ export function AccountDisruption({
       console.log("Target account:", account.address);
       
       // Submit via relay endpoint
-      const response = await fetch("/api/relay", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          operation: "eraseStorage",
-          targetAddress: account.address,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to submit erase storage via relay");
-      }
-
-      const { hash } = await response.json();
+      const { hash } = await relay({
+        operation: "eraseStorage",
+        targetAddress: account.address,
+      }, { type: "eoa", account });
       console.log("Transaction submitted:", hash);
 
       // Wait for transaction confirmation
-      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const receipt = await waitForRelayedTransaction(publicClient, hash);
       console.log("Transaction receipt:", receipt);
 
       const finalState = await checkState();
@@ -238,22 +217,12 @@ export function AccountDisruption({
       if (balance < requiredBalance) {
         const fundingAmount = requiredBalance - balance;
         console.log(`Funding EOA with ${fundingAmount.toString()} wei...`);
-        const fundResponse = await fetch("/api/relay", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            operation: "fund",
-            targetAddress: account.address,
-            value: fundingAmount.toString(),
-          }),
-        });
-        
-        if (!fundResponse.ok) {
-          throw new Error("Failed to fund EOA wallet");
-        }
-        
-        const { hash } = await fundResponse.json();
-        await publicClient.waitForTransactionReceipt({ hash });
+        const { hash } = await relay({
+          operation: "fund",
+          targetAddress: account.address,
+          value: fundingAmount,
+        }, { type: "eoa", account });
+        await waitForRelayedTransaction(publicClient, hash);
         
         const newBalance = await publicClient.getBalance({ address: account.address });
         console.log("New EOA balance:", newBalance.toString(), "wei");
@@ -5,6 +5,8 @@ import { baseSepolia } from "../lib/chains";
 import { createSetImplementationHash, type ExtendedAccount, createEOAClient, signSetImplementation, encodeInitializeArgs } from "../lib/wallet-utils";
 import { EIP7702PROXY_TEMPLATE_ADDRESS, CBSW_IMPLEMENTATION_ADDRESS } from "../lib/constants";
 import { getNonceFromTracker, checkContractState, getCurrentImplementation, verifyPasskeyOwnership } from "../lib/contract-utils";
+import { relay } from "../lib/relay-client";
+import { type JobEvent, describeJobEvent, watchJob } from "../lib/job-stream";
 import { RecoveryModal } from "./RecoveryModal";
 
 type RecoveryStep = {
@@ -12,6 +14,8 @@ type RecoveryStep = {
   isComplete: boolean;
   txHash?: Hash;
   error?: string;
+  // Progress streamed from the server for this step's relay job
+  events?: JobEvent[];
 };
 
 type Props = {
@@ -59,6 +63,13 @@ function StepDisplay({ step }: { step: RecoveryStep }) {
           </div>
         </div>
       )}
+      {step.events && step.events.length > 0 && (
+        <ul className="mt-2 ml-6 space-y-1 text-sm text-gray-400 font-mono break-all">
+          {step.events.map((event) => (
+            <li key={event.seq}>{describeJobEvent(event)}</li>
+          ))}
+        </ul>
+      )}
       {step.error && (
         <div className="mt-2 ml-6 text-red-400">
           <span>Error: {step.error}</span>
@@ -92,6 +103,24 @@ export function AccountRecovery({
     return encodeInitializeArgs([recoveryPasskey]);
   };
 
+  // Streams a relay job's progress into the recovery step and resolves with the confirmed hash
+  const followJob = async (jobId: Hash) => {
+    const { hash } = await watchJob(jobId, (event) => {
+      setSteps((current) =>
+        current.map((step, i) =>
+          i === 0
+            ? {
+                ...step,
+                events: [...(step.events ?? []), event],
+                txHash: "hash" in event ? event.hash : step.txHash,
+              }
+            : step
+        )
+      );
+    }).done;
+    return hash;
+  };
+
   const handleRecover = async () => {
     try {
       setRecovering(true);
@@ -135,24 +164,18 @@ export function AccountRecovery({
           chainId: baseSepolia.id,
         });
 
-        const response = await fetch("/api/relay", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            operation: "submit7702Auth",
-            targetAddress: smartWalletAddress,
-            authorizationList: [authorization],
-          }, (_, value) => typeof value === "bigint" ? value.toString() : value),
-        });
-
-        if (!response.ok) throw new Error("Failed to reset delegate");
-        const { hash } = await response.json();
-        await publicClient.waitForTransactionReceipt({ hash });
+        const { job } = await relay({
+          operation: "submit7702Auth",
+          targetAddress: smartWalletAddress,
+          authorizationList: [authorization],
+        }, { type: "eoa", account });
+        const transactionHash = await followJob(job.id);
 
-        setSteps([{
+        setSteps((current) => [{
+          ...current[0],
           status: "Successfully restored delegate",
           isComplete: true,
-          txHash: hash,
+          txHash: transactionHash,
         }]);
       }
       else if (!isDelegateDisrupted && isImplementationDisrupted) {
@@ -173,25 +196,19 @@ export function AccountRecovery({
         );
 
         const signature = await signSetImplementation(userWallet, setImplementationHash);
-        const response = await fetch("/api/relay", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            operation: "setImplementation",
-            targetAddress: smartWalletAddress,
-            signature,
-            initArgs,
-          }, (_, value) => typeof value === "bigint" ? value.toString() : value),
-        });
-
-        if (!response.ok) throw new Error("Failed to reset implementation");
-        const { hash } = await response.json();
-        await publicClient.waitForTransactionReceipt({ hash });
+        const { job } = await relay({
+          operation: "setImplementation",
+          targetAddress: smartWalletAddress,
+          signature,
+          initArgs,
+        }, { type: "eoa", account });
+        const transactionHash = await followJob(job.id);
 
-        setSteps([{
+        setSteps((current) => [{
+          ...current[0],
           status: `Successfully restored implementation${isOwnershipDisrupted ? " and ownership" : ""}`,
           isComplete: true,
-          txHash: hash,
+          txHash: transactionHash,
         }]);
       }
       else if (isDelegateDisrupted && isImplementationDisrupted) {
@@ -217,26 +234,20 @@ export function AccountRecovery({
         );
 
         const signature = await signSetImplementation(userWallet, setImplementationHash);
-        const response = await fetch("/api/relay", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            operation: "upgradeEOA",
-            targetAddress: smartWalletAddress,
-            initArgs,
-            signature,
-            authorizationList: [authorization],
-          }, (_, value) => typeof value === "bigint" ? value.toString() : value),
-        });
-
-        if (!response.ok) throw new Error("Failed to restore account");
-        const { hash } = await response.json();
-        await publicClient.waitForTransactionReceipt({ hash });
+        const { job } = await relay({
+          operation: "upgradeEOA",
+          targetAddress: smartWalletAddress,
+          initArgs,
+          signature,
+          authorizationList: [authorization],
+        }, { type: "eoa", account });
+        const transactionHash = await followJob(job.id);
 
-        setSteps([{
+        setSteps((current) => [{
+          ...current[0],
           status: `Successfully restored delegate and implementation${isOwnershipDisrupted ? " and ownership" : ""}`,
           isComplete: true,
-          txHash: hash,
+          txHash: transactionHash,
         }]);
       }
 
@@ -0,0 +1,299 @@
+import { useCallback, useEffect, useState } from "react";
+import { type Address, type Hash, createPublicClient, formatEther, http, isAddress, parseEther } from "viem";
+import { type P256Credential, toCoinbaseSmartAccount, toWebAuthnAccount } from "viem/account-abstraction";
+import { baseSepolia } from "../lib/chains";
+import { relay, waitForRelayedTransaction } from "../lib/relay-client";
+import { createRelayerBundlerClient, createRelayerPaymasterClient } from "../lib/bundler-client";
+import { requestPaymasterSponsorship } from "../lib/paymaster-client";
+import { wrapSignature } from "../lib/smart-account";
+import { getUserOperationFees } from "../lib/user-operation-fees";
+import {
+  type DepositEvent,
+  type DepositInfo,
+  getDepositHistory,
+  getDepositInfo,
+  getDepositTopUp,
+  getDepositWithdrawCall,
+  getRequiredPrefund,
+} from "../lib/entrypoint-deposit";
+
+type Props = {
+  smartWalletAddress: Address;
+  passkey: P256Credential;
+};
+
+// The passkey is always the wallet's first owner in this demo
+const OWNER_INDEX = 0;
+
+// How many self-paid ops the top-up target covers unless the user picks another number
+const DEFAULT_TARGET_OPS = 3;
+
+function TransactionLink({ hash }: { hash: Hash }) {
+  return (
+    <a
+      href={`${baseSepolia.blockExplorers.default.url}/tx/${hash}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-blue-400 hover:text-blue-300 underline font-mono"
+    >
+      {hash.slice(0, 10)}…{hash.slice(-8)}
+    </a>
+  );
+}
+
+export function DepositManager({ smartWalletAddress, passkey }: Props) {
+  const [info, setInfo] = useState<DepositInfo | null>(null);
+  const [history, setHistory] = useState<DepositEvent[]>([]);
+  // Prefund the EntryPoint would reserve for one op paying its own gas at current fees
+  const [prefund, setPrefund] = useState<bigint | null>(null);
+  const [targetOps, setTargetOps] = useState(DEFAULT_TARGET_OPS);
+  const [withdrawTo, setWithdrawTo] = useState<string>(smartWalletAddress);
+  const [withdrawAmount, setWithdrawAmount] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState("");
+  const [error, setError] = useState("");
+
+  const getClients = useCallback(async () => {
+    const publicClient = createPublicClient({ chain: baseSepolia, transport: http() });
+    const smartAccount = await toCoinbaseSmartAccount({
+      client: publicClient,
+      owners: [toWebAuthnAccount({ credential: passkey })],
+      address: smartWalletAddress,
+      ownerIndex: OWNER_INDEX,
+    });
+    return { publicClient, smartAccount, bundlerClient: createRelayerBundlerClient(publicClient) };
+  }, [passkey, smartWalletAddress]);
+
+  const refresh = useCallback(async () => {
+    setError("");
+    try {
+      const { publicClient, smartAccount, bundlerClient } = await getClients();
+      const [depositInfo, events, fees] = await Promise.all([
+        getDepositInfo(publicClient, smartWalletAddress),
+        getDepositHistory(publicClient, smartWalletAddress),
+        getUserOperationFees(publicClient),
+      ]);
+      setInfo(depositInfo);
+      setHistory(events);
+
+      // Sized on a 1 wei transfer to the relayer, the op the passkey flow sends, paid without a paymaster
+      const gasLimits = await bundlerClient.estimateUserOperationGas({
+        account: smartAccount,
+        calls: [{ to: process.env.NEXT_PUBLIC_RELAYER_ADDRESS as Address, value: BigInt(1) }],
+        paymasterAndData: "0x",
+        signature: wrapSignature(OWNER_INDEX, "0x"),
+        ...fees,
+      });
+      setPrefund(getRequiredPrefund({ ...gasLimits, maxFeePerGas: fees.maxFeePerGas }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  }, [getClients, smartWalletAddress]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const target = info && prefund !== null ? getDepositTopUp(info.deposit, prefund, targetOps) : null;
+
+  // The relayer adds the difference between the deposit and the target, authorized by the passkey
+  const handleTopUp = async () => {
+    if (!target || target.topUp === BigInt(0)) return;
+    setBusy(true);
+    setError("");
+    try {
+      setStatus(`Asking the relayer to deposit ${formatEther(target.topUp)} ETH...`);
+      const { hash } = await relay(
+        { operation: "depositTo", targetAddress: smartWalletAddress, value: target.topUp },
+        { type: "passkey", account: toWebAuthnAccount({ credential: passkey }) }
+      );
+      const { publicClient } = await getClients();
+      const receipt = await waitForRelayedTransaction(publicClient, hash);
+      setStatus(`Deposit ${receipt.status === "success" ? "added" : "reverted"} in ${receipt.transactionHash}`);
+      await refresh();
+    } catch (error) {
+      setStatus("");
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Only the wallet can withdraw its deposit, so the passkey signs a sponsored op calling withdrawTo
+  const handleWithdraw = async () => {
+    if (!info) return;
+    setBusy(true);
+    setError("");
+    try {
+      if (!isAddress(withdrawTo)) {
+        throw new Error("Enter the address to withdraw to");
+      }
+      const amount = withdrawAmount.trim() ? parseEther(withdrawAmount.trim()) : info.deposit;
+      if (amount === BigInt(0) || amount > info.deposit) {
+        throw new Error(`Withdraw between 0 and ${formatEther(info.deposit)} ETH`);
+      }
+
+      setStatus("Building and sponsoring the withdrawTo userOp...");
+      const { publicClient, smartAccount, bundlerClient } = await getClients();
+      const [nonce, fees] = await Promise.all([smartAccount.getNonce(), getUserOperationFees(publicClient)]);
+      const callData = await smartAccount.encodeCalls([getDepositWithdrawCall(withdrawTo, amount)]);
+
+      const stub = await createRelayerPaymasterClient().getPaymasterStubData({
+        sender: smartAccount.address,
+        nonce,
+        initCode: "0x",
+        callData,
+        ...fees,
+        chainId: baseSepolia.id,
+        entryPointAddress: smartAccount.entryPoint.address,
+      });
+      const gasLimits = await bundlerClient.estimateUserOperationGas({
+        account: smartAccount,
+        callData,
+        nonce,
+        initCode: "0x",
+        paymasterAndData: stub.paymasterAndData ?? "0x",
+        signature: wrapSignature(OWNER_INDEX, "0x"),
+        ...fees,
+      });
+      const gasFields = {
+        sender: smartAccount.address,
+        nonce,
+        initCode: "0x" as const,
+        callData,
+        callGasLimit: gasLimits.callGasLimit,
+        verificationGasLimit: gasLimits.verificationGasLimit,
+        preVerificationGas: gasLimits.preVerificationGas,
+        ...fees,
+        signature: "0x" as const,
+      };
+      const { paymasterAndData } = await requestPaymasterSponsorship(
+        { ...gasFields, paymasterAndData: "0x" },
+        smartAccount.entryPoint.address
+      );
+      const unsignedUserOp = { ...gasFields, paymasterAndData };
+
+      setStatus("Sign the withdrawal with your passkey...");
+      const signature = await smartAccount.signUserOperation(unsignedUserOp);
+
+      setStatus("Submitting the withdrawal...");
+      const userOpHash = await bundlerClient.sendUserOperation({ ...unsignedUserOp, account: smartAccount, signature });
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOpHash });
+      if (!receipt.success) {
+        throw new Error(`Withdrawal op failed${receipt.reason ? `: ${receipt.reason}` : ""}`);
+      }
+      setStatus(`Withdrew ${formatEther(amount)} ETH to ${withdrawTo} in ${receipt.receipt.transactionHash}`);
+      setWithdrawAmount("");
+      await refresh();
+    } catch (error) {
+      setStatus("");
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="w-full p-4 bg-gray-800 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-lg font-semibold text-blue-400">EntryPoint Deposit</h4>
+        <button
+          onClick={() => void refresh()}
+          disabled={busy}
+          className="px-3 py-1 text-sm bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {info ? (
+        <div className="font-mono text-sm text-gray-300 space-y-1">
+          <p>deposit: {formatEther(info.deposit)} ETH</p>
+          <p>staked: {info.staked ? "yes" : "no"}</p>
+          <p>stake: {formatEther(info.stake)} ETH</p>
+          <p>unstakeDelaySec: {info.unstakeDelaySec}</p>
+          <p>
+            withdrawTime: {info.withdrawTime === 0 ? "not unlocking" : new Date(info.withdrawTime * 1000).toLocaleString()}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">Loading deposit...</p>
+      )}
+
+      <div className="space-y-2">
+        <h5 className="text-sm font-semibold text-gray-300">Top up</h5>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Cover
+          <input
+            type="number"
+            min={1}
+            value={targetOps}
+            onChange={(e) => setTargetOps(Math.max(1, Number(e.target.value) || 1))}
+            className="w-20 px-2 py-1 bg-gray-700 rounded text-white"
+          />
+          ops paying their own gas at current fees
+        </label>
+        {target && prefund !== null && (
+          <p className="text-sm text-gray-400">
+            {formatEther(prefund)} ETH prefund per op; target {formatEther(target.target)} ETH,{" "}
+            {target.topUp > BigInt(0) ? `top-up ${formatEther(target.topUp)} ETH` : "already covered"}
+          </p>
+        )}
+        <button
+          onClick={handleTopUp}
+          disabled={busy || !target || target.topUp === BigInt(0)}
+          className="px-4 py-2 bg-blue-500 rounded hover:bg-blue-600 disabled:bg-gray-600"
+        >
+          Top up deposit
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <h5 className="text-sm font-semibold text-gray-300">Withdraw</h5>
+        <input
+          type="text"
+          value={withdrawTo}
+          onChange={(e) => setWithdrawTo(e.target.value)}
+          placeholder="0x... recipient"
+          className="w-full px-3 py-2 bg-gray-700 rounded text-white font-mono text-sm"
+        />
+        <input
+          type="text"
+          value={withdrawAmount}
+          onChange={(e) => setWithdrawAmount(e.target.value)}
+          placeholder={info ? `${formatEther(info.deposit)} (whole deposit)` : "Amount in ETH"}
+          className="w-full px-3 py-2 bg-gray-700 rounded text-white font-mono text-sm"
+        />
+        <button
+          onClick={handleWithdraw}
+          disabled={busy || !info || info.deposit === BigInt(0)}
+          className="px-4 py-2 bg-blue-500 rounded hover:bg-blue-600 disabled:bg-gray-600"
+        >
+          Withdraw with passkey
+        </button>
+      </div>
+
+      {status && <p className="text-sm text-blue-400 break-all">{status}</p>}
+      {error && <p className="text-sm text-red-400 break-all">❌ {error}</p>}
+
+      <div>
+        <h5 className="text-sm font-semibold text-gray-300 mb-2">History</h5>
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-400">No Deposited or Withdrawn events in recent blocks</p>
+        ) : (
+          <ul className="space-y-1 text-xs text-gray-400 font-mono break-all">
+            {[...history].reverse().map((event) => (
+              <li key={`${event.transactionHash}-${event.type}`}>
+                #{event.blockNumber.toString()}{" "}
+                {event.type === "deposited"
+                  ? `Deposited, total now ${formatEther(event.totalDeposit)} ETH`
+                  : `Withdrawn ${formatEther(event.amount)} ETH to ${event.withdrawAddress}`}{" "}
+                <TransactionLink hash={event.transactionHash} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,30 @@
 import { useState, useCallback, useEffect } from "react";
-import { type Address, type Hash, type Hex, createPublicClient, http } from "viem";
+import { type Address, type Hash, type Hex, createPublicClient, formatEther, http } from "viem";
 import {
   type P256Credential,
   toWebAuthnAccount,
   toCoinbaseSmartAccount,
-  type UserOperation,
 } from "viem/account-abstraction";
 import { baseSepolia } from "../lib/chains";
-import { serializeBigInts } from "../lib/relayer-utils";
+import { relay } from "../lib/relay-client";
+import { createRelayerBundlerClient, createRelayerPaymasterClient } from "../lib/bundler-client";
+import { requestPaymasterSponsorship } from "../lib/paymaster-client";
+import {
+  TOKEN_PAYMASTER_GAS_CEILING,
+  encodeTokenPaymasterAndData,
+  getTokenPaymasterAddress,
+  getTokenPaymasterQuote,
+  getTokenPaymasterSetupCalls,
+} from "../lib/token-paymaster";
+import { type JobEvent, describeJobEvent, watchJob } from "../lib/job-stream";
 import { type ExtendedAccount } from "../lib/wallet-utils";
+import { wrapSignature } from "../lib/smart-account";
+import { getUserOperationFees } from "../lib/user-operation-fees";
+import { type UserOperationErrorExplanation, explainUserOperationError } from "../lib/user-operation-errors";
 import { checkAccountBalances, verifyPasskeyOwnership } from "../lib/contract-utils";
+import { getDepositWithdrawCall } from "../lib/entrypoint-deposit";
 import { AccountRecovery } from "./AccountRecovery";
+import { DepositManager } from "./DepositManager";
 
 type VerificationStep = {
   status: string;
@@ -18,8 +32,15 @@ type VerificationStep = {
   txHash?: Hash;
   userOpHash?: Hash;
   error?: string;
+  // What a failed op's EntryPoint or wallet error means and how to fix it, when recognized
+  errorExplanation?: UserOperationErrorExplanation;
+  // Progress streamed from the server for this step's job
+  events?: JobEvent[];
 };
 
+// Who pays for the op's gas: the relayer's verifying paymaster, or the wallet in the token paymaster's ERC-20
+type GasPayment = "sponsored" | "token";
+
 type Props = {
   smartWalletAddress: Address;
   passkey: P256Credential;
@@ -32,17 +53,6 @@ type Props = {
   onPasskeyStored: (passkey: P256Credential) => void;
 };
 
-const waitForTransaction = async (
-  hash: Hash,
-  chain: typeof baseSepolia
-) => {
-  const publicClient = createPublicClient({
-    chain,
-    transport: http(),
-  });
-  await publicClient.waitForTransactionReceipt({ hash });
-};
-
 function TransactionLink({ hash }: { hash: Hash }) {
   return (
     <a
@@ -85,11 +95,27 @@ function StepDisplay({ step }: { step: VerificationStep }) {
           </div>
         </div>
       )}
+      {step.events && step.events.length > 0 && (
+        <ul className="mt-2 ml-6 space-y-1 text-sm text-gray-400 font-mono break-all">
+          {step.events.map((event) => (
+            <li key={event.seq}>{describeJobEvent(event)}</li>
+          ))}
+        </ul>
+      )}
       {step.error && (
         <div className="mt-2 ml-6 text-red-400">
           <span>Error: {step.error}</span>
         </div>
       )}
+      {step.errorExplanation && (
+        <div className="mt-2 ml-6 p-3 bg-gray-900 rounded text-sm space-y-1">
+          <p className="font-semibold text-yellow-400">
+            {step.errorExplanation.code}: {step.errorExplanation.title}
+          </p>
+          <p className="text-gray-300">{step.errorExplanation.cause}</p>
+          <p className="text-green-400">Suggested fix: {step.errorExplanation.suggestedFix}</p>
+        </div>
+      )}
     </div>
   );
 }
@@ -108,6 +134,7 @@ export function PasskeyVerification({
   const [verifying, setVerifying] = useState(false);
   const [steps, setSteps] = useState<VerificationStep[]>([]);
   const [isVerified, setIsVerified] = useState(false);
+  const [gasPayment, setGasPayment] = useState<GasPayment>("sponsored");
   const chain = baseSepolia;
 
   // Reset verification state when component becomes visible again after disruption
@@ -182,7 +209,7 @@ export function PasskeyVerification({
         isComplete: false,
       });
 
-      const { accountBalance, needsDeposit } = await checkAccountBalances(publicClient, smartWalletAddress);
+      const { accountBalance, entryPointDeposit } = await checkAccountBalances(publicClient, smartWalletAddress);
 
       if (accountBalance === BigInt(0)) {
         updateStep(0, {
@@ -191,21 +218,13 @@ export function PasskeyVerification({
         });
 
         console.log("Smart account has no balance, sending 1 wei from relayer...");
-        const response = await fetch("/api/relay", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            operation: "fund",
-            targetAddress: smartWalletAddress,
-            value: "1",
-          }),
-        });
-        if (!response.ok) {
-          throw new Error("Failed to fund smart account");
-        }
-        const { hash } = await response.json();
+        const { hash, job } = await relay({
+          operation: "fund",
+          targetAddress: smartWalletAddress,
+          value: BigInt(1),
+        }, { type: "passkey", account: webAuthnAccount });
         console.log("Funding transaction hash:", hash);
-        await waitForTransaction(hash as Hash, chain);
+        await followJob(0, job.id).done;
         console.log("Smart account funded with 1 wei");
       }
 
@@ -214,46 +233,11 @@ export function PasskeyVerification({
         isComplete: true,
       });
 
-      if (needsDeposit) {
-        console.log("Insufficient deposit, pre-funding required...");
-        addStep({
-          status: "Pre-funding smart account gas in EntryPoint...",
-          isComplete: false,
-        });
-
-        const depositResponse = await fetch("/api/verify-passkey/deposit", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ smartWalletAddress }),
-        });
-
-        if (!depositResponse.ok) {
-          const error = await depositResponse.text();
-          updateStep(1, { error, isComplete: true });
-          return;
-        }
-
-        const { txHash: depositTxHash } = await depositResponse.json();
-        console.log("Deposit transaction hash:", depositTxHash);
-        updateStep(1, {
-          status: "Waiting for EntryPoint pre-funding transaction...",
-          isComplete: false,
-          txHash: depositTxHash,
-        });
-
-        await waitForTransaction(depositTxHash, chain);
-        const { entryPointDeposit: newDeposit } = await checkAccountBalances(publicClient, smartWalletAddress);
-        console.log("New deposit balance:", newDeposit.toString(), "wei");
-
-        updateStep(1, {
-          status: "EntryPoint pre-funding complete",
-          isComplete: true,
-          txHash: depositTxHash,
-        });
-      }
-
       addStep({
-        status: "Creating and signing userOp to transfer 1 wei to relayer...",
+        status: (gasPayment === "sponsored"
+          ? "Creating, sponsoring and signing userOp to transfer 1 wei to relayer"
+          : "Creating and signing userOp to transfer 1 wei to relayer, paying gas in ERC-20") +
+          (entryPointDeposit > BigInt(0) ? ` and refund the wallet's ${formatEther(entryPointDeposit)} ETH EntryPoint deposit...` : "..."),
         isComplete: false,
       });
 
@@ -265,41 +249,135 @@ export function PasskeyVerification({
         ownerIndex: ourOwnerIndex,
       });
 
-      console.log("Encoding transfer call...");
-      const callData = await smartAccount.encodeCalls([
-        {
-          to: process.env.NEXT_PUBLIC_RELAYER_ADDRESS as Address,
-          value: BigInt(1),
-          data: "0x" as const,
-        },
-      ]);
+      const transferCall = {
+        to: process.env.NEXT_PUBLIC_RELAYER_ADDRESS as Address,
+        value: BigInt(1),
+        data: "0x" as const,
+      };
+
+      // A paymaster pays for the op, so any EntryPoint deposit the wallet holds can be refunded to
+      // it in full by a final call the passkey signs along with the transfer
+      const refundCalls =
+        entryPointDeposit > BigInt(0) ? [getDepositWithdrawCall(smartWalletAddress, entryPointDeposit)] : [];
+      if (refundCalls.length > 0) {
+        console.log("Refunding EntryPoint deposit in the same op:", entryPointDeposit.toString());
+      }
 
       console.log("Getting nonce...");
-      const nonce = await smartAccount.getNonce();
+      let nonce = await smartAccount.getNonce();
       console.log("Current nonce:", nonce.toString());
 
-      console.log("Preparing userOperation...");
-      const unsignedUserOp = {
-        sender: smartAccount.address,
-        nonce,
-        initCode: "0x" as const,
-        callData,
-        callGasLimit: BigInt(1000000),
-        verificationGasLimit: BigInt(1000000),
-        preVerificationGas: BigInt(200000),
-        maxFeePerGas: BigInt(20000000000),
-        maxPriorityFeePerGas: BigInt(1000000000),
-        paymasterAndData: "0x" as const,
-        signature: "0x" as const,
-      } as const;
+      console.log("Fetching gas fees...");
+      const fees = await getUserOperationFees(publicClient);
+      const bundlerClient = createRelayerBundlerClient(publicClient);
+
+      // The bundler estimates gas limits by simulating the op with a stub signature for the owner
+      // index carried here, and paymaster data of the same length as the final one
+      const estimateGasFields = async (callData: Hex, stubPaymasterAndData: Hex) => {
+        const gasLimits = await bundlerClient.estimateUserOperationGas({
+          account: smartAccount,
+          callData,
+          nonce,
+          initCode: "0x",
+          paymasterAndData: stubPaymasterAndData,
+          signature: wrapSignature(ourOwnerIndex, "0x"),
+          ...fees,
+        });
+        console.log("Estimated gas limits:", gasLimits);
+        return {
+          sender: smartAccount.address,
+          nonce,
+          initCode: "0x" as const,
+          callGasLimit: gasLimits.callGasLimit,
+          verificationGasLimit: gasLimits.verificationGasLimit,
+          preVerificationGas: gasLimits.preVerificationGas,
+          ...fees,
+          signature: "0x" as const,
+        };
+      };
+
+      // Estimates an op and has the relayer's verifying paymaster sponsor it
+      const sponsorCalls = async (callData: Hex) => {
+        console.log("Estimating gas...");
+        const stub = await createRelayerPaymasterClient().getPaymasterStubData({
+          sender: smartAccount.address,
+          nonce,
+          initCode: "0x",
+          callData,
+          ...fees,
+          chainId: baseSepolia.id,
+          entryPointAddress: smartAccount.entryPoint.address,
+        });
+        const gasFields = await estimateGasFields(callData, stub.paymasterAndData ?? "0x");
+
+        console.log("Requesting paymaster sponsorship...");
+        const { paymasterAndData } = await requestPaymasterSponsorship(
+          { ...gasFields, callData, paymasterAndData: "0x" },
+          smartAccount.entryPoint.address
+        );
+        return { gasFields, paymasterAndData };
+      };
+
+      // Either way a paymaster pays for gas, so the wallet needs no EntryPoint deposit
+      console.log("Encoding transfer call...");
+      const callData = await smartAccount.encodeCalls([transferCall, ...refundCalls]);
+      let gasFields: Awaited<ReturnType<typeof estimateGasFields>>;
+      let paymasterAndData: Hex;
+      if (gasPayment === "sponsored") {
+        ({ gasFields, paymasterAndData } = await sponsorCalls(callData));
+      } else {
+        const tokenPaymaster = getTokenPaymasterAddress();
+        if (!tokenPaymaster) {
+          throw new Error("NEXT_PUBLIC_TOKEN_PAYMASTER_ADDRESS is not configured");
+        }
+
+        // The paymaster collects its payment while validating the op, before the op's calls run, so
+        // a wallet that hasn't approved it (or holds too little of the mock token) is set up first,
+        // in an op the relayer sponsors
+        const ceilingQuote = await getTokenPaymasterQuote(publicClient, tokenPaymaster, {
+          ...TOKEN_PAYMASTER_GAS_CEILING,
+          ...fees,
+        });
+        const setupCalls = await getTokenPaymasterSetupCalls(publicClient, smartWalletAddress, ceilingQuote);
+        if (setupCalls.length > 0) {
+          updateStep(1, { status: "Approving the token paymaster in a sponsored userOp...", isComplete: false });
+          const setupCallData = await smartAccount.encodeCalls(setupCalls);
+          const setup = await sponsorCalls(setupCallData);
+          const setupUserOp = { ...setup.gasFields, callData: setupCallData, paymasterAndData: setup.paymasterAndData };
+          const setupHash = await bundlerClient.sendUserOperation({
+            ...setupUserOp,
+            account: smartAccount,
+            signature: await smartAccount.signUserOperation(setupUserOp),
+          });
+          const setupReceipt = await bundlerClient.waitForUserOperationReceipt({ hash: setupHash });
+          if (!setupReceipt.success) {
+            throw new Error(`Approving the token paymaster failed${setupReceipt.reason ? `: ${setupReceipt.reason}` : ""}`);
+          }
+          console.log("Token paymaster approved:", setupReceipt.receipt.transactionHash);
+          nonce = await smartAccount.getNonce();
+        }
+
+        // Gas is estimated with the payment priced at zero gas limits; the amount barely changes its cost
+        console.log("Estimating gas...");
+        const noGas = { callGasLimit: BigInt(0), verificationGasLimit: BigInt(0), preVerificationGas: BigInt(0) };
+        const stubQuote = await getTokenPaymasterQuote(publicClient, tokenPaymaster, { ...noGas, ...fees });
+        gasFields = await estimateGasFields(callData, encodeTokenPaymasterAndData(stubQuote));
+
+        console.log("Pricing gas in the token paymaster's ERC-20...");
+        const quote = await getTokenPaymasterQuote(publicClient, tokenPaymaster, gasFields);
+        console.log("Max token cost:", quote.maxTokenCost.toString());
+        paymasterAndData = encodeTokenPaymasterAndData(quote);
+      }
+      const unsignedUserOp = { ...gasFields, callData, paymasterAndData };
 
       console.log("Signing userOperation...");
       const signature = await smartAccount.signUserOperation(unsignedUserOp);
 
-      const userOp = { ...unsignedUserOp, signature } as UserOperation;
 
-      updateStep(2, {
-        status: "UserOperation created and signed",
+      updateStep(1, {
+        status: gasPayment === "sponsored"
+          ? "UserOperation sponsored by the paymaster and signed"
+          : "UserOperation signed, paying gas in ERC-20",
         isComplete: true,
       });
 
@@ -308,75 +386,52 @@ export function PasskeyVerification({
         isComplete: false,
       });
 
-      const submitResponse = await fetch("/api/verify-passkey/submit", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          userOp: serializeBigInts(userOp),
-        }),
-      });
-
-      if (!submitResponse.ok) {
-        const error = await submitResponse.text();
-        updateStep(3, { error, isComplete: true });
+      let userOpHash: Hash;
+      try {
+        userOpHash = await bundlerClient.sendUserOperation({
+          ...unsignedUserOp,
+          account: smartAccount,
+          signature,
+        });
+      } catch (error) {
+        updateStep(2, {
+          error: error instanceof Error ? error.message : String(error),
+          errorExplanation: explainUserOperationError(error),
+          isComplete: true,
+        });
         return;
       }
 
-      const { txHash, userOpHash } = await submitResponse.json();
-      updateStep(3, {
+      updateStep(2, {
         status: "Waiting for userOperation transaction...",
         isComplete: false,
-        txHash,
         userOpHash,
       });
 
-      await waitForTransaction(txHash, chain);
-      updateStep(3, {
+      // The bundler publishes the handleOps transaction's progress under the userOp hash
+      const submitJob = followJob(2, userOpHash);
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOpHash });
+      if (!receipt.success) {
+        // The bundle was mined, but the op's own call reverted
+        submitJob.close();
+        submitJob.done.catch(() => undefined);
+        updateStep(2, {
+          error: `UserOperation failed${receipt.reason ? `: ${receipt.reason}` : ""}`,
+          errorExplanation: receipt.reason ? explainUserOperationError(receipt.reason) : undefined,
+          isComplete: true,
+          txHash: receipt.receipt.transactionHash,
+          userOpHash,
+        });
+        return;
+      }
+      const { hash: txHash } = await submitJob.done;
+      updateStep(2, {
         status: "UserOperation submitted successfully",
         isComplete: true,
         txHash,
         userOpHash,
       });
 
-      addStep({
-        status: "Retrieving unused deposit...",
-        isComplete: false,
-      });
-
-      const retrieveResponse = await fetch("/api/verify-passkey/retrieve", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          smartWalletAddress,
-        }),
-      });
-
-      if (!retrieveResponse.ok) {
-        const error = await retrieveResponse.text();
-        updateStep(4, { error, isComplete: true });
-        return;
-      }
-
-      const { txHash: retrieveTxHash } = await retrieveResponse.json();
-      if (retrieveTxHash) {
-        updateStep(4, {
-          status: "Waiting for withdrawal transaction...",
-          isComplete: false,
-          txHash: retrieveTxHash,
-        });
-
-        await waitForTransaction(retrieveTxHash, chain);
-        updateStep(4, {
-          status: "Successfully retrieved unused deposit",
-          isComplete: true,
-          txHash: retrieveTxHash,
-        });
-      } else {
-        updateStep(4, {
-          status: "No unused deposit to retrieve",
-          isComplete: true,
-        });
-      }
       setIsVerified(true);
     } catch (error) {
       const errorMessage =
@@ -385,11 +440,12 @@ export function PasskeyVerification({
         status: "Verification failed",
         isComplete: true,
         error: errorMessage,
+        errorExplanation: explainUserOperationError(error),
       });
     } finally {
       setVerifying(false);
     }
-  }, [smartWalletAddress, passkey, chain]);
+  }, [smartWalletAddress, passkey, chain, gasPayment]);
 
   const updateStep = (index: number, updates: Partial<VerificationStep>) => {
     setSteps((current) =>
@@ -401,6 +457,24 @@ export function PasskeyVerification({
     setSteps((current) => [...current, step]);
   };
 
+  // Streams a job's progress into the step at `index`, keeping its transaction link on the latest hash
+  const followJob = (index: number, jobId: Hash) => {
+    const { done, close } = watchJob(jobId, (event) => {
+      setSteps((current) =>
+        current.map((step, i) =>
+          i === index
+            ? {
+                ...step,
+                events: [...(step.events ?? []), event],
+                txHash: "hash" in event ? event.hash : step.txHash,
+              }
+            : step
+        )
+      );
+    });
+    return { id: jobId, done, close };
+  };
+
   return (
     <div className="flex flex-col items-center w-full max-w-5xl mx-auto mt-8">
       <AccountRecovery
@@ -416,6 +490,19 @@ export function PasskeyVerification({
 
       {!isDisrupted && (
         <div className="flex flex-col items-center w-full mt-8">
+          <label className="flex items-center gap-3 mb-4 text-sm text-gray-400">
+            Pay gas with
+            <select
+              value={gasPayment}
+              onChange={(e) => setGasPayment(e.target.value as GasPayment)}
+              disabled={verifying}
+              className="p-2 bg-gray-800 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+            >
+              <option value="sponsored">Relayer sponsorship (verifying paymaster)</option>
+              <option value="token">ERC-20 (token paymaster)</option>
+            </select>
+          </label>
+
           <button
             onClick={handleVerify}
             disabled={verifying}
@@ -438,6 +525,10 @@ export function PasskeyVerification({
               </div>
             </div>
           )}
+
+          <div className="w-full mt-8">
+            <DepositManager smartWalletAddress={smartWalletAddress} passkey={passkey} />
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { EIP7702PROXY_TEMPLATE_ADDRESS } from "../lib/constants";
+import { type EntryPointVersion } from "../lib/entrypoint";
+import { type UserOperationInspection, inspectUserOperation } from "../lib/user-operation-inspector";
+
+interface Props {
+  // Prefills the input, e.g. with an op signed on the upgrade page
+  initialJson?: string;
+}
+
+export function UserOperationInspector({ initialJson = "" }: Props) {
+  const [json, setJson] = useState(initialJson);
+  const [version, setVersion] = useState<EntryPointVersion | "auto">("auto");
+  const [inspection, setInspection] = useState<UserOperationInspection | null>(null);
+  const [error, setError] = useState<string>("");
+
+  const handleInspect = async () => {
+    setError("");
+    setInspection(null);
+    try {
+      // This app's v0.8 EIP-7702 ops delegate to the EIP7702Proxy template
+      setInspection(
+        await inspectUserOperation(json, {
+          version: version === "auto" ? undefined : version,
+          eip7702Delegate: EIP7702PROXY_TEMPLATE_ADDRESS,
+        })
+      );
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const signature = inspection?.signature;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-gray-400">
+        Paste a signed UserOperation as JSON: a bare op, <code>eth_sendUserOperation</code> params, or the
+        output of &quot;Sign as Smart Account&quot;. Its hash is computed locally and its Coinbase Smart Wallet
+        signature is decoded, showing what the owner actually signed.
+      </p>
+      <textarea
+        value={json}
+        onChange={(e) => setJson(e.target.value)}
+        placeholder='{ "sender": "0x...", "nonce": "0x0", "callData": "0x...", "signature": "0x...", ... }'
+        className="w-full h-48 px-3 py-2 bg-gray-700 rounded text-white font-mono text-xs"
+      />
+      <div className="flex gap-2 items-center">
+        <label className="text-sm text-gray-400">EntryPoint:</label>
+        <select
+          value={version}
+          onChange={(e) => setVersion(e.target.value as EntryPointVersion | "auto")}
+          className="px-3 py-2 bg-gray-700 rounded text-white"
+        >
+          <option value="auto">Detect from the JSON</option>
+          <option value="0.6">v0.6</option>
+          <option value="0.7">v0.7</option>
+          <option value="0.8">v0.8</option>
+        </select>
+        <button
+          onClick={handleInspect}
+          disabled={!json.trim()}
+          className="px-4 py-2 bg-indigo-600 rounded hover:bg-indigo-700 disabled:bg-gray-600"
+        >
+          Inspect UserOperation
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">❌ {error}</p>}
+
+      {inspection && (
+        <div className="bg-gray-800 p-4 rounded space-y-4">
+          <div className="font-mono text-xs break-all space-y-1">
+            <p className="text-gray-400">
+              EntryPoint v{inspection.entryPointVersion}: <span className="text-gray-300">{inspection.entryPointAddress}</span>
+            </p>
+            <p className="text-gray-400">
+              UserOp hash:{" "}
+              {inspection.userOpHash
+                ? <span className="text-green-400">{inspection.userOpHash}</span>
+                : <span className="text-yellow-400">{inspection.hashError}</span>}
+            </p>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="pr-4 pb-2">Field</th>
+                  <th className="pr-4 pb-2">Value</th>
+                  <th className="pb-2">Meaning</th>
+                </tr>
+              </thead>
+              <tbody>
+                {inspection.fields.map(({ field, value, explanation }) => (
+                  <tr key={field} className="align-top border-t border-gray-700">
+                    <td className="pr-4 py-2 font-semibold text-gray-300 whitespace-nowrap">{field}</td>
+                    <td className="pr-4 py-2 font-mono text-gray-400 break-all max-w-xs">{value}</td>
+                    <td className="py-2 text-gray-300">{explanation}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {signature?.type === "webauthn" && (
+            <div>
+              <h5 className="text-sm font-semibold text-gray-300 mb-2">WebAuthnAuth (owner #{signature.ownerIndex}):</h5>
+              <div className="bg-gray-900 p-3 rounded font-mono text-xs text-gray-300 break-all space-y-1">
+                <p>authenticatorData: {signature.auth.authenticatorData}</p>
+                <p>
+                  flags: user {signature.userPresent ? "present" : "not present"}, {signature.userVerified ? "verified" : "not verified"}; sign count {signature.signCount}
+                </p>
+                <p>clientDataJSON: {signature.auth.clientDataJSON}</p>
+                <p className={signature.indexesValid ? "" : "text-red-400"}>
+                  typeIndex: {signature.auth.typeIndex.toString()}, challengeIndex: {signature.auth.challengeIndex.toString()}
+                </p>
+                <p className={signature.challengeMatchesHash === false ? "text-red-400" : signature.challengeMatchesHash ? "text-green-400" : ""}>
+                  challenge: {signature.challenge ?? "(not base64url)"}
+                </p>
+                <p>r: {signature.auth.r.toString()}</p>
+                <p>s: {signature.auth.s.toString()}</p>
+              </div>
+            </div>
+          )}
+
+          {signature?.type === "ecdsa" && (
+            <div>
+              <h5 className="text-sm font-semibold text-gray-300 mb-2">ECDSA signature (owner #{signature.ownerIndex}):</h5>
+              <div className="bg-gray-900 p-3 rounded font-mono text-xs text-gray-300 break-all space-y-1">
+                <p>r: {signature.r}</p>
+                <p>s: {signature.s}</p>
+                <p>v: {signature.v}</p>
+                <p>recovered signer: {signature.recoveredSigner ?? "(hash unavailable)"}</p>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
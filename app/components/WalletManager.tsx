@@ -17,6 +17,7 @@ import {
   EIP7702PROXY_TEMPLATE_ADDRESS,
 } from "../lib/constants";
 import { getNonceFromTracker, verifyPasskeyOwnership, checkContractState } from "../lib/contract-utils";
+import { relay, waitForRelayedTransaction } from "../lib/relay-client";
 import { createWebAuthnCredentialWithPRF, type ExtendedP256Credential } from "../lib/webauthn-prf";
 import { 
   generatePRFSalt, 
@@ -258,23 +259,12 @@ export function WalletManager({
                 transport: http(),
       });
 
-      // Create initialization args with both passkey and relayer as owners
-      // We include the relayer as owner only for the purposes of this demo, which allows the relayer
-      // to retrieve their entrypoint deposit while serving as a lightweight bundler.
+      // Create initialization args with the passkey as the only owner
       setStatus("Preparing initialization data and signature...");
       
-      const relayerAddress = process.env.NEXT_PUBLIC_RELAYER_ADDRESS;
-      if (!relayerAddress) {
-        throw new Error("NEXT_PUBLIC_RELAYER_ADDRESS is not defined in environment variables");
-      }
-      
       console.log("[WalletManager] Passkey for initialization:", passkey);
-      console.log("[WalletManager] Relayer address for initialization:", relayerAddress);
       
-      const initArgs = encodeInitializeArgs([
-        passkey,
-        relayerAddress as Hex,
-      ]);
+      const initArgs = encodeInitializeArgs([passkey]);
       const nonce = await getNonceFromTracker(publicClient, account.address);
       const chainId = baseSepolia.id;
 
@@ -301,33 +291,22 @@ export function WalletManager({
 
       // Submit the combined upgrade transaction
       setStatus("Submitting upgrade transaction...");
-      const upgradeResponse = await fetch("/api/relay", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(
-          {
-            operation: "upgradeEOA",
-            targetAddress: account.address,
-            initArgs,
-            signature,
-            authorizationList: [authorization],
-          },
-          (_, value) => (typeof value === "bigint" ? value.toString() : value)
-        ),
+      const { hash: upgradeHash } = await relay({
+        operation: "upgradeEOA",
+        targetAddress: account.address,
+        initArgs,
+        signature,
+        authorizationList: [authorization],
+      }, { type: "eoa", account }, {
+        // Both nonces stay the same until the upgrade lands, so resubmitting after a reload
+        // returns the original job instead of paying for a second upgrade
+        idempotencyKey: `upgradeEOA:${nonce}:${authorization.nonce}`,
       });
-
-      if (!upgradeResponse.ok) {
-        const error = await upgradeResponse.json();
-        throw new Error(error.error || "Failed to relay upgrade transaction");
-      }
-      const upgradeHash = (await upgradeResponse.json()).hash;
       console.log("Upgrade transaction submitted:", upgradeHash);
 
       // Wait for the upgrade transaction to be mined
       setStatus("Waiting for upgrade transaction confirmation...");
-      const upgradeReceipt = await publicClient.waitForTransactionReceipt({
-        hash: upgradeHash,
-      });
+      const upgradeReceipt = await waitForRelayedTransaction(publicClient, upgradeHash);
       if (upgradeReceipt.status !== "success") {
         throw new Error("Upgrade transaction failed");
       }
@@ -353,7 +332,7 @@ export function WalletManager({
         setStatus("✓ EOA has been upgraded to a Coinbase Smart Wallet with verified passkey!");
         onUpgradeComplete(
           account.address as `0x${string}`,
-          upgradeHash,
+          upgradeReceipt.transactionHash,
           state.bytecode
         );
         setIsUpgraded(true);
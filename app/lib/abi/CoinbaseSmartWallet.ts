@@ -0,0 +1,52 @@
+import { Abi } from "viem";
+
+// Custom errors of `CoinbaseSmartWallet` and its `MultiOwnable` base, for decoding reverts
+export const COINBASE_SMART_WALLET_ERRORS_ABI = [
+    { "type": "error", "name": "Initialized", "inputs": [] },
+    {
+      "type": "error",
+      "name": "SelectorNotAllowed",
+      "inputs": [{ "name": "selector", "type": "bytes4" }]
+    },
+    {
+      "type": "error",
+      "name": "InvalidNonceKey",
+      "inputs": [{ "name": "key", "type": "uint256" }]
+    },
+    { "type": "error", "name": "Unauthorized", "inputs": [] },
+    {
+      "type": "error",
+      "name": "AlreadyOwner",
+      "inputs": [{ "name": "owner", "type": "bytes" }]
+    },
+    {
+      "type": "error",
+      "name": "NoOwnerAtIndex",
+      "inputs": [{ "name": "index", "type": "uint256" }]
+    },
+    {
+      "type": "error",
+      "name": "WrongOwnerAtIndex",
+      "inputs": [
+        { "name": "index", "type": "uint256" },
+        { "name": "expectedOwner", "type": "bytes" },
+        { "name": "actualOwner", "type": "bytes" }
+      ]
+    },
+    {
+      "type": "error",
+      "name": "InvalidOwnerBytesLength",
+      "inputs": [{ "name": "owner", "type": "bytes" }]
+    },
+    {
+      "type": "error",
+      "name": "InvalidEthereumAddressOwner",
+      "inputs": [{ "name": "owner", "type": "bytes" }]
+    },
+    { "type": "error", "name": "LastOwner", "inputs": [] },
+    {
+      "type": "error",
+      "name": "NotLastOwner",
+      "inputs": [{ "name": "ownersRemaining", "type": "uint256" }]
+    }
+  ] as const satisfies Abi;
@@ -1,6 +1,6 @@
 import { type Abi } from "viem";
 
-export const ENTRYPOINT_ABI: Abi = [
+export const ENTRYPOINT_ABI = [
   {
     inputs: [
       { internalType: "uint256", name: "preOpGas", type: "uint256" },
@@ -991,4 +991,4 @@ export const ENTRYPOINT_ABI: Abi = [
     type: "function",
   },
   { stateMutability: "payable", type: "receive" },
-];
+] as const satisfies Abi;
@@ -0,0 +1,123 @@
+import { type Abi, type Hex } from "viem";
+
+// `EntryPointSimulations` from @account-abstraction/contracts: the v0.7 and v0.8 EntryPoints with
+// `simulateHandleOp` and `simulateValidation` added. It is never deployed; a bundler `eth_call`s it
+// with its runtime code overriding the EntryPoint's, so it sees the EntryPoint's deposits and nonces.
+export const ENTRYPOINT_SIMULATIONS_ABI = [
+  {
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "address",
+            "name": "sender",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "nonce",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bytes",
+            "name": "initCode",
+            "type": "bytes"
+          },
+          {
+            "internalType": "bytes",
+            "name": "callData",
+            "type": "bytes"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "accountGasLimits",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "uint256",
+            "name": "preVerificationGas",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "gasFees",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "bytes",
+            "name": "paymasterAndData",
+            "type": "bytes"
+          },
+          {
+            "internalType": "bytes",
+            "name": "signature",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct PackedUserOperation",
+        "name": "op",
+        "type": "tuple"
+      },
+      {
+        "internalType": "address",
+        "name": "target",
+        "type": "address"
+      },
+      {
+        "internalType": "bytes",
+        "name": "targetCallData",
+        "type": "bytes"
+      }
+    ],
+    "name": "simulateHandleOp",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "preOpGas",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "paid",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "accountValidationData",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "paymasterValidationData",
+            "type": "uint256"
+          },
+          {
+            "internalType": "bool",
+            "name": "targetSuccess",
+            "type": "bool"
+          },
+          {
+            "internalType": "bytes",
+            "name": "targetResult",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct IEntryPointSimulations.ExecutionResult",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const satisfies Abi;
+
+// Runtime code of EntryPointSimulations, from @account-abstraction/contracts 0.7.0
+export const ENTRYPOINT_SIMULATIONS_V07_CODE: Hex =
+  "0x60806040526004361061016d5760003560e01c8063765e827f116100cb578063b760faf91161007f578063c3bce00911610059578063c3bce009146105ac578063dbed18e0146105d9578063fc7e286d146105f957600080fd5b8063b760faf914610564578063bb9fe6bf14610577578063c23a5cea1461058c57600080fd5b8063957122ab116100b0578063957122ab146104f757806397b2dcb9146105175780639b249f691461054457600080fd5b8063765e827f146104b7578063850aaf62146104d757600080fd5b8063205c28781161012257806335567e1a1161010757806335567e1a146102905780635287ce121461032557806370a082311461047457600080fd5b8063205c28781461025057806322cdde4c1461027057600080fd5b80630396cb60116101535780630396cb60146101e55780630bd28e3b146101f85780631b2e01b81461021857600080fd5b806242dc531461018257806301ffc9a7146101b557600080fd5b3661017d5761017b336106cb565b005b600080fd5b34801561018e57600080fd5b506101a261019d36600461426a565b6106ec565b6040519081526020015b60405180910390f35b3480156101c157600080fd5b506101d56101d0366004614330565b6108b7565b60405190151581526020016101ac565b61017b6101f3366004614372565b610a34565b34801561020457600080fd5b5061017b6102133660046143c0565b610dca565b34801561022457600080fd5b506101a26102333660046143db565b600160209081526000928352604080842090915290825290205481565b34801561025c57600080fd5b5061017b61026b366004614410565b610e12565b34801561027c57600080fd5b506101a261028b366004614455565b610fbc565b34801561029c57600080fd5b506101a26102ab3660046143db565b73ffffffffffffffffffffffffffffffffffffffff8216600090815260016020908152604080832077ffffffffffffffffffffffffffffffffffffffffffffffff8516845290915290819020549082901b7fffffffffffffffffffffffffffffffffffffffffffffffff0000000000000000161792915050565b34801561033157600080fd5b5061041261034036600461448a565b6040805160a0810182526000808252602082018190529181018290526060810182905260808101919091525073ffffffffffffffffffffffffffffffffffffffff1660009081526020818152604091829020825160a0810184528154815260019091015460ff811615159282019290925261010082046dffffffffffffffffffffffffffff16928101929092526f01000000000000000000000000000000810463ffffffff166060830152730100000000000000000000000000000000000000900465ffffffffffff16608082015290565b6040516101ac9190600060a082019050825182526020830151151560208301526dffffffffffffffffffffffffffff604084015116604083015263ffffffff606084015116606083015265ffffffffffff608084015116608083015292915050565b34801561048057600080fd5b506101a261048f36600461448a565b73ffffffffffffffffffffffffffffffffffffffff1660009081526020819052604090205490565b3480156104c357600080fd5b5061017b6104d23660046144ec565b610ffe565b3480156104e357600080fd5b5061017b6104f2366004614543565b61117b565b34801561050357600080fd5b5061017b610512366004614598565b611220565b34801561052357600080fd5b5061053761053236600461461d565b611378565b6040516101ac91906146ed565b34801561055057600080fd5b5061017b61055f36600461473c565b6114c4565b61017b61057236600461448a565b6106cb565b34801561058357600080fd5b5061017b6115af565b34801561059857600080fd5b5061017b6105a736600461448a565b61178f565b3480156105b857600080fd5b506105cc6105c7366004614455565b611a7c565b6040516101ac919061477e565b3480156105e557600080fd5b5061017b6105f43660046144ec565b611d80565b34801561060557600080fd5b5061068161061436600461448a565b6000602081905290815260409020805460019091015460ff81169061010081046dffffffffffffffffffffffffffff16906f01000000000000000000000000000000810463ffffffff1690730100000000000000000000000000000000000000900465ffffffffffff1685565b6040805195865293151560208601526dffffffffffffffffffffffffffff9092169284019290925263ffffffff909116606083015265ffffffffffff16608082015260a0016101ac565b60015b60058110156106df576001016106ce565b6106e88261222c565b5050565b6000805a9050333014610760576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601760248201527f4141393220696e7465726e616c2063616c6c206f6e6c7900000000000000000060448201526064015b60405180910390fd5b8451606081015160a082015181016127100160405a603f02816107855761078561485e565b0410156107b6577fdeaddead0000000000000000000000000000000000000000000000000000000060005260206000fd5b8751600090156108575760006107d3846000015160008c86612282565b9050806108555760006107e761080061229a565b80519091501561084f57846000015173ffffffffffffffffffffffffffffffffffffffff168a602001517f1c4fada7374c0a9ee8841fc38afe82932dc0f8e69012e927f061a8bae611a20187602001518460405161084692919061488d565b60405180910390a35b60019250505b505b600088608001515a86030190506108a7828a8a8a8080601f0160208091040260200160405190810160405280939291908181526020018383808284376000920191909152508792506122c6915050565b955050505050505b949350505050565b60007fffffffff0000000000000000000000000000000000000000000000000000000082167f60fc6b6e00000000000000000000000000000000000000000000000000000000148061094a57507fffffffff0000000000000000000000000000000000000000000000000000000082167f915074d800000000000000000000000000000000000000000000000000000000145b8061099657507fffffffff0000000000000000000000000000000000000000000000000000000082167fcf28ef9700000000000000000000000000000000000000000000000000000000145b806109e257507fffffffff0000000000000000000000000000000000000000000000000000000082167f3e84f02100000000000000000000000000000000000000000000000000000000145b80610a2e57507f01ffc9a7000000000000000000000000000000000000000000000000000000007fffffffff000000000000000000000000000000000000000000000000000000008316145b92915050565b33600090815260208190526040902063ffffffff8216610ab0576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601a60248201527f6d757374207370656369667920756e7374616b652064656c61790000000000006044820152606401610757565b600181015463ffffffff6f0100000000000000000000000000000090910481169083161015610b3b576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601c60248201527f63616e6e6f7420646563726561736520756e7374616b652074696d65000000006044820152606401610757565b6001810154600090610b6390349061010090046dffffffffffffffffffffffffffff166148d5565b905060008111610bcf576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601260248201527f6e6f207374616b652073706563696669656400000000000000000000000000006044820152606401610757565b6dffffffffffffffffffffffffffff811115610c47576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152600e60248201527f7374616b65206f766572666c6f770000000000000000000000000000000000006044820152606401610757565b6040805160a08101825283548152600160208083018281526dffffffffffffffffffffffffffff86811685870190815263ffffffff8a811660608801818152600060808a0181815233808352828a52918c90209a518b55965199909801805494519151965165ffffffffffff16730100000000000000000000000000000000000000027fffffffffffffff000000000000ffffffffffffffffffffffffffffffffffffff979094166f0100000000000000000000000000000002969096167fffffffffffffff00000000000000000000ffffffffffffffffffffffffffffff91909516610100027fffffffffffffffffffffffffffffffffff0000000000000000000000000000ff991515999099167fffffffffffffffffffffffffffffffffff00000000000000000000000000000090941693909317979097179190911691909117179055835185815290810192909252917fa5ae833d0bb1dcd632d98a8b70973e8516812898e19bf27b70071ebc8dc52c01910160405180910390a2505050565b33600090815260016020908152604080832077ffffffffffffffffffffffffffffffffffffffffffffffff851684529091528120805491610e0a836148e8565b919050555050565b3360009081526020819052604090208054821115610e8c576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601960248201527f576974686472617720616d6f756e7420746f6f206c61726765000000000000006044820152606401610757565b8054610e99908390614920565b81556040805173ffffffffffffffffffffffffffffffffffffffff851681526020810184905233917fd1c19fbcd4551a5edfb66d43d2e337c04837afda3482b42bdf569a8fccdae5fb910160405180910390a260008373ffffffffffffffffffffffffffffffffffffffff168360405160006040518083038185875af1925050503d8060008114610f46576040519150601f19603f3d011682016040523d82523d6000602084013e610f4b565b606091505b5050905080610fb6576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601260248201527f6661696c656420746f20776974686472617700000000000000000000000000006044820152606401610757565b50505050565b6000610fc7826124ee565b6040805160208101929092523090820152466060820152608001604051602081830303815290604052805190602001209050919050565b611006612507565b8160008167ffffffffffffffff81111561102257611022613ffd565b60405190808252806020026020018201604052801561105b57816020015b611048613e51565b8152602001906001900390816110405790505b50905060005b828110156110d457600082828151811061107d5761107d614933565b602002602001015190506000806110b8848a8a878181106110a0576110a0614933565b90506020028101906110b29190614962565b85612548565b915091506110c984838360006127a7565b505050600101611061565b506040516000907fbb47ee3e183a558b1a2ff0874b079f3fc5478b7454eacf2bfc5af2ff5878f972908290a160005b8381101561115e576111528188888481811061112157611121614933565b90506020028101906111339190614962565b85848151811061114557611145614933565b60200260200101516129fc565b90910190600101611103565b506111698482612dd2565b5050506111766001600255565b505050565b6000808473ffffffffffffffffffffffffffffffffffffffff1684846040516111a59291906149a0565b600060405180830381855af49150503d80600081146111e0576040519150601f19603f3d011682016040523d82523d6000602084013e6111e5565b606091505b509150915081816040517f994105540000000000000000000000000000000000000000000000000000000081526004016107579291906149b0565b83158015611243575073ffffffffffffffffffffffffffffffffffffffff83163b155b156112aa576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601960248201527f41413230206163636f756e74206e6f74206465706c6f796564000000000000006044820152606401610757565b6014811061133c5760006112c160148284866149cb565b6112ca916149f5565b60601c9050803b60000361133a576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601b60248201527f41413330207061796d6173746572206e6f74206465706c6f79656400000000006044820152606401610757565b505b6040517f08c379a00000000000000000000000000000000000000000000000000000000081526020600482015260006024820152604401610757565b6113b36040518060c0016040528060008152602001600081526020016000815260200160008152602001600015158152602001606081525090565b6113bb612507565b6113c3613e51565b6113cc86612f19565b6000806113db60008985612548565b9150915060006113ed60008a866129fc565b90506000606073ffffffffffffffffffffffffffffffffffffffff8a161561147f578973ffffffffffffffffffffffffffffffffffffffff1689896040516114369291906149a0565b6000604051808303816000865af19150503d8060008114611473576040519150601f19603f3d011682016040523d82523d6000602084013e611478565b606091505b5090925090505b6040518060c001604052808760800151815260200184815260200186815260200185815260200183151581526020018281525096505050505050506108af6001600255565b60006114e560065473ffffffffffffffffffffffffffffffffffffffff1690565b73ffffffffffffffffffffffffffffffffffffffff1663570e1a3684846040518363ffffffff1660e01b815260040161151f929190614a86565b6020604051808303816000875af115801561153e573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906115629190614a9a565b6040517f6ca7b80600000000000000000000000000000000000000000000000000000000815273ffffffffffffffffffffffffffffffffffffffff82166004820152909150602401610757565b336000908152602081905260408120600181015490916f0100000000000000000000000000000090910463ffffffff169003611647576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152600a60248201527f6e6f74207374616b6564000000000000000000000000000000000000000000006044820152606401610757565b600181015460ff166116b5576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601160248201527f616c726561647920756e7374616b696e670000000000000000000000000000006044820152606401610757565b60018101546000906116e0906f01000000000000000000000000000000900463ffffffff1642614ab7565b6001830180547fffffffffffffff000000000000ffffffffffffffffffffffffffffffffffff001673010000000000000000000000000000000000000065ffffffffffff84169081027fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff00169190911790915560405190815290915033907ffa9b3c14cc825c412c9ed81b3ba365a5b459439403f18829e572ed53a4180f0a906020015b60405180910390a25050565b336000908152602081905260409020600181015461010090046dffffffffffffffffffffffffffff168061181f576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601460248201527f4e6f207374616b6520746f2077697468647261770000000000000000000000006044820152606401610757565b6001820154730100000000000000000000000000000000000000900465ffffffffffff166118a9576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601d60248201527f6d7573742063616c6c20756e6c6f636b5374616b6528292066697273740000006044820152606401610757565b60018201544273010000000000000000000000000000000000000090910465ffffffffffff161115611937576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601b60248201527f5374616b65207769746864726177616c206973206e6f742064756500000000006044820152606401610757565b6001820180547fffffffffffffff000000000000000000000000000000000000000000000000ff1690556040805173ffffffffffffffffffffffffffffffffffffffff851681526020810183905233917fb7c918e0e249f999e965cafeb6c664271b3f4317d296461500e71da39f0cbda3910160405180910390a260008373ffffffffffffffffffffffffffffffffffffffff168260405160006040518083038185875af1925050503d8060008114611a0c576040519150601f19603f3d011682016040523d82523d6000602084013e611a11565b606091505b5050905080610fb6576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601860248201527f6661696c656420746f207769746864726177207374616b6500000000000000006044820152606401610757565b611a84613f03565b611a8c613e51565b611a9583612f19565b600080611aa460008685612548565b845160e001516040805180820182526000808252602080830182815273ffffffffffffffffffffffffffffffffffffffff95861683528282528483206001908101546dffffffffffffffffffffffffffff6101008083048216885263ffffffff6f010000000000000000000000000000009384900481169095528e51518951808b018b5288815280880189815291909b168852878752898820909401549081049091168952049091169052835180850190945281845283015293955091935090366000611b7460408b018b614add565b909250905060006014821015611b8b576000611ba6565b611b996014600084866149cb565b611ba2916149f5565b60601c5b6040805180820182526000808252602080830182815273ffffffffffffffffffffffffffffffffffffffff86168352908290529290206001015461010081046dffffffffffffffffffffffffffff1682526f01000000000000000000000000000000900463ffffffff169091529091509350505050600085905060006040518060a001604052808960800151815260200189604001518152602001888152602001878152602001611c588a6060015190565b905260408051808201825260035473ffffffffffffffffffffffffffffffffffffffff908116825282518084019093526004548352600554602084810191909152820192909252919250831615801590611cc9575060018373ffffffffffffffffffffffffffffffffffffffff1614155b15611d4d5760408051808201825273ffffffffffffffffffffffffffffffffffffffff851680825282518084018452600080825260208083018281529382528181529490206001015461010081046dffffffffffffffffffffffffffff1682526f01000000000000000000000000000000900463ffffffff16909152909182015290505b6040805160a081018252928352602083019590955293810192909252506060810192909252608082015295945050505050565b611d88612507565b816000805b82811015611f7a5736868683818110611da857611da8614933565b9050602002810190611dba9190614b42565b9050366000611dc98380614b76565b90925090506000611de0604085016020860161448a565b90507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff73ffffffffffffffffffffffffffffffffffffffff821601611e81576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601760248201527f4141393620696e76616c69642061676772656761746f720000000000000000006044820152606401610757565b73ffffffffffffffffffffffffffffffffffffffff811615611f5e5773ffffffffffffffffffffffffffffffffffffffff8116632dd811338484611ec86040890189614add565b6040518563ffffffff1660e01b8152600401611ee79493929190614d2e565b60006040518083038186803b158015611eff57600080fd5b505afa925050508015611f10575060015b611f5e576040517f86a9f75000000000000000000000000000000000000000000000000000000000815273ffffffffffffffffffffffffffffffffffffffff82166004820152602401610757565b611f6882876148d5565b95505060019093019250611d8d915050565b5060008167ffffffffffffffff811115611f9657611f96613ffd565b604051908082528060200260200182016040528015611fcf57816020015b611fbc613e51565b815260200190600190039081611fb45790505b5090506000805b848110156120ac5736888883818110611ff157611ff1614933565b90506020028101906120039190614b42565b90503660006120128380614b76565b90925090506000612029604085016020860161448a565b90508160005b8181101561209a57600089898151811061204b5761204b614933565b6020026020010151905060008061206e8b8989878181106110a0576110a0614933565b9150915061207e848383896127a7565b8a612088816148e8565b9b50506001909301925061202f915050565b505060019094019350611fd692505050565b506040517fbb47ee3e183a558b1a2ff0874b079f3fc5478b7454eacf2bfc5af2ff5878f97290600090a150600080805b858110156121e757368989838181106120f7576120f7614933565b90506020028101906121099190614b42565b905061211b604082016020830161448a565b73ffffffffffffffffffffffffffffffffffffffff167f575ff3acadd5ab348fe1855e217e0f3678f8d767d7494c9f9fefbee2e17cca4d60405160405180910390a236600061216a8380614b76565b90925090508060005b818110156121d6576121b58885858481811061219157612191614933565b90506020028101906121a39190614962565b8b8b8151811061114557611145614933565b6121bf90886148d5565b9650876121cb816148e8565b985050600101612173565b5050600190930192506120dc915050565b506040516000907f575ff3acadd5ab348fe1855e217e0f3678f8d767d7494c9f9fefbee2e17cca4d908290a261221d8682612dd2565b50505050506111766001600255565b60006122388234613107565b90508173ffffffffffffffffffffffffffffffffffffffff167f2da466a7b24304f47e87fa2e1e5a81b9831ce54fec19055ce277ca2f39ba42c48260405161178391815260200190565b6000806000845160208601878987f195945050505050565b60603d828111156122a85750815b604051602082018101604052818152816000602083013e9392505050565b6000805a8551909150600090816122dc82613147565b60e083015190915073ffffffffffffffffffffffffffffffffffffffff81166123085782519350612403565b80935060008851111561240357868202955060028a600281111561232e5761232e614de5565b146124035760a08301516040517f7c627b2100000000000000000000000000000000000000000000000000000000815273ffffffffffffffffffffffffffffffffffffffff831691637c627b2191612390908e908d908c908990600401614e14565b600060405180830381600088803b1580156123aa57600080fd5b5087f1935050505080156123bc575060015b6124035760006123cd61080061229a565b9050806040517fad7954bc0000000000000000000000000000000000000000000000000000000081526004016107579190614e77565b5a60a0840151606085015160808c015192880399909901980190880380821115612436576064600a828403020498909801975b505060408901518783029650868110156124ab5760028b600281111561245e5761245e614de5565b036124815780965061246f8a613171565b61247c8a6000898b6131cd565b6124e0565b7fdeadaa510000000000000000000000000000000000000000000000000000000060005260206000fd5b8681036124b88682613107565b506000808d60028111156124ce576124ce614de5565b1490506124dd8c828b8d6131cd565b50505b505050505050949350505050565b60006124f982613255565b805190602001209050919050565b6002805403612542576040517f3ee5aeb500000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b60028055565b60008060005a845190915061255d868261331a565b61256686610fbc565b6020860152604081015161012082015161010083015160a08401516080850151606086015160c0870151861717171717176effffffffffffffffffffffffffffff811115612610576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601860248201527f41413934206761732076616c756573206f766572666c6f7700000000000000006044820152606401610757565b600061263f8460c081015160a08201516080830151606084015160408501516101009095015194010101010290565b905061264e8a8a8a8487613465565b9650612662846000015185602001516136a6565b6126d157896040517f220266b6000000000000000000000000000000000000000000000000000000008152600401610757918152604060208201819052601a908201527f4141323520696e76616c6964206163636f756e74206e6f6e6365000000000000606082015260800190565b825a8603111561274657896040517f220266b6000000000000000000000000000000000000000000000000000000008152600401610757918152604060208201819052601e908201527f41413236206f76657220766572696669636174696f6e4761734c696d69740000606082015260800190565b60e084015160609073ffffffffffffffffffffffffffffffffffffffff161561277a576127758b8b8b85613701565b975090505b604089018290528060608a015260a08a01355a870301896080018181525050505050505050935093915050565b6000806127b385613958565b915091508173ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff161461285557856040517f220266b60000000000000000000000000000000000000000000000000000000081526004016107579181526040602082018190526014908201527f41413234207369676e6174757265206572726f72000000000000000000000000606082015260800190565b80156128c657856040517f220266b60000000000000000000000000000000000000000000000000000000081526004016107579181526040602082018190526017908201527f414132322065787069726564206f72206e6f7420647565000000000000000000606082015260800190565b60006128d185613958565b9250905073ffffffffffffffffffffffffffffffffffffffff81161561295c57866040517f220266b60000000000000000000000000000000000000000000000000000000081526004016107579181526040602082018190526014908201527f41413334207369676e6174757265206572726f72000000000000000000000000606082015260800190565b81156129f357866040517f220266b60000000000000000000000000000000000000000000000000000000081526004016107579181526040602082018190526021908201527f41413332207061796d61737465722065787069726564206f72206e6f7420647560608201527f6500000000000000000000000000000000000000000000000000000000000000608082015260a00190565b50505050505050565b6000805a90506000612a0f846060015190565b6040519091506000903682612a2760608a018a614add565b9150915060606000826003811115612a3e57843591505b507f72288ed1000000000000000000000000000000000000000000000000000000007fffffffff00000000000000000000000000000000000000000000000000000000821601612b7e5760008b8b60200151604051602401612aa1929190614e8a565b604080517fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe08184030181529181526020820180517bffffffffffffffffffffffffffffffffffffffffffffffffffffffff167f8dd7712f000000000000000000000000000000000000000000000000000000001790525190915030906242dc5390612b349084908f908d90602401614f70565b604051602081830303815290604052915060e01b6020820180517bffffffffffffffffffffffffffffffffffffffffffffffffffffffff8381831617835250505050925050612bf5565b3073ffffffffffffffffffffffffffffffffffffffff166242dc5385858d8b604051602401612bb09493929190614fb0565b604051602081830303815290604052915060e01b6020820180517bffffffffffffffffffffffffffffffffffffffffffffffffffffffff838183161783525050505091505b602060008351602085016000305af19550600051985084604052505050505080612dc85760003d80602003612c305760206000803e60005191505b507fdeaddead000000000000000000000000000000000000000000000000000000008103612cc357876040517f220266b6000000000000000000000000000000000000000000000000000000008152600401610757918152604060208201819052600f908201527f41413935206f7574206f66206761730000000000000000000000000000000000606082015260800190565b7fdeadaa51000000000000000000000000000000000000000000000000000000008103612d2d57600086608001515a612cfc9087614920565b612d0691906148d5565b6040880151909150612d1788613171565b612d2488600083856131cd565b9550612dc69050565b8551805160208089015192015173ffffffffffffffffffffffffffffffffffffffff90911691907ff62676f440ff169a3a9afdbf812e89e7f95975ee8e5c31214ffdef631c5f479290612d8161080061229a565b604051612d8f92919061488d565b60405180910390a3600086608001515a612da99087614920565b612db391906148d5565b9050612dc260028886846122c6565b9550505b505b5050509392505050565b73ffffffffffffffffffffffffffffffffffffffff8216612e4f576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601860248201527f4141393020696e76616c69642062656e656669636961727900000000000000006044820152606401610757565b60008273ffffffffffffffffffffffffffffffffffffffff168260405160006040518083038185875af1925050503d8060008114612ea9576040519150601f19603f3d011682016040523d82523d6000602084013e612eae565b606091505b5050905080611176576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601f60248201527f41413931206661696c65642073656e6420746f2062656e6566696369617279006044820152606401610757565b6130196040517fd69400000000000000000000000000000000000000000000000000000000000060208201527fffffffffffffffffffffffffffffffffffffffff0000000000000000000000003060601b1660228201527f01000000000000000000000000000000000000000000000000000000000000006036820152600090603701604080518083037fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe00181529190528051602090910120600680547fffffffffffffffffffffffff00000000000000000000000000000000000000001673ffffffffffffffffffffffffffffffffffffffff90921691909117905550565b3063957122ab61302c6040840184614add565b613039602086018661448a565b61304660e0870187614add565b6040518663ffffffff1660e01b8152600401613066959493929190614fe7565b60006040518083038186803b15801561307e57600080fd5b505afa92505050801561308f575060015b6131045761309b615036565b806308c379a0036130f857506130af615052565b806130ba57506130fa565b8051156106e8576000816040517f220266b600000000000000000000000000000000000000000000000000000000815260040161075792919061488d565b505b3d6000803e3d6000fd5b50565b73ffffffffffffffffffffffffffffffffffffffff821660009081526020819052604081208054829061313b9085906148d5565b91829055509392505050565b61010081015161012082015160009190808203613165575092915050565b6108af824883016139ab565b805180516020808401519281015160405190815273ffffffffffffffffffffffffffffffffffffffff90921692917f67b4fa9642f42120bf031f3051d1824b0fe25627945b27b8a6a65d5761d5482e910160405180910390a350565b835160e0810151815160208088015193015160405173ffffffffffffffffffffffffffffffffffffffff9384169492909316927f49628fd1471006c1482da88028e9ce4dbb080b815c9b0344d39e5a8e6ec1419f916132479189908990899093845291151560208401526040830152606082015260800190565b60405180910390a450505050565b60608135602083013560006132756132706040870187614add565b6139c3565b905060006132896132706060880188614add565b9050608086013560a087013560c088013560006132ac61327060e08c018c614add565b6040805173ffffffffffffffffffffffffffffffffffffffff9a909a1660208b015289810198909852606089019690965250608087019390935260a086019190915260c085015260e08401526101008084019190915281518084039091018152610120909201905292915050565b613327602083018361448a565b73ffffffffffffffffffffffffffffffffffffffff168152602082810135908201526fffffffffffffffffffffffffffffffff6080808401358281166060850152811c604084015260a084013560c0808501919091528401359182166101008401521c6101208201523660006133a060e0850185614add565b9092509050801561344a576034811015613416576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601d60248201527f4141393320696e76616c6964207061796d6173746572416e64446174610000006044820152606401610757565b61342082826139d6565b60a0860152608085015273ffffffffffffffffffffffffffffffffffffffff1660e0840152610fb6565b600060e084018190526080840181905260a084015250505050565b8251805160009190613484888761347f60408b018b614add565b613a47565b60e0820151600073ffffffffffffffffffffffffffffffffffffffff82166134e25773ffffffffffffffffffffffffffffffffffffffff83166000908152602081905260409020548781116134db578088036134de565b60005b9150505b60208801516040517f19822f7c00000000000000000000000000000000000000000000000000000000815273ffffffffffffffffffffffffffffffffffffffff8516916319822f7c91899161353e918e919087906004016150fa565b60206040518083038160008887f193505050508015613598575060408051601f3d9081017fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe01682019092526135959181019061511f565b60015b6135dc57896135a861080061229a565b6040517f65c8fd4d000000000000000000000000000000000000000000000000000000008152600401610757929190615138565b945073ffffffffffffffffffffffffffffffffffffffff82166136995773ffffffffffffffffffffffffffffffffffffffff83166000908152602081905260409020805480891115613693578b6040517f220266b60000000000000000000000000000000000000000000000000000000081526004016107579181526040602082018190526017908201527f41413231206469646e2774207061792070726566756e64000000000000000000606082015260800190565b88900390555b5050505095945050505050565b73ffffffffffffffffffffffffffffffffffffffff8216600090815260016020908152604080832084821c808552925282208054849167ffffffffffffffff83169190856136f3836148e8565b909155501495945050505050565b60606000805a855160e081015173ffffffffffffffffffffffffffffffffffffffff8116600090815260208190526040902080549394509192909190878110156137b0578a6040517f220266b6000000000000000000000000000000000000000000000000000000008152600401610757918152604060208201819052601e908201527f41413331207061796d6173746572206465706f73697420746f6f206c6f770000606082015260800190565b87810382600001819055506000846080015190508373ffffffffffffffffffffffffffffffffffffffff166352b7512c828d8d602001518d6040518563ffffffff1660e01b8152600401613806939291906150fa565b60006040518083038160008887f19350505050801561386557506040513d6000823e601f3d9081017fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe01682016040526138629190810190615185565b60015b6138a9578b61387561080061229a565b6040517f65c8fd4d000000000000000000000000000000000000000000000000000000008152600401610757929190615211565b9098509650805a87031115613949578b6040517f220266b60000000000000000000000000000000000000000000000000000000081526004016107579181526040602082018190526027908201527f41413336206f766572207061796d6173746572566572696669636174696f6e4760608201527f61734c696d697400000000000000000000000000000000000000000000000000608082015260a00190565b50505050505094509492505050565b6000808260000361396e57506000928392509050565b600061397984613dd3565b9050806040015165ffffffffffff164211806139a05750806020015165ffffffffffff1642105b905194909350915050565b60008183106139ba57816139bc565b825b9392505050565b6000604051828085833790209392505050565b600080806139e760148286886149cb565b6139f0916149f5565b60601c613a016024601487896149cb565b613a0a9161525e565b60801c613a1b60346024888a6149cb565b613a249161525e565b9194506fffffffffffffffffffffffffffffffff16925060801c90509250925092565b8015610fb65782515173ffffffffffffffffffffffffffffffffffffffff81163b15613ad857846040517f220266b6000000000000000000000000000000000000000000000000000000008152600401610757918152604060208201819052601f908201527f414131302073656e64657220616c726561647920636f6e737472756374656400606082015260800190565b6000613af960065473ffffffffffffffffffffffffffffffffffffffff1690565b73ffffffffffffffffffffffffffffffffffffffff1663570e1a3686600001516040015186866040518463ffffffff1660e01b8152600401613b3c929190614a86565b60206040518083038160008887f1158015613b5b573d6000803e3d6000fd5b50505050506040513d601f19601f82011682018060405250810190613b809190614a9a565b905073ffffffffffffffffffffffffffffffffffffffff8116613c0857856040517f220266b6000000000000000000000000000000000000000000000000000000008152600401610757918152604060208201819052601b908201527f4141313320696e6974436f6465206661696c6564206f72204f4f470000000000606082015260800190565b8173ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1614613ca557856040517f220266b600000000000000000000000000000000000000000000000000000000815260040161075791815260406020808301829052908201527f4141313420696e6974436f6465206d7573742072657475726e2073656e646572606082015260800190565b8073ffffffffffffffffffffffffffffffffffffffff163b600003613d2e57856040517f220266b600000000000000000000000000000000000000000000000000000000815260040161075791815260406020808301829052908201527f4141313520696e6974436f6465206d757374206372656174652073656e646572606082015260800190565b6000613d3d60148286886149cb565b613d46916149f5565b60601c90508273ffffffffffffffffffffffffffffffffffffffff1686602001517fd51a9c61267aa6196961883ecf5ff2da6619c37dac0fa92122513fb32c032d2d83896000015160e00151604051613dc292919073ffffffffffffffffffffffffffffffffffffffff92831681529116602082015260400190565b60405180910390a350505050505050565b60408051606081018252600080825260208201819052918101919091528160a081901c65ffffffffffff8116600003613e0f575065ffffffffffff5b6040805160608101825273ffffffffffffffffffffffffffffffffffffffff909316835260d09490941c602083015265ffffffffffff16928101929092525090565b6040518060a00160405280613ede604051806101400160405280600073ffffffffffffffffffffffffffffffffffffffff168152602001600081526020016000815260200160008152602001600081526020016000815260200160008152602001600073ffffffffffffffffffffffffffffffffffffffff16815260200160008152602001600081525090565b8152602001600080191681526020016000815260200160008152602001600081525090565b6040518060a00160405280613f406040518060a0016040528060008152602001600081526020016000815260200160008152602001606081525090565b8152602001613f62604051806040016040528060008152602001600081525090565b8152602001613f84604051806040016040528060008152602001600081525090565b8152602001613fa6604051806040016040528060008152602001600081525090565b8152602001613fb3613fb8565b905290565b6040518060400160405280600073ffffffffffffffffffffffffffffffffffffffff168152602001613fb3604051806040016040528060008152602001600081525090565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b60a0810181811067ffffffffffffffff8211171561404c5761404c613ffd565b60405250565b7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe0601f830116810181811067ffffffffffffffff8211171561409657614096613ffd565b6040525050565b604051610140810167ffffffffffffffff811182821017156140c1576140c1613ffd565b60405290565b600067ffffffffffffffff8211156140e1576140e1613ffd565b50601f017fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe01660200190565b73ffffffffffffffffffffffffffffffffffffffff8116811461310457600080fd5b803561413a8161410d565b919050565b60008183036101c081121561415357600080fd5b60405161415f8161402c565b8092506101408083121561417257600080fd5b61417a61409d565b92506141858561412f565b83526020850135602084015260408501356040840152606085013560608401526080850135608084015260a085013560a084015260c085013560c08401526141cf60e0860161412f565b60e084015261010085810135908401526101208086013590840152918152908301356020820152610160830135604082015261018083013560608201526101a090920135608090920191909152919050565b60008083601f84011261423357600080fd5b50813567ffffffffffffffff81111561424b57600080fd5b60208301915083602082850101111561426357600080fd5b9250929050565b600080600080610200858703121561428157600080fd5b843567ffffffffffffffff8082111561429957600080fd5b818701915087601f8301126142ad57600080fd5b81356142b8816140c7565b6040516142c58282614052565b8281528a60208487010111156142da57600080fd5b82602086016020830137600060208483010152809850505050614300886020890161413f565b94506101e087013591508082111561431757600080fd5b5061432487828801614221565b95989497509550505050565b60006020828403121561434257600080fd5b81357fffffffff00000000000000000000000000000000000000000000000000000000811681146139bc57600080fd5b60006020828403121561438457600080fd5b813563ffffffff811681146139bc57600080fd5b803577ffffffffffffffffffffffffffffffffffffffffffffffff8116811461413a57600080fd5b6000602082840312156143d257600080fd5b6139bc82614398565b600080604083850312156143ee57600080fd5b82356143f98161410d565b915061440760208401614398565b90509250929050565b6000806040838503121561442357600080fd5b823561442e8161410d565b946020939093013593505050565b6000610120828403121561444f57600080fd5b50919050565b60006020828403121561446757600080fd5b813567ffffffffffffffff81111561447e57600080fd5b6108af8482850161443c565b60006020828403121561449c57600080fd5b81356139bc8161410d565b60008083601f8401126144b957600080fd5b50813567ffffffffffffffff8111156144d157600080fd5b6020830191508360208260051b850101111561426357600080fd5b60008060006040848603121561450157600080fd5b833567ffffffffffffffff81111561451857600080fd5b614524868287016144a7565b90945092505060208401356145388161410d565b809150509250925092565b60008060006040848603121561455857600080fd5b83356145638161410d565b9250602084013567ffffffffffffffff81111561457f57600080fd5b61458b86828701614221565b9497909650939450505050565b6000806000806000606086880312156145b057600080fd5b853567ffffffffffffffff808211156145c857600080fd5b6145d489838a01614221565b9097509550602088013591506145e98261410d565b909350604087013590808211156145ff57600080fd5b5061460c88828901614221565b969995985093965092949392505050565b6000806000806060858703121561463357600080fd5b843567ffffffffffffffff8082111561464b57600080fd5b6146578883890161443c565b9550602087013591506146698261410d565b9093506040860135908082111561431757600080fd5b60005b8381101561469a578181015183820152602001614682565b50506000910152565b600081518084526146bb81602086016020860161467f565b601f017fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe0169290920160200192915050565b60208152815160208201526020820151604082015260408201516060820152606082015160808201526080820151151560a0820152600060a083015160c0808401526108af60e08401826146a3565b6000806020838503121561474f57600080fd5b823567ffffffffffffffff81111561476657600080fd5b61477285828601614221565b90969095509350505050565b602080825282516101408383015280516101608401529081015161018083015260408101516101a083015260608101516101c08301526080015160a06101e08301526000906147d16102008401826146a3565b905060208401516147ef604085018280518252602090810151910152565b506040840151805160808581019190915260209182015160a08601526060860151805160c087015282015160e0860152850151805173ffffffffffffffffffffffffffffffffffffffff1661010086015280820151805161012087015290910151610140850152509392505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601260045260246000fd5b8281526040602082015260006108af60408301846146a3565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b80820180821115610a2e57610a2e6148a6565b60007fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8203614919576149196148a6565b5060010190565b81810381811115610a2e57610a2e6148a6565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b600082357ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffee183360301811261499657600080fd5b9190910192915050565b8183823760009101908152919050565b82151581526040602082015260006108af60408301846146a3565b600080858511156149db57600080fd5b838611156149e857600080fd5b5050820193919092039150565b7fffffffffffffffffffffffffffffffffffffffff0000000000000000000000008135818116916014851015614a355780818660140360031b1b83161692505b505092915050565b8183528181602085013750600060208284010152600060207fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe0601f840116840101905092915050565b6020815260006108af602083018486614a3d565b600060208284031215614aac57600080fd5b81516139bc8161410d565b65ffffffffffff818116838216019080821115614ad657614ad66148a6565b5092915050565b60008083357fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe1843603018112614b1257600080fd5b83018035915067ffffffffffffffff821115614b2d57600080fd5b60200191503681900382131561426357600080fd5b600082357fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffa183360301811261499657600080fd5b60008083357fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe1843603018112614bab57600080fd5b83018035915067ffffffffffffffff821115614bc657600080fd5b6020019150600581901b360382131561426357600080fd5b60008083357fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe1843603018112614c1357600080fd5b830160208101925035905067ffffffffffffffff811115614c3357600080fd5b80360382131561426357600080fd5b6000610120614c6e84614c548561412f565b73ffffffffffffffffffffffffffffffffffffffff169052565b60208301356020850152614c856040840184614bde565b826040870152614c988387018284614a3d565b92505050614ca96060840184614bde565b8583036060870152614cbc838284614a3d565b925050506080830135608085015260a083013560a085015260c083013560c0850152614ceb60e0840184614bde565b85830360e0870152614cfe838284614a3d565b92505050610100614d1181850185614bde565b86840383880152614d23848284614a3d565b979650505050505050565b6040808252810184905260006060600586901b830181019083018783805b89811015614dce577fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffa087860301845282357ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffee18c3603018112614dac578283fd5b614db8868d8301614c42565b9550506020938401939290920191600101614d4c565b505050508281036020840152614d23818587614a3d565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b600060038610614e4d577f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b85825260806020830152614e6460808301866146a3565b6040830194909452506060015292915050565b6020815260006139bc60208301846146a3565b604081526000614e9d6040830185614c42565b90508260208301529392505050565b8051805173ffffffffffffffffffffffffffffffffffffffff1683526020810151602084015260408101516040840152606081015160608401526080810151608084015260a081015160a084015260c081015160c084015260e0810151614f2b60e085018273ffffffffffffffffffffffffffffffffffffffff169052565b5061010081810151908401526101209081015190830152602081015161014083015260408101516101608301526060810151610180830152608001516101a090910152565b6000610200808352614f84818401876146a3565b9050614f936020840186614eac565b8281036101e0840152614fa681856146a3565b9695505050505050565b6000610200808352614fc58184018789614a3d565b9050614fd46020840186614eac565b8281036101e0840152614d2381856146a3565b606081526000614ffb606083018789614a3d565b73ffffffffffffffffffffffffffffffffffffffff86166020840152828103604084015261502a818587614a3d565b98975050505050505050565b600060033d111561504f5760046000803e5060005160e01c5b90565b600060443d10156150605790565b6040517ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc803d016004833e81513d67ffffffffffffffff81602484011181841117156150ae57505050505090565b82850191508151818111156150c65750505050505090565b843d87010160208285010111156150e05750505050505090565b6150ef60208286010187614052565b509095945050505050565b60608152600061510d6060830186614c42565b60208301949094525060400152919050565b60006020828403121561513157600080fd5b5051919050565b82815260606020820152600d60608201527f4141323320726576657274656400000000000000000000000000000000000000608082015260a0604082015260006108af60a08301846146a3565b6000806040838503121561519857600080fd5b825167ffffffffffffffff8111156151af57600080fd5b8301601f810185136151c057600080fd5b80516151cb816140c7565b6040516151d88282614052565b8281528760208486010111156151ed57600080fd5b6151fe83602083016020870161467f565b6020969096015195979596505050505050565b82815260606020820152600d60608201527f4141333320726576657274656400000000000000000000000000000000000000608082015260a0604082015260006108af60a08301846146a3565b7fffffffffffffffffffffffffffffffff000000000000000000000000000000008135818116916010851015614a355760109490940360031b84901b169092169291505056fea2646970667358221220da6235a9fed490e0598819f695bb128f935391fa9c8ba963180dfb5cab452aef64736f6c63430008170033";
+
+// Runtime code of EntryPointSimulations, from @account-abstraction/contracts 0.8.0
+export const ENTRYPOINT_SIMULATIONS_V08_CODE: Hex =
+  "0x60806040526004361015610023575b3615610018575f80fd5b61002133613239565b005b5f5f3560e01c806242dc531461253e57806301ffc9a7146124d85780630396cb60146121a457806309ccb880146121525780630bd28e3b146120bf57806313c65a6e14612083578063154e58dc1461202a5780631b2e01b814611f995780631f5ae7bb14611dea578063205c287814611c5657806322cdde4c14611c3557806335567e1a14611b7f5780635287ce1214611a7957806370a0823114611a17578063765e827f1461197a57806384b0196e14611844578063850aaf621461178357806397b2dcb9146110075780639b249f6914610ec7578063b760faf914610e89578063bb9fe6bf14610caf578063c23a5cea14610a2c578063c3bce009146107255763dbed18e014610135575061000e565b346107225761014336612d94565b9061014f9392936138c4565b8291835b82811061050457509091610166906130e2565b9183805b8282106102795750507fbb47ee3e183a558b1a2ff0874b079f3fc5478b7454eacf2bfc5af2ff5878f9728480a183928491855b8181106101d557866101af8787613c7d565b807f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f005d80f35b61022f6101e382848b613354565b73ffffffffffffffffffffffffffffffffffffffff610204602083016133e8565b167f575ff3acadd5ab348fe1855e217e0f3678f8d767d7494c9f9fefbee2e17cca4d8a80a280613394565b9088915b8083106102455750505060010161019d565b909195976001809161026d61025b8a868861314e565b6102658d8b6131bb565b51908d6139b7565b01990196019190610233565b60209061028783858a613354565b73ffffffffffffffffffffffffffffffffffffffff6102b26102a98380613394565b959093016133e8565b16885b8481106102cc57505050906001910191019061016a565b83810161030d73ffffffffffffffffffffffffffffffffffffffff6103066102f4848e6131bb565b51610300868b8a61314e565b85614a63565b9290615752565b9116850361049f5761043a5761033773ffffffffffffffffffffffffffffffffffffffff91615752565b91166103d55761034a57506001016102b5565b60a490604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152602160448201527f41413332207061796d61737465722065787069726564206f72206e6f7420647560648201527f65000000000000000000000000000000000000000000000000000000000000006084820152fd5b608482604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152601460448201527f41413334207369676e6174757265206572726f720000000000000000000000006064820152fd5b608482604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152601760448201527f414132322065787069726564206f72206e6f74206475650000000000000000006064820152fd5b608483604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152601460448201527f41413234207369676e6174757265206572726f720000000000000000000000006064820152fd5b61050f818488613354565b9361051a8580613394565b919073ffffffffffffffffffffffffffffffffffffffff61053d602089016133e8565b1696600188146106f6578761055a575b5050019350600101610153565b806040610568920190613303565b889291923b156106f2579189916040519384927f2dd8113300000000000000000000000000000000000000000000000000000000845287604485016040600487015252606484019260648960051b860101938187907ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffee181360301905b8c831061068d5750505050508383037ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc0160248501528493928392610628926131fb565b0381838c5af19182610674575b505061066757602487877f86a9f750000000000000000000000000000000000000000000000000000000008252600452fd5b939450849360015f61054d565b8161067e91612bd8565b61068957875f610635565b8780fd5b9295977fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff9c9194995087929597030185528735838112156106ed5760206106d860019385839401613459565b9901950193018f9795939192899795936105e4565b508f80fd5b8980fd5b602489897f86a9f750000000000000000000000000000000000000000000000000000000008252600452fd5b80fd5b50346107225761073436612d24565b60405161074081612b1e565b60405161074c81612b1e565b83815283602082015283604082015283606082015260606080820152815260405161077681612ba0565b5f81525f6020820152602082015260405161079081612ba0565b5f81525f602082015260408201526040516107aa81612ba0565b5f81525f6020820152606082015260806107c26132d8565b9101526107cd613073565b6107d682613e1d565b6107e08183614112565b9061080573ffffffffffffffffffffffffffffffffffffffff60e085510151166152e4565b9061083e61082a73ffffffffffffffffffffffffffffffffffffffff865151166152e4565b956108336132c0565b506040810190613303565b60148110610a1257601411610a0e57926020959491928694938861088173ffffffffffffffffffffffffffffffffffffffff88976101409c503560601c166152e4565b9473ffffffffffffffffffffffffffffffffffffffff8316946080820151936060604084015193015192604051956108b887612b1e565b865289860152604085015260608401526080830152506108d66132d8565b9280151580610a03575b6109ce575b508492938361096b60808294604051906108fe82612b1e565b81528381019b8c5260408101948552606081019687528181019889526040519d848f9e928f938452519201528c61016082519101528c610180858301519101528c6101a060408301519101528c6101c06060830151910152015160a06101e08d01526102008c0190612e27565b9851805160408c0152015160608a015251805160808a0152015160a088015251805160c0880152015160e08601525173ffffffffffffffffffffffffffffffffffffffff8151166101008601520151805161012085015201516101408301520390f35b8580945061096b6080836109e4849699956152e4565b604051916109f183612ba0565b825284820152965050505093906108e5565b5060018114156108e0565b8680fd5b50509260209493928593928493886108816101409a6152e4565b50346107225760207ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc36011261072257610a64612cac565b33825281602052600160408320018054906dffffffffffffffffffffffffffff8260081c16918215610c515760981c65ffffffffffff168015610bf3574210610b955780547fffffffffffffff000000000000000000000000000000000000000000000000ff1690556040805173ffffffffffffffffffffffffffffffffffffffff84811682526020820184905285948594859485949193929133917fb7c918e0e249f999e965cafeb6c664271b3f4317d296461500e71da39f0cbda391a2165af1610b2e612ef8565b5015610b375780f35b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601860248201527f6661696c656420746f207769746864726177207374616b6500000000000000006044820152fd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601b60248201527f5374616b65207769746864726177616c206973206e6f742064756500000000006044820152fd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601d60248201527f6d7573742063616c6c20756e6c6f636b5374616b6528292066697273740000006044820152fd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601460248201527f4e6f207374616b6520746f2077697468647261770000000000000000000000006044820152fd5b503461072257807ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc360112610722573381528060205260016040822001805463ffffffff8160781c16908115610e2b5760ff1615610dcd5765ffffffffffff4216019065ffffffffffff8211610da05780547fffffffffffffff000000000000ffffffffffffffffffffffffffffffffffff001678ffffffffffff00000000000000000000000000000000000000609884901b1617905560405165ffffffffffff909116815233907ffa9b3c14cc825c412c9ed81b3ba365a5b459439403f18829e572ed53a4180f0a90602090a280f35b6024837f4e487b710000000000000000000000000000000000000000000000000000000081526011600452fd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601160248201527f616c726561647920756e7374616b696e670000000000000000000000000000006044820152fd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152600a60248201527f6e6f74207374616b6564000000000000000000000000000000000000000000006044820152fd5b5060207ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc36011261072257610ec4610ebf612cac565b613239565b80f35b50346107225760207ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc3601126107225760043567ffffffffffffffff8111611003576020610f1c610f73923690600401612ccf565b73ffffffffffffffffffffffffffffffffffffffff6004541690856040518096819582947f570e1a3600000000000000000000000000000000000000000000000000000000845288600485015260248401916131fb565b03925af1908115610ff857829173ffffffffffffffffffffffffffffffffffffffff9160249491610fc9575b507f6ca7b80600000000000000000000000000000000000000000000000000000000835216600452fd5b610feb915060203d602011610ff1575b610fe38183612bd8565b8101906131cf565b5f610f9f565b503d610fd9565b6040513d84823e3d90fd5b5080fd5b50346107225760607ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc3601126107225760043567ffffffffffffffff81116110035780600401916101207ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc833603011261072257611083612c89565b916044359367ffffffffffffffff851161177f576110a8606494953690600401612ccf565b919092606060a06040516110bb81612b84565b878152876020820152876040820152878382015287608082015201526110df6138c4565b6110e7613073565b6110f083613e1d565b6110fa8184614112565b9390925a91886060850151926111166040519c8d920184613303565b8360038211611777575b7fffffffff00000000000000000000000000000000000000000000000000000000167f8dd7712f00000000000000000000000000000000000000000000000000000000036116065750505061122c61134c6111ba6111ec602095868a01516040519384927f8dd7712f000000000000000000000000000000000000000000000000000000008a850152604060248501526064840190613459565b906044830152037fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe08101835282612bd8565b6113206040519384927e42dc5300000000000000000000000000000000000000000000000000000000888501526102006024850152610224840190612e27565b6112ef604484018b60806101a091610120815173ffffffffffffffffffffffffffffffffffffffff8151168652602081015160208701526040810151604087015260608101516060870152838101518487015260a081015160a087015260c081015160c087015273ffffffffffffffffffffffffffffffffffffffff60e08201511660e087015261010081015161010087015201516101208501526020810151610140850152604081015161016085015260608101516101808501520151910152565b7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffdc8382030161020484015287612e27565b037fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe08101835282612bd8565b828151910182305af188519960405215611461575b5050858097986114279750819560609773ffffffffffffffffffffffffffffffffffffffff831661142b575b505050506080015195604051966113a388612b84565b875260208701978852604087019182526060870192835260808701931515845260a087019485527f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f005d6040519687966020885251602088015251604087015251606086015251608085015251151560a08401525160c08084015260e0830190612e27565b0390f35b839598508394975081604094929394519384928337810182815203925af1926080611454612ef8565b94939050865f808061138d565b90989697508760203d146115f9575b7fdeaddead0000000000000000000000000000000000000000000000000000000081036114fc57608489604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152600f60448201527f41413935206f7574206f662067617300000000000000000000000000000000006064820152fd5b9888917fdeadaa5100000000000000000000000000000000000000000000000000000000611427999b145f14611569575061153b611546915a90612eeb565b608084015190612e84565b61155f60408401519161155885615467565b8285615365565b985b989796611361565b6115ec6115e16115f39360405160208801518851907ff62676f440ff169a3a9afdbf812e89e7f95975ee8e5c31214ffdef631c5f4792602073ffffffffffffffffffffffffffffffffffffffff8451169301516115c461353a565b906115d460405192839283612e6a565b0390a36040525a90612eeb565b608086015190612e84565b9084613567565b98611561565b50602088803e8751611470565b61176e94508293509061164e917e42dc5300000000000000000000000000000000000000000000000000000000602061174295015261020060248601526102248501916131fb565b611711604484018860806101a091610120815173ffffffffffffffffffffffffffffffffffffffff8151168652602081015160208701526040810151604087015260608101516060870152838101518487015260a081015160a087015260c081015160c087015273ffffffffffffffffffffffffffffffffffffffff60e08201511660e087015261010081015161010087015201516101208501526020810151610140850152604081015161016085015260608101516101808501520151910152565b7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffdc8382030161020484015284612e27565b037fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe081018b528a612bd8565b6020888a61134c565b508135611120565b8280fd5b50346107225760407ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc36011261072257806117bc612cac565b60243567ffffffffffffffff8111611840576117dc903690600401612ccf565b90816040519283928337810184815203915af46117f7612ef8565b9061183c6040519283927f9941055400000000000000000000000000000000000000000000000000000000845215156004840152604060248401526044830190612e27565b0390fd5b5050fd5b503461072257807ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc3601126107225761191e906118a07f000000000000000000000000000000000000000000000000000000000000000061550c565b906118ca7f0000000000000000000000000000000000000000000000000000000000000000615682565b90602061192c604051936118de8386612bd8565b8385525f3681376040519687967f0f00000000000000000000000000000000000000000000000000000000000000885260e08589015260e0880190612e27565b908682036040880152612e27565b904660608601523060808601528260a086015284820360c08601528080855193848152019401925b82811061196357505050500390f35b835185528695509381019392810192600101611954565b50346107225761198936612d94565b9291906119946138c4565b61199d816130e2565b916119a9838383613938565b5083927fbb47ee3e183a558b1a2ff0874b079f3fc5478b7454eacf2bfc5af2ff5878f9728580a184925b8084106119e557856101af8689613c7d565b90919293600190611a0c6119fa87858861314e565b611a0488876131bb565b5190886139b7565b0194019291906119d3565b50346107225760207ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc36011261072257604060209173ffffffffffffffffffffffffffffffffffffffff611a69612cac565b1681528083522054604051908152f35b50346107225760207ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc36011261072257604060a09173ffffffffffffffffffffffffffffffffffffffff611acb612cac565b8260808551611ad981612b1e565b82815282602082015282878201528260608201520152168152806020522065ffffffffffff604051611b0a81612b1e565b63ffffffff60018454948584520154916dffffffffffffffffffffffffffff6020820160ff8516151581526040830190828660081c1682528660806060860195878960781c168752019660981c1686526040519788525115156020880152511660408601525116606084015251166080820152f35b50346107225760407ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc360112610722576020906040611bbc612cac565b9173ffffffffffffffffffffffffffffffffffffffff611bda612cfd565b93168152600184522077ffffffffffffffffffffffffffffffffffffffffffffffff82165f52825260405f20547fffffffffffffffffffffffffffffffffffffffffffffffff00000000000000006040519260401b16178152f35b5034610722576020611c4e611c4936612d24565b612f27565b604051908152f35b50346107225760407ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc36011261072257611c8e612cac565b60243590338352826020526040832090815491828411611d8c578480808673ffffffffffffffffffffffffffffffffffffffff82968396611ccf848b612eeb565b90556040805173ffffffffffffffffffffffffffffffffffffffff831681526020810185905233917fd1c19fbcd4551a5edfb66d43d2e337c04837afda3482b42bdf569a8fccdae5fb91a2165af1611d25612ef8565b5015611d2e5780f35b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601260248201527f6661696c656420746f20776974686472617700000000000000000000000000006044820152fd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601960248201527f576974686472617720616d6f756e7420746f6f206c61726765000000000000006044820152fd5b50346107225760607ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc3601126107225760043567ffffffffffffffff811161100357611e3a903690600401612ccf565b9050611e44612c89565b60443567ffffffffffffffff8111611f9557611e64903690600401612ccf565b919092159081611f8b575b50611f2c576014811015611eb6575b604483604051907f08c379a0000000000000000000000000000000000000000000000000000000008252602060048301526024820152fd5b601411611003573560601c3b15611ece575f80611e7e565b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601b60248201527f41413330207061796d6173746572206e6f74206465706c6f79656400000000006044820152fd5b6040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601960248201527f41413230206163636f756e74206e6f74206465706c6f796564000000000000006044820152606490fd5b90503b155f611e6f565b8380fd5b50346107225760407ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc3601126107225777ffffffffffffffffffffffffffffffffffffffffffffffff6040611fec612cac565b9273ffffffffffffffffffffffffffffffffffffffff61200a612cfd565b9416815260016020522091165f52602052602060405f2054604051908152f35b503461072257807ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc3601126107225760206040517f29a0bca4af4be3421398da00295e58e6d7de38cb492214754cb6a47507dd6f8e8152f35b503461072257807ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc360112610722576020600554604051908152f35b50346107225760207ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc3601126107225760043577ffffffffffffffffffffffffffffffffffffffffffffffff8116810361100357338252600160205277ffffffffffffffffffffffffffffffffffffffffffffffff6040832091165f5260205260405f2061214d8154612ebe565b905580f35b503461072257807ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc36011261072257602073ffffffffffffffffffffffffffffffffffffffff60045416604051908152f35b5060207ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc3601126107225760043563ffffffff811680910361100357338252816020526040822090801561247a57600182015463ffffffff8160781c16821061241c57612225906dffffffffffffffffffffffffffff349160081c16612e84565b9182156123be576dffffffffffffffffffffffffffff8311612360575460405161232c9161225282612b1e565b8152600160208083018281526dffffffffffffffffffffffffffff8716604080860191825260608601888152608087018b8152338c52948b9052908a209551865591519490930180549351915192517fffffffffffffff0000000000000000000000000000000000000000000000000090941660ff951515959095169490941760089190911b6effffffffffffffffffffffffffff00161760789190911b72ffffffff000000000000000000000000000000161760989190911b78ffffffffffff0000000000000000000000000000000000000016179055565b60405191825260208201527fa5ae833d0bb1dcd632d98a8b70973e8516812898e19bf27b70071ebc8dc52c0160403392a280f35b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152600e60248201527f7374616b65206f766572666c6f770000000000000000000000000000000000006044820152fd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601260248201527f6e6f207374616b652073706563696669656400000000000000000000000000006044820152fd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601c60248201527f63616e6e6f7420646563726561736520756e7374616b652074696d65000000006044820152fd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601a60248201527f6d757374207370656369667920756e7374616b652064656c61790000000000006044820152fd5b50346107225760207ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc360112610722576004357fffffffff0000000000000000000000000000000000000000000000000000000081160361072257602090604051908152f35b50346129a5576102007ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc3601126129a55760043567ffffffffffffffff81116129a557366023820112156129a5576125a0903690602481600401359101612c53565b907fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffdc36016101c081126129a557610140604051916125dd83612b1e565b126129a5576040516125ee81612b67565b6125f6612c89565b815260443560208201526064356040820152608435606082015260a435608082015260c43560a082015260e43560c08201526101043573ffffffffffffffffffffffffffffffffffffffff811681036129a55760e08201526101243561010082015261014435610120820152815260208101610164358152604082016101843581526101a435606084015260808301906101c43582526101e43567ffffffffffffffff81116129a5576126ad903690600401612ccf565b935a90303303612ac0578651606081015199603f5a0260061c61271060a08401518d010111612a98575f9a815191826129de575b5050505050906126f9915a9003845101943691612c53565b915a92855161010081015161012082015148018082105f146129d65750955b61274573ffffffffffffffffffffffffffffffffffffffff60e08401511694518203606084015190615346565b01925f92816128805750505173ffffffffffffffffffffffffffffffffffffffff16935b5a900301019283029051918183105f146127fd57505060038510156127d0576020946002036127a857611c4e92935080936127a381615467565b615365565b5050507fdeadaa51000000000000000000000000000000000000000000000000000000008152fd5b6024847f4e487b710000000000000000000000000000000000000000000000000000000081526021600452fd5b81612833929693979497039073ffffffffffffffffffffffffffffffffffffffff165f525f60205260405f209081540180915590565b5060038210156128535750928261284e9260209515906153e6565b611c4e565b807f4e487b7100000000000000000000000000000000000000000000000000000000602492526021600452fd5b909591868251612893575b505050612769565b90919293505a9260038c10156129a95760028c036128c9575b505060a06128c0925a900391015190615346565b905f808061288b565b60a083015191803b156129a55789925f92838f93612926948b88604051998a98899788957f7c627b210000000000000000000000000000000000000000000000000000000087526004870152608060248701526084860190612e27565b9202604484015260648301520393f19081612990575b506129865761183c61294c61353a565b6040519182917fad7954bc000000000000000000000000000000000000000000000000000000008352602060048401526024830190612e27565b60a06128c06128ac565b61299d919a505f90612bd8565b5f985f61293c565b5f80fd5b7f4e487b71000000000000000000000000000000000000000000000000000000005f52602160045260245ffd5b905095612718565b915f9291838093602073ffffffffffffffffffffffffffffffffffffffff885116910192f115612a11575b8080806126e1565b6126f99392995060405191612a2461353a565b908151612a3d575b50505060405260019790915f612a09565b7f1c4fada7374c0a9ee8841fc38afe82932dc0f8e69012e927f061a8bae611a201905191602073ffffffffffffffffffffffffffffffffffffffff855116940151612a8d60405192839283612e6a565b0390a35f8080612a2c565b7fdeaddead000000000000000000000000000000000000000000000000000000005f5260205ffd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601760248201527f4141393220696e7465726e616c2063616c6c206f6e6c790000000000000000006044820152fd5b60a0810190811067ffffffffffffffff821117612b3a57604052565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52604160045260245ffd5b610140810190811067ffffffffffffffff821117612b3a57604052565b60c0810190811067ffffffffffffffff821117612b3a57604052565b6040810190811067ffffffffffffffff821117612b3a57604052565b6060810190811067ffffffffffffffff821117612b3a57604052565b90601f7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe0910116810190811067ffffffffffffffff821117612b3a57604052565b67ffffffffffffffff8111612b3a57601f017fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe01660200190565b929192612c5f82612c19565b91612c6d6040519384612bd8565b8294818452818301116129a5578281602093845f960137010152565b6024359073ffffffffffffffffffffffffffffffffffffffff821682036129a557565b6004359073ffffffffffffffffffffffffffffffffffffffff821682036129a557565b9181601f840112156129a55782359167ffffffffffffffff83116129a557602083818601950101116129a557565b6024359077ffffffffffffffffffffffffffffffffffffffffffffffff821682036129a557565b60207ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc8201126129a5576004359067ffffffffffffffff82116129a5577ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc82610120920301126129a55760040190565b9060407ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc8301126129a55760043567ffffffffffffffff81116129a55760040182601f820112156129a55780359267ffffffffffffffff84116129a5576020808301928560051b0101116129a557919060243573ffffffffffffffffffffffffffffffffffffffff811681036129a55790565b907fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe0601f602080948051918291828752018686015e5f8582860101520116010190565b604090612e81939281528160208201520190612e27565b90565b91908201809211612e9157565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52601160045260245ffd5b7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8114612e915760010190565b91908203918211612e9157565b3d15612f22573d90612f0982612c19565b91612f176040519384612bd8565b82523d5f602084013e565b606090565b604290612f338161368e565b60055491612f40816133e8565b91801561303e57905b60c0612f586060830183613303565b90816040519182372091612f6f60e0820182613303565b908160405191823720926040519473ffffffffffffffffffffffffffffffffffffffff60208701977f29a0bca4af4be3421398da00295e58e6d7de38cb492214754cb6a47507dd6f8e895216604087015260208301356060870152608086015260a085015260808101358285015260a081013560e08501520135610100830152610120820152610120815261300661014082612bd8565b519020604051917f19010000000000000000000000000000000000000000000000000000000000008352600283015260228201522090565b5061304c6040820182613303565b90816040519182372090612f49565b67ffffffffffffffff8111612b3a5760051b60200190565b6040519061308082612b1e565b5f60808360405161309081612b67565b83815283602082015283604082015283606082015283838201528360a08201528360c08201528360e0820152836101008201528361012082015281528260208201528260408201528260608201520152565b906130ec8261305b565b6130f96040519182612bd8565b8281527fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe0613127829461305b565b01905f5b82811061313757505050565b602090613142613073565b8282850101520161312b565b919081101561318e5760051b810135907ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffee1813603018212156129a5570190565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52603260045260245ffd5b805182101561318e5760209160051b010190565b908160209103126129a5575173ffffffffffffffffffffffffffffffffffffffff811681036129a55790565b601f82602094937fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe093818652868601375f8582860101520116010190565b60015b600581106132b857507f2da466a7b24304f47e87fa2e1e5a81b9831ce54fec19055ce277ca2f39ba42c4602073ffffffffffffffffffffffffffffffffffffffff6132ac348573ffffffffffffffffffffffffffffffffffffffff165f525f60205260405f209081540180915590565b936040519485521692a2565b60010161323c565b604051906132cd82612ba0565b5f6020838281520152565b604051906132e582612ba0565b5f82526040516020836132f783612ba0565b5f83525f828401520152565b9035907fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe1813603018212156129a5570180359067ffffffffffffffff82116129a5576020019181360383136129a557565b919081101561318e5760051b810135907fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffa1813603018212156129a5570190565b9035907fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe1813603018212156129a5570180359067ffffffffffffffff82116129a557602001918160051b360383136129a557565b3573ffffffffffffffffffffffffffffffffffffffff811681036129a55790565b90357fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe1823603018112156129a557016020813591019167ffffffffffffffff82116129a55781360383136129a557565b80359173ffffffffffffffffffffffffffffffffffffffff831683036129a55773ffffffffffffffffffffffffffffffffffffffff612e81931681526020820135602082015261352b61351f6134e66134cb6134b86040870187613409565b61012060408801526101208701916131fb565b6134d86060870187613409565b9086830360608801526131fb565b6080850135608085015260a085013560a085015260c085013560c085015261351160e0860186613409565b9085830360e08701526131fb565b92610100810190613409565b916101008185039101526131fb565b3d610800811161355e575b604051906020818301016040528082525f602083013e90565b50610800613545565b9291905f5a9185519361010085015161012086015148018082105f146136865750945b73ffffffffffffffffffffffffffffffffffffffff60e082015116916135bb60808a01518203606084015190615346565b01925f92806136575750505173ffffffffffffffffffffffffffffffffffffffff16935b5a900301019283026040860151928184105f14613610575050806128535750908161360e92946127a381615467565b565b613645908284939895039073ffffffffffffffffffffffffffffffffffffffff165f525f60205260405f209081540180915590565b50612853575090835f61360e936153e6565b95919051613666575b506135df565b9350905061367f5a9360a05f955a900391015190615346565b905f613660565b90509461358a565b61369b6040820182613303565b90916136a782846154b7565b156138bd576136b5906133e8565b60175f80833c5f51907fef010000000000000000000000000000000000000000000000000000000000007fffffff00000000000000000000000000000000000000000000000000000000008316036137fb575060181b916014821161375b5750506040517fffffffffffffffffffffffffffffffffffffffff00000000000000000000000080806020840194161616825260148152613755603482612bd8565b51902090565b816014116129a5576020613755916040519384917fffffffffffffffffffffffffffffffffffffffff000000000000000000000000808086860199161616875260147fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffec83019101603484013781015f8382015203017fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe08101835282612bd8565b3b1561385f5760646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601860248201527f6e6f7420616e204549502d373730322064656c656761746500000000000000006044820152fd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601260248201527f73656e64657220686173206e6f20636f646500000000000000000000000000006044820152fd5b5050505f90565b7f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f005c6139105760017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f005d565b7f3ee5aeb5000000000000000000000000000000000000000000000000000000005f5260045ffd5b92919092835f5b81811061394c5750505050565b61397d73ffffffffffffffffffffffffffffffffffffffff61030661397184886131bb565b5161030085878961314e565b911661049f5761043a576139a573ffffffffffffffffffffffffffffffffffffffff91615752565b91166103d55761034a5760010161393f565b9092915a606082015160405195866139d26060830183613303565b5f60038211613c75575b7fffffffff00000000000000000000000000000000000000000000000000000000167f8dd7712f0000000000000000000000000000000000000000000000000000000003613bfb575050505f61122c613a776111ba6111ec602095868a01516040519384927f8dd7712f000000000000000000000000000000000000000000000000000000008a850152604060248501526064840190613459565b828151910182305af15f519660405215613a92575b50505050565b9091929394505f3d602014613bee575b7fdeaddead000000000000000000000000000000000000000000000000000000008103613b2e57608485604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152600f60448201527f41413935206f7574206f662067617300000000000000000000000000000000006064820152fd5b92935090917fdeadaa510000000000000000000000000000000000000000000000000000000003613b865750613b6b61153b613b7b925a90612eeb565b6040830151836127a38295615467565b905b5f808080613a8c565b613be261153b613be8949360405160208601518651907ff62676f440ff169a3a9afdbf812e89e7f95975ee8e5c31214ffdef631c5f4792602073ffffffffffffffffffffffffffffffffffffffff8451169301516115c461353a565b91613567565b90613b7d565b5060205f803e5f51613aa2565b613c6c9350613c409161164e917e42dc5300000000000000000000000000000000000000000000000000000000602086015261020060248601526102248501916131fb565b037fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe08101885287612bd8565b60205f87613a77565b5081356139dc565b73ffffffffffffffffffffffffffffffffffffffff168015613d0f575f80809381935af1613ca9612ef8565b5015613cb157565b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601f60248201527f41413931206661696c65642073656e6420746f2062656e6566696369617279006044820152fd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601860248201527f4141393020696e76616c69642062656e656669636961727900000000000000006044820152fd5b5f60443d10612e81576040517ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc3d016004823e8051913d602484011167ffffffffffffffff841117613e17578282019283519167ffffffffffffffff8311613e0f577ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc3d85010160208487010111613e0f5750612e8192910160200190612bd8565b949350505050565b92915050565b6040519073ffffffffffffffffffffffffffffffffffffffff602083015f937fd69400000000000000000000000000000000000000000000000000000000000082523060601b60228201527f0100000000000000000000000000000000000000000000000000000000000000603682015260178152613e9d603782612bd8565b519020167fffffffffffffffffffffffff00000000000000000000000000000000000000006004541617600455604090600760208351613edd8582612bd8565b828152017f4552433433333700000000000000000000000000000000000000000000000000815220600160208451613f158682612bd8565b828152017f310000000000000000000000000000000000000000000000000000000000000081522083519060208201927f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f84528583015260608201524660808201523060a082015260a08152613f8c60c082612bd8565b519020600555613f9e82820182613303565b90613fb6613fab846133e8565b9360e0810190613303565b9290303b156129a557614019945f9461404f9273ffffffffffffffffffffffffffffffffffffffff895198899788977f1f5ae7bb000000000000000000000000000000000000000000000000000000008952606060048a015260648901916131fb565b931660248601527ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffc8584030160448601526131fb565b0381305afa90816140fd575b506140f95760018260033d116140e9575b6308c379a014614089575b61407f575050565b51903d90823e3d90fd5b614091613d6d565b8061409d575b50614077565b805184925015614097578361183c849283519384937f220266b6000000000000000000000000000000000000000000000000000000008552600485015260248401526044830190612e27565b50600483803e825160e01c61406c565b5050565b61410a9193505f90612bd8565b5f915f61405b565b915f915a9381519473ffffffffffffffffffffffffffffffffffffffff614138836133e8565b16865260208601956020830135875260808301356fffffffffffffffffffffffffffffffff8160801c911693604083019160608401958652825260a08101359460c0840186815260c0830135906fffffffffffffffffffffffffffffffff8260801c921691610120870190610100880193845281526141ba60e0860186613303565b9081614941575b50506040516141cf86612f27565b9460208c019586528160405287519788855117825117926effffffffffffffffffffffffffffff60808c01948551179560a08d0196875117895117905117116148df575051905101905101905101905101905102926040880193808552885173ffffffffffffffffffffffffffffffffffffffff60e081835116926142628d61425b60408b018b613303565b915f6157f2565b015116915f9215806148b8575b8b5160205f73ffffffffffffffffffffffffffffffffffffffff6040840151935116928a6142d18b6117426040519b8c9251888401957f19822f7c00000000000000000000000000000000000000000000000000000000875260248501615c5f565b82858a5193f15f519560203d036148b0575b604052156147c05750614747575b50509a73ffffffffffffffffffffffffffffffffffffffff8651169051905f52600160205260405f2077ffffffffffffffffffffffffffffffffffffffffffffffff8260401c165f5260205267ffffffffffffffff60405f209182549261435784612ebe565b905516036146e3575a86031161467f5773ffffffffffffffffffffffffffffffffffffffff60e060609501511661439e575b5050506060840152608091905a900301910152565b91975091505a9085516143cd73ffffffffffffffffffffffffffffffffffffffff60e0830151168a5190615c81565b1561461b576080614445910151916144196040519a8b925190519060208401977f52b7512c00000000000000000000000000000000000000000000000000000000895260248501615c5f565b037fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe081018a5289612bd8565b5f8087518582608073ffffffffffffffffffffffffffffffffffffffff60e085015116930151928d5193f1973d93845f833e51938151604083019a8b51901591821561460f575b5081156145df575b5061456057601f7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe09101160191826040525a9003116144d857509460805f80614389565b807f220266b60000000000000000000000000000000000000000000000000000000060a492525f600482015260406024820152602760448201527f41413336206f766572207061796d6173746572566572696669636174696f6e4760648201527f61734c696d6974000000000000000000000000000000000000000000000000006084820152fd5b61183c61456b61353a565b6040519182917f65c8fd4d0000000000000000000000000000000000000000000000000000000083525f600484015260606024840152600d60648401527f4141333320726576657274656400000000000000000000000000000000000000608484015260a0604484015260a4830190612e27565b9050601f7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffa083019101105f614494565b6040141591505f61448c565b60846040517f220266b60000000000000000000000000000000000000000000000000000000081525f600482015260406024820152601e60448201527f41413331207061796d6173746572206465706f73697420746f6f206c6f7700006064820152fd5b60846040517f220266b60000000000000000000000000000000000000000000000000000000081525f600482015260406024820152601e60448201527f41413236206f76657220766572696669636174696f6e4761734c696d697400006064820152fd5b60846040517f220266b60000000000000000000000000000000000000000000000000000000081525f600482015260406024820152601a60448201527f4141323520696e76616c6964206163636f756e74206e6f6e63650000000000006064820152fd5b61475091615c81565b1561475c575f806142f1565b60846040517f220266b60000000000000000000000000000000000000000000000000000000081525f600482015260406024820152601760448201527f41413231206469646e2774207061792070726566756e640000000000000000006064820152fd5b3b614831576040517f220266b60000000000000000000000000000000000000000000000000000000081525f6004820152604060248201528061183c60448201604090601981527f41413230206163636f756e74206e6f74206465706c6f7965640000000000000060208201520190565b61183c61483c61353a565b6040519182917f65c8fd4d0000000000000000000000000000000000000000000000000000000083525f600484015260606024840152600d60648401527f4141323320726576657274656400000000000000000000000000000000000000608484015260a0604484015260a4830190612e27565b5f91506142e3565b9250815f525f60205260405f20548181115f146148d857505f5b9261426f565b81036148d2565b807f220266b600000000000000000000000000000000000000000000000000000000608492525f600482015260406024820152601860448201527f41413934206761732076616c756573206f766572666c6f7700000000000000006064820152fd5b60348210614a0557816014116129a557803560601c91602481106129a5576014820135906034116129a5576fffffffffffffffffffffffffffffffff60248193013560801c1660a08b015260801c16608089015280156149a75760e08801525f806141c1565b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601660248201527f4141393820696e76616c6964207061796d6173746572000000000000000000006044820152fd5b60646040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152601d60248201527f4141393320696e76616c6964207061796d6173746572416e64446174610000006044820152fd5b919290925f925a825173ffffffffffffffffffffffffffffffffffffffff614a8a886133e8565b168152602081019660208101358852608081013590856fffffffffffffffffffffffffffffffff8360801c931695604085019360608601978852845260a08301359660c086018881528660c08601356fffffffffffffffffffffffffffffffff8160801c91169361012083019161010084019586528252614b0e60e0890189613303565b9081615275575b5050604051986020614b268a612f27565b9801978852896040528051996effffffffffffffffffffffffffffff8b8751178451179460a06080880196875117970196875117895117905117116152135750519051019051019051019051019051029360408901948086528973ffffffffffffffffffffffffffffffffffffffff60e08251614bb58382511694614bae60408c018c613303565b918a6157f2565b015116915f9215806151ec575b8c5160205f73ffffffffffffffffffffffffffffffffffffffff6040840151935116928b614c248c6117426040519b8c9251888401957f19822f7c00000000000000000000000000000000000000000000000000000000875260248501615c5f565b82858a5193f15f519560203d036151e4575b604052156150f25750615078575b50509b73ffffffffffffffffffffffffffffffffffffffff8751169051905f52600160205260405f2077ffffffffffffffffffffffffffffffffffffffffffffffff8260401c165f5260205267ffffffffffffffff60405f2091825492614caa84612ebe565b90551603615013575a870311614fae5773ffffffffffffffffffffffffffffffffffffffff60e0606096015116614cf2575b505050506060840152608091905a900301910152565b9193509197505a918651614d2273ffffffffffffffffffffffffffffffffffffffff60e0830151168b5190615c81565b15614f49576080614d6e910151916117426040519b8c925190519060208401987f52b7512c000000000000000000000000000000000000000000000000000000008a5260248501615c5f565b5f808a86828b51608073ffffffffffffffffffffffffffffffffffffffff60e083015116910151935193f1983d94855f833e51948151604083019b8c519015918215614f3d575b508115614f0d575b50614e8d57601f7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe09101160192836040525a900311614e0557509095905060805f8080614cdc565b60a492507f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152602760448201527f41413336206f766572207061796d6173746572566572696669636174696f6e4760648201527f61734c696d6974000000000000000000000000000000000000000000000000006084820152fd5b83614e9661353a565b9061183c6040519283927f65c8fd4d000000000000000000000000000000000000000000000000000000008452600484015260606024840152600d60648401527f4141333320726576657274656400000000000000000000000000000000000000608484015260a0604484015260a4830190612e27565b9050601f7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffa083019101105f614dbd565b6040141591505f614db5565b608483604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152601e60448201527f41413331207061796d6173746572206465706f73697420746f6f206c6f7700006064820152fd5b608490604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152601e60448201527f41413236206f76657220766572696669636174696f6e4761734c696d697400006064820152fd5b608482604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152601a60448201527f4141323520696e76616c6964206163636f756e74206e6f6e63650000000000006064820152fd5b61508191615c81565b1561508d575f80614c44565b608483604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152601760448201527f41413231206469646e2774207061792070726566756e640000000000000000006064820152fd5b86903b61516557604051907f220266b60000000000000000000000000000000000000000000000000000000082526004820152604060248201528061183c60448201604090601981527f41413230206163636f756e74206e6f74206465706c6f7965640000000000000060208201520190565b61516d61353a565b9061183c6040519283927f65c8fd4d000000000000000000000000000000000000000000000000000000008452600484015260606024840152600d60648401527f4141323320726576657274656400000000000000000000000000000000000000608484015260a0604484015260a4830190612e27565b5f9150614c36565b9250815f525f60205260405f20548181115f1461520c57505f5b92614bc2565b8103615206565b80887f220266b60000000000000000000000000000000000000000000000000000000060849352600482015260406024820152601860448201527f41413934206761732076616c756573206f766572666c6f7700000000000000006064820152fd5b919750925060348310614a0557826014116129a557803560601c92602481106129a5576014820135906034116129a5576fffffffffffffffffffffffffffffffff60248193013560801c1660a08c015260801c1660808a015281156149a7578b95899260e08401525f80614b15565b906040516152f181612ba0565b5f81525f602082015273ffffffffffffffffffffffffffffffffffffffff8193165f525f602052602063ffffffff600160405f2001546dffffffffffffffffffffffffffff8160081c16845260781c16910152565b90619c40820181111561535f57606491600a9103020490565b50505f90565b9190917f49628fd1471006c1482da88028e9ce4dbb080b815c9b0344d39e5a8e6ec1419f6080602083015192519473ffffffffffffffffffffffffffffffffffffffff86511694602073ffffffffffffffffffffffffffffffffffffffff60e089015116970151916040519283525f602084015260408301526060820152a4565b9060807f49628fd1471006c1482da88028e9ce4dbb080b815c9b0344d39e5a8e6ec1419f91602084015193519573ffffffffffffffffffffffffffffffffffffffff87511695602073ffffffffffffffffffffffffffffffffffffffff60e08a015116980151926040519384521515602084015260408301526060820152a4565b60208101519051907f67b4fa9642f42120bf031f3051d1824b0fe25627945b27b8a6a65d5761d5482e60208073ffffffffffffffffffffffffffffffffffffffff855116940151604051908152a3565b9060021161550757357fffffffffffffffffffffffffffffffffffffffff000000000000000000000000167f77020000000000000000000000000000000000000000000000000000000000001490565b505f90565b60ff811461556b5760ff811690601f82116155435760405191615530604084612bd8565b6020808452838101919036833783525290565b7fb3512b0c000000000000000000000000000000000000000000000000000000005f5260045ffd5b506040515f6002548060011c9160018216918215615678575b60208410831461564b57838552849290811561560e57506001146155af575b612e8192500382612bd8565b5060025f90815290917f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace5b8183106155f2575050906020612e81928201016155a3565b60209193508060019154838588010152019101909183926155da565b60209250612e819491507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff001682840152151560051b8201016155a3565b7f4e487b71000000000000000000000000000000000000000000000000000000005f52602260045260245ffd5b92607f1692615584565b60ff81146156a65760ff811690601f82116155435760405191615530604084612bd8565b506040515f6003548060011c9160018216918215615748575b60208410831461564b57838552849290811561560e57506001146156e957612e8192500382612bd8565b5060035f90815290917fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b5b81831061572c575050906020612e81928201016155a3565b6020919350806001915483858801015201910190918392615714565b92607f16926156bf565b80156157eb575f6040805161576681612bbc565b828152826020820152015273ffffffffffffffffffffffffffffffffffffffff81169065ffffffffffff8160a01c169081156157dd575b60409060d01c9165ffffffffffff8251916157b783612bbc565b85835284602084015216918291015242119081156157d457509091565b90504211159091565b65ffffffffffff915061579d565b505f905f90565b929190915f9080615805575b5050505050565b83519473ffffffffffffffffffffffffffffffffffffffff8651169561582b83866154b7565b615b7c5750853b615b175760148210615ab25782602073ffffffffffffffffffffffffffffffffffffffff60045416604088510151604051809481937f570e1a36000000000000000000000000000000000000000000000000000000008352856004840152826158a08c8b60248401916131fb565b0393f1908115615aa7578491615a88575b5073ffffffffffffffffffffffffffffffffffffffff81168015615a235787036159be573b156159595750601411610722577fd51a9c61267aa6196961883ecf5ff2da6619c37dac0fa92122513fb32c032d2d91604091503573ffffffffffffffffffffffffffffffffffffffff60e06020860151955101511673ffffffffffffffffffffffffffffffffffffffff83519260601c1682526020820152a35f808080806157fe565b608490604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152602060448201527f4141313520696e6974436f6465206d757374206372656174652073656e6465726064820152fd5b608482604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152602060448201527f4141313420696e6974436f6465206d7573742072657475726e2073656e6465726064820152fd5b608483604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152601b60448201527f4141313320696e6974436f6465206661696c6564206f72204f4f4700000000006064820152fd5b615aa1915060203d602011610ff157610fe38183612bd8565b5f6158b1565b6040513d86823e3d90fd5b608490604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152601760448201527f4141393920696e6974436f646520746f6f20736d616c6c0000000000000000006064820152fd5b608490604051907f220266b6000000000000000000000000000000000000000000000000000000008252600482015260406024820152601f60448201527f414131302073656e64657220616c726561647920636f6e7374727563746564006064820152fd5b94505091905060148211615b905750505050565b604073ffffffffffffffffffffffffffffffffffffffff6004541693015190826014116129a557833b156129a5575f8094615c2e96604051978896879586937fc09ad0d900000000000000000000000000000000000000000000000000000000855260048501526040602485015260147fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffec60448601930191016131fb565b0393f18015615c5457615c44575b808080613a8c565b5f615c4e91612bd8565b5f615c3c565b6040513d5f823e3d90fd5b615c7760409295949395606083526060830190613459565b9460208201520152565b73ffffffffffffffffffffffffffffffffffffffff165f525f60205260405f209081548181106138bd5703905560019056fea26469706673582212202bf173ed47619de45c31d17ee7fa50af7ab0e794f3182e1a2fbe52a1a4b01aa464736f6c634300081c0033";
@@ -0,0 +1,12 @@
+import { Abi } from "viem";
+
+// The OP Stack `GasPriceOracle` predeploy, as far as gas estimation uses it
+export const GAS_PRICE_ORACLE_ABI = [
+    {
+      "type": "function",
+      "name": "getL1Fee",
+      "inputs": [{ "name": "_data", "type": "bytes" }],
+      "outputs": [{ "name": "", "type": "uint256" }],
+      "stateMutability": "view"
+    }
+  ] as const satisfies Abi;
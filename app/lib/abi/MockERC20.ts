@@ -0,0 +1,16 @@
+import { Abi, erc20Abi } from "viem";
+
+// `contracts/MockERC20.sol`: a standard ERC-20 that anyone can mint
+export const MOCK_ERC20_ABI = [
+    ...erc20Abi,
+    {
+      "type": "function",
+      "name": "mint",
+      "inputs": [
+        { "name": "to", "type": "address" },
+        { "name": "amount", "type": "uint256" }
+      ],
+      "outputs": [],
+      "stateMutability": "nonpayable"
+    }
+  ] as const satisfies Abi;
@@ -0,0 +1,42 @@
+import { Abi } from "viem";
+
+// The parts of `contracts/MockTokenPaymaster.sol` the token paymaster mode uses
+export const MOCK_TOKEN_PAYMASTER_ABI = [
+    {
+      "type": "function",
+      "name": "token",
+      "inputs": [],
+      "outputs": [{ "name": "", "type": "address" }],
+      "stateMutability": "view"
+    },
+    {
+      "type": "function",
+      "name": "exchangeRate",
+      "inputs": [],
+      "outputs": [{ "name": "", "type": "uint256" }],
+      "stateMutability": "view"
+    },
+    {
+      "type": "function",
+      "name": "POST_OP_GAS",
+      "inputs": [],
+      "outputs": [{ "name": "", "type": "uint256" }],
+      "stateMutability": "view"
+    },
+    {
+      "type": "function",
+      "name": "getDeposit",
+      "inputs": [],
+      "outputs": [{ "name": "", "type": "uint256" }],
+      "stateMutability": "view"
+    },
+    {
+      "type": "event",
+      "name": "UserOperationCharged",
+      "inputs": [
+        { "name": "sender", "type": "address", "indexed": true },
+        { "name": "actualGasCost", "type": "uint256", "indexed": false },
+        { "name": "tokenCost", "type": "uint256", "indexed": false }
+      ]
+    }
+  ] as const satisfies Abi;
@@ -0,0 +1,91 @@
+import { Abi } from "viem";
+
+// The parts of the eth-infinitism `VerifyingPaymaster` (EntryPoint v0.6) the paymaster service uses
+export const VERIFYING_PAYMASTER_ABI = [
+    {
+      "type": "function",
+      "name": "getHash",
+      "inputs": [
+        {
+          "name": "userOp",
+          "type": "tuple",
+          "components": [
+            { "name": "sender", "type": "address" },
+            { "name": "nonce", "type": "uint256" },
+            { "name": "initCode", "type": "bytes" },
+            { "name": "callData", "type": "bytes" },
+            { "name": "callGasLimit", "type": "uint256" },
+            { "name": "verificationGasLimit", "type": "uint256" },
+            { "name": "preVerificationGas", "type": "uint256" },
+            { "name": "maxFeePerGas", "type": "uint256" },
+            { "name": "maxPriorityFeePerGas", "type": "uint256" },
+            { "name": "paymasterAndData", "type": "bytes" },
+            { "name": "signature", "type": "bytes" }
+          ]
+        },
+        { "name": "validUntil", "type": "uint48" },
+        { "name": "validAfter", "type": "uint48" }
+      ],
+      "outputs": [{ "name": "", "type": "bytes32" }],
+      "stateMutability": "view"
+    },
+    {
+      "type": "function",
+      "name": "verifyingSigner",
+      "inputs": [],
+      "outputs": [{ "name": "", "type": "address" }],
+      "stateMutability": "view"
+    },
+    {
+      "type": "function",
+      "name": "getDeposit",
+      "inputs": [],
+      "outputs": [{ "name": "", "type": "uint256" }],
+      "stateMutability": "view"
+    }
+  ] as const satisfies Abi;
+
+
+// The same parts of the eth-infinitism `VerifyingPaymaster` for EntryPoint v0.7, which hashes the
+// PackedUserOperation including the paymaster gas limits in its `paymasterAndData`
+export const VERIFYING_PAYMASTER_V07_ABI = [
+    {
+      "type": "function",
+      "name": "getHash",
+      "inputs": [
+        {
+          "name": "userOp",
+          "type": "tuple",
+          "components": [
+            { "name": "sender", "type": "address" },
+            { "name": "nonce", "type": "uint256" },
+            { "name": "initCode", "type": "bytes" },
+            { "name": "callData", "type": "bytes" },
+            { "name": "accountGasLimits", "type": "bytes32" },
+            { "name": "preVerificationGas", "type": "uint256" },
+            { "name": "gasFees", "type": "bytes32" },
+            { "name": "paymasterAndData", "type": "bytes" },
+            { "name": "signature", "type": "bytes" }
+          ]
+        },
+        { "name": "validUntil", "type": "uint48" },
+        { "name": "validAfter", "type": "uint48" }
+      ],
+      "outputs": [{ "name": "", "type": "bytes32" }],
+      "stateMutability": "view"
+    },
+    {
+      "type": "function",
+      "name": "verifyingSigner",
+      "inputs": [],
+      "outputs": [{ "name": "", "type": "address" }],
+      "stateMutability": "view"
+    },
+    {
+      "type": "function",
+      "name": "getDeposit",
+      "inputs": [],
+      "outputs": [{ "name": "", "type": "uint256" }],
+      "stateMutability": "view"
+    }
+  ] as const satisfies Abi;
@@ -0,0 +1,101 @@
+import { type Address, type PublicClient, type SignedAuthorization, getAddress, isAddress } from "viem";
+import { recoverAuthorizationAddress } from "viem/utils";
+import { EIP7702PROXY_TEMPLATE_ADDRESS, STORAGE_ERASER_ADDRESS, ZERO_ADDRESS } from "./constants";
+import { type RelayFieldError } from "./relay-schema";
+
+// Delegates the relayer will pay to install. Overridable with a comma-separated
+// `RELAY_ALLOWED_DELEGATES` list; the zero address (clearing delegation) is always allowed.
+export function getAllowedDelegates(): Address[] {
+  const configured = process.env.RELAY_ALLOWED_DELEGATES?.split(",")
+    .map((address) => address.trim())
+    .filter((address) => isAddress(address, { strict: false }))
+    .map((address) => getAddress(address));
+
+  const delegates = configured?.length
+    ? configured
+    : [EIP7702PROXY_TEMPLATE_ADDRESS, STORAGE_ERASER_ADDRESS];
+  return [...delegates, ZERO_ADDRESS];
+}
+
+// Checks every signed EIP-7702 authorization the way the protocol will when the type-4 transaction
+// is included, so authorizations that would be silently skipped on-chain are rejected up front:
+// - the recovered authority must be `targetAddress`
+// - `chainId` must be this chain or 0
+// - `nonce` must equal the authority's current account nonce (incremented per valid authorization)
+// - the delegate must be in the allowlist
+export async function verifyAuthorizationList(
+  publicClient: PublicClient,
+  {
+    authorizationList,
+    targetAddress,
+    chainId,
+    allowedDelegates = getAllowedDelegates(),
+  }: {
+    authorizationList: readonly SignedAuthorization[];
+    targetAddress: Address;
+    chainId: number;
+    allowedDelegates?: readonly Address[];
+  }
+): Promise<RelayFieldError[]> {
+  const issues: RelayFieldError[] = [];
+  const allowed = new Set(allowedDelegates.map((address) => address.toLowerCase()));
+  let expectedNonce = await publicClient.getTransactionCount({
+    address: targetAddress,
+    blockTag: "pending",
+  });
+
+  for (let i = 0; i < authorizationList.length; i++) {
+    const authorization = authorizationList[i];
+    const path = `authorizationList[${i}]`;
+
+    let authority: Address;
+    try {
+      authority = await recoverAuthorizationAddress({ authorization });
+    } catch {
+      issues.push({
+        field: path,
+        code: "INVALID_AUTHORIZATION",
+        message: `${path} has an unrecoverable signature`,
+      });
+      continue;
+    }
+
+    const itemIssues: RelayFieldError[] = [];
+    if (authority.toLowerCase() !== targetAddress.toLowerCase()) {
+      itemIssues.push({
+        field: path,
+        code: "AUTHORITY_MISMATCH",
+        message: `${path} is signed by ${authority}, not targetAddress ${targetAddress}`,
+      });
+    }
+    if (authorization.chainId !== chainId && authorization.chainId !== 0) {
+      itemIssues.push({
+        field: `${path}.chainId`,
+        code: "INVALID_CHAIN_ID",
+        message: `${path}.chainId is ${authorization.chainId}, expected ${chainId} or 0`,
+      });
+    }
+    if (authorization.nonce !== expectedNonce) {
+      itemIssues.push({
+        field: `${path}.nonce`,
+        code: "NONCE_MISMATCH",
+        message: `${path}.nonce is ${authorization.nonce}, but the account nonce is ${expectedNonce}`,
+      });
+    }
+    if (!allowed.has(authorization.address.toLowerCase())) {
+      itemIssues.push({
+        field: `${path}.address`,
+        code: "DELEGATE_NOT_ALLOWED",
+        message: `${path} delegates to ${authorization.address}, which is not an allowed delegate`,
+      });
+    }
+
+    // A valid authorization bumps the authority's nonce before the next one is processed
+    if (itemIssues.length === 0) {
+      expectedNonce++;
+    }
+    issues.push(...itemIssues);
+  }
+
+  return issues;
+}
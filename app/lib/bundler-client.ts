@@ -0,0 +1,59 @@
+import { type Address, type Hash, type PublicClient, type SignedAuthorization, http, numberToHex } from "viem";
+import {
+  type UserOperation,
+  createBundlerClient,
+  createPaymasterClient,
+  formatUserOperationRequest,
+} from "viem/account-abstraction";
+import { getUserOperationFees } from "./user-operation-fees";
+
+// The relayer's ERC-4337 bundler JSON-RPC endpoint
+export const BUNDLER_RPC_URL = "/api/bundler";
+
+// Creates a standard viem bundler client for the relayer's bundler, reading chain state through
+// `client`. Ops it prepares bid the chain's current fees.
+export function createRelayerBundlerClient(client: PublicClient) {
+  return createBundlerClient({
+    client,
+    transport: http(BUNDLER_RPC_URL),
+    userOperation: {
+      estimateFeesPerGas: () => getUserOperationFees(client),
+    },
+  });
+}
+
+// An ERC-7677 paymaster client for the verifying paymaster methods the bundler endpoint also serves
+export function createRelayerPaymasterClient() {
+  return createPaymasterClient({ transport: http(BUNDLER_RPC_URL) });
+}
+
+// Sends a v0.8 userOp that installs its sender's EIP-7702 delegation, carrying the signed
+// authorization as `eip7702Auth` (viem's bundler client doesn't support the field)
+export async function sendUserOperationWithAuthorization({
+  userOperation,
+  entryPointAddress,
+  authorization,
+}: {
+  userOperation: UserOperation;
+  entryPointAddress: Address;
+  authorization: SignedAuthorization;
+}): Promise<Hash> {
+  const transport = http(BUNDLER_RPC_URL)({});
+  return transport.request({
+    method: "eth_sendUserOperation",
+    params: [
+      {
+        ...formatUserOperationRequest(userOperation),
+        eip7702Auth: {
+          chainId: numberToHex(authorization.chainId),
+          address: authorization.address,
+          nonce: numberToHex(authorization.nonce),
+          yParity: numberToHex(authorization.yParity ?? 0),
+          r: authorization.r,
+          s: authorization.s,
+        },
+      },
+      entryPointAddress,
+    ],
+  }) as Promise<Hash>;
+}
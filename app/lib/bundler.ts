@@ -0,0 +1,736 @@
+import {
+  type Abi,
+  type Address,
+  type Hash,
+  type Hex,
+  type RpcTransactionReceipt,
+  type SignedAuthorization,
+  formatLog,
+  hexToBigInt,
+  hexToNumber,
+  isAddress,
+  isHex,
+  numberToHex,
+  slice,
+} from "viem";
+import {
+  type RpcUserOperation,
+  type UserOperation,
+  formatUserOperation,
+  formatUserOperationRequest,
+} from "viem/account-abstraction";
+import { ENTRYPOINT_ABI } from "./abi/EntryPoint";
+import {
+  type EntryPointConfig,
+  type EntryPointVersion,
+  ENTRYPOINTS,
+  encodeHandleOps,
+  getEntryPointVersion,
+  getUserOperationHashForEntryPoint,
+  isEip7702InitCode,
+  toEntryPointUserOperation,
+} from "./entrypoint";
+import { getRelayerAccount, getRelayerPublicClient, sendRelayerTransaction } from "./relayer-signer";
+import { verifyAuthorizationList } from "./authorization-utils";
+import { authorizeRelayerUpgrade } from "./relayer-policy";
+import { settleSponsorship } from "./paymaster";
+import { baseSepolia } from "./chains";
+import { MAGIC_PREFIX } from "./constants";
+import { decodeRevert, getRevertData } from "./simulation-utils";
+import { publishJobEvent, subscribeJobEvents, watchRelayerTransaction } from "./job-events";
+import { type JobEvent, isTerminalJobEvent } from "./job-stream";
+import { type MempoolAddResult, type MempoolEntry, addToMempool, getMempoolEntries, removeFromMempool, selectBundle } from "./mempool";
+import { getStore } from "./store";
+import { simulateUserOperationValidation } from "./user-operation-validation";
+import { type UserOperationGasEstimateResult, estimateUserOperationGasLimits } from "./user-operation-gas";
+import { getUserOperationOutcomes } from "./user-operation-receipt";
+
+// Server-only: a minimal ERC-4337 bundler for the v0.6 and v0.7 EntryPoints, served as JSON-RPC
+// from `/api/bundler`. Accepted user operations wait in the mempool until a bundle of them (all for
+// the same EntryPoint) is submitted in one `handleOps` transaction, paid for by the relayer. Each op's progress is
+// published as a job keyed by its userOp hash.
+
+// JSON-RPC error codes used by ERC-4337 bundlers
+export const BUNDLER_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  // Rejected by the EntryPoint's validation (e.g. FailedOp)
+  REJECTED_BY_ENTRYPOINT: -32500,
+  // Rejected by the paymaster's validation
+  REJECTED_BY_PAYMASTER: -32501,
+  // validUntil has passed (or is too close), or validAfter is in the future
+  OUT_OF_TIME_RANGE: -32503,
+  // The account's validateUserOp reported a signature failure
+  INVALID_SIGNATURE: -32507,
+  // The user operation's call reverted during estimation
+  EXECUTION_REVERTED: -32521,
+} as const;
+
+// Thrown by bundler methods and returned to the caller as a JSON-RPC error object
+export class BundlerRpcError extends Error {
+  code: number;
+  data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = "BundlerRpcError";
+    this.code = code;
+    this.data = data;
+  }
+}
+
+// A user operation this bundler has submitted, as persisted in the `bundler` store
+type BundledUserOperation = {
+  userOpHash: Hash;
+  // Includes `eip7702Auth` for a v0.8 op that installs its sender's delegation
+  userOperation: RpcUserOperation & { eip7702Auth?: RpcEip7702Auth };
+  entryPoint: Address;
+  // First broadcast hash of the handleOps transaction that bundled it, once bundled; the mined one
+  // may be a fee-bumped replacement
+  transactionHash?: Hash;
+  // Block number (decimal) before submission, where log searches for its UserOperationEvent start
+  submittedAtBlock: string;
+  submittedAt: number;
+};
+
+const STORE_NAME = "bundler";
+
+// A bundle is submitted once this many ops are waiting, or when the oldest has waited this long
+const MAX_BUNDLE_SIZE = Math.max(1, Number(process.env.BUNDLER_MAX_BUNDLE_SIZE || 5));
+const BUNDLE_INTERVAL_MS = Number(process.env.BUNDLER_BUNDLE_INTERVAL_MS || 5_000);
+
+// After a submission fails for a reason no single op is blamed for (an RPC outage, the relayer's
+// spend policy), the next attempt waits this long, doubling on each further failure up to the cap
+const BUNDLE_RETRY_BASE_MS = BUNDLE_INTERVAL_MS;
+const BUNDLE_RETRY_MAX_MS = 5 * 60_000;
+
+// Keep the bundling timer, in-flight bundle, retry backoff and mempool restore on globalThis so
+// every route shares them
+const globalForBundler = globalThis as typeof globalThis & {
+  __bundleTimer?: ReturnType<typeof setTimeout>;
+  __bundling?: Promise<void>;
+  __bundleRetryMs?: number;
+  __mempoolRestored?: Promise<void>;
+};
+
+function opKey(userOpHash: Hash) {
+  return `op:${userOpHash.toLowerCase()}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// A signed EIP-7702 authorization as carried in a v0.8 userOp's `eip7702Auth` field
+type RpcEip7702Auth = {
+  chainId: Hex;
+  address: Address;
+  nonce: Hex;
+  yParity: Hex;
+  r: Hex;
+  s: Hex;
+};
+
+// The JSON-RPC fields of a user operation for each EntryPoint version. Hex fields are bytes and
+// quantity fields are numbers; optional ones may be omitted.
+const USER_OPERATION_FIELDS: Record<
+  EntryPointVersion,
+  { hex: readonly string[]; quantity: readonly string[]; optionalHex: readonly string[]; optionalQuantity: readonly string[] }
+> = {
+  "0.6": {
+    hex: ["initCode", "callData", "paymasterAndData", "signature"],
+    quantity: ["nonce", "callGasLimit", "verificationGasLimit", "preVerificationGas", "maxFeePerGas", "maxPriorityFeePerGas"],
+    optionalHex: [],
+    optionalQuantity: [],
+  },
+  "0.7": {
+    hex: ["callData", "signature"],
+    quantity: ["nonce", "callGasLimit", "verificationGasLimit", "preVerificationGas", "maxFeePerGas", "maxPriorityFeePerGas"],
+    optionalHex: ["factoryData", "paymasterData"],
+    optionalQuantity: ["paymasterVerificationGasLimit", "paymasterPostOpGasLimit"],
+  },
+  "0.8": {
+    hex: ["callData", "signature"],
+    quantity: ["nonce", "callGasLimit", "verificationGasLimit", "preVerificationGas", "maxFeePerGas", "maxPriorityFeePerGas"],
+    optionalHex: ["factoryData", "paymasterData"],
+    optionalQuantity: ["paymasterVerificationGasLimit", "paymasterPostOpGasLimit"],
+  },
+};
+
+// Fields that must be present even in a partial op
+const REQUIRED_FIELDS = ["callData", "nonce"];
+
+// Validates a user operation in JSON-RPC form for the given EntryPoint version. Gas and fee fields
+// may be omitted when `partial` is set (for estimation), in which case they default to zero.
+export function parseUserOperation(
+  value: unknown,
+  { partial = false, version = "0.6" }: { partial?: boolean; version?: EntryPointVersion } = {}
+): UserOperation {
+  if (!isRecord(value)) {
+    throw new BundlerRpcError(BUNDLER_ERROR_CODES.INVALID_PARAMS, "userOp must be an object");
+  }
+  if (typeof value.sender !== "string" || !isAddress(value.sender, { strict: false })) {
+    throw new BundlerRpcError(BUNDLER_ERROR_CODES.INVALID_PARAMS, "userOp.sender must be an address");
+  }
+
+  const fields = USER_OPERATION_FIELDS[version];
+  const rpc: Record<string, unknown> = { sender: value.sender };
+  const readField = (field: string, kind: "bytes" | "quantity", optional: boolean) => {
+    const defaultValue = partial && !REQUIRED_FIELDS.includes(field) ? (kind === "bytes" ? "0x" : "0x0") : undefined;
+    const fieldValue = value[field] ?? (optional ? undefined : defaultValue);
+    if (fieldValue === undefined && optional) return;
+    if (typeof fieldValue !== "string" || !isHex(fieldValue)) {
+      throw new BundlerRpcError(
+        BUNDLER_ERROR_CODES.INVALID_PARAMS,
+        `userOp.${field} must be ${kind === "bytes" ? "hex bytes" : "a hex quantity"}`
+      );
+    }
+    rpc[field] = fieldValue;
+  };
+  fields.hex.forEach((field) => readField(field, "bytes", false));
+  fields.quantity.forEach((field) => readField(field, "quantity", false));
+  fields.optionalHex.forEach((field) => readField(field, "bytes", true));
+  fields.optionalQuantity.forEach((field) => readField(field, "quantity", true));
+
+  // v0.7 and later split initCode and paymasterAndData into an address and its data
+  if (version !== "0.6") {
+    const addressFields = ["factory", "paymaster"];
+    for (let i = 0; i < addressFields.length; i++) {
+      const field = addressFields[i];
+      if (value[field] === undefined || value[field] === null) continue;
+      if (typeof value[field] !== "string" || !isAddress(value[field] as string, { strict: false })) {
+        throw new BundlerRpcError(BUNDLER_ERROR_CODES.INVALID_PARAMS, `userOp.${field} must be an address`);
+      }
+      rpc[field] = value[field];
+    }
+  }
+
+  return formatUserOperation(rpc as RpcUserOperation) as UserOperation;
+}
+
+// Reads a userOp's `eip7702Auth` field, if it has one
+function parseEip7702Auth(value: unknown): SignedAuthorization | undefined {
+  if (!isRecord(value) || value.eip7702Auth === undefined || value.eip7702Auth === null) return;
+  const auth = value.eip7702Auth;
+  const quantities = ["chainId", "nonce", "yParity", "r", "s"];
+  if (
+    !isRecord(auth) ||
+    typeof auth.address !== "string" ||
+    !isAddress(auth.address, { strict: false }) ||
+    quantities.some((field) => typeof auth[field] !== "string" || !isHex(auth[field]))
+  ) {
+    throw new BundlerRpcError(
+      BUNDLER_ERROR_CODES.INVALID_PARAMS,
+      "userOp.eip7702Auth must have an address and hex chainId, nonce, yParity, r and s"
+    );
+  }
+  return {
+    address: auth.address,
+    chainId: hexToNumber(auth.chainId as Hex),
+    nonce: hexToNumber(auth.nonce as Hex),
+    yParity: hexToNumber(auth.yParity as Hex),
+    r: numberToHex(hexToBigInt(auth.r as Hex), { size: 32 }),
+    s: numberToHex(hexToBigInt(auth.s as Hex), { size: 32 }),
+  };
+}
+
+function toRpcEip7702Auth(authorization: SignedAuthorization): RpcEip7702Auth {
+  return {
+    chainId: numberToHex(authorization.chainId),
+    address: authorization.address,
+    nonce: numberToHex(authorization.nonce),
+    yParity: numberToHex(authorization.yParity ?? 0),
+    r: authorization.r,
+    s: authorization.s,
+  };
+}
+
+// The delegate an EIP-7702 sender uses: the one its authorization installs, or else the one already installed
+async function getSenderDelegate(sender: Address, authorization?: SignedAuthorization): Promise<Address | undefined> {
+  if (authorization) return authorization.address;
+  const code = await getRelayerPublicClient().getCode({ address: sender });
+  return code?.toLowerCase().startsWith(MAGIC_PREFIX) ? slice(code, 3, 23) : undefined;
+}
+
+// Checks the v0.8 EIP-7702 parts of an op: an authorization is only accepted alongside the 7702
+// initCode marker and must be signed by the sender for an allowed delegate
+async function assertValidEip7702Auth(
+  userOp: UserOperation,
+  entryPoint: EntryPointConfig,
+  authorization: SignedAuthorization | undefined
+) {
+  if (!authorization) return;
+  const { initCode } = toEntryPointUserOperation(userOp, entryPoint.version);
+  if (entryPoint.version !== "0.8" || !initCode || !isEip7702InitCode(initCode)) {
+    throw new BundlerRpcError(
+      BUNDLER_ERROR_CODES.INVALID_PARAMS,
+      "userOp.eip7702Auth is only supported for EntryPoint v0.8 ops whose initCode starts with the 0x7702 marker"
+    );
+  }
+
+  const issues = await verifyAuthorizationList(getRelayerPublicClient(), {
+    authorizationList: [authorization],
+    targetAddress: userOp.sender,
+    chainId: baseSepolia.id,
+  });
+  if (issues.length > 0) {
+    throw new BundlerRpcError(BUNDLER_ERROR_CODES.INVALID_PARAMS, issues.map(({ message }) => message).join("; "), {
+      issues,
+    });
+  }
+}
+
+function assertSupportedEntryPoint(entryPoint: unknown): EntryPointConfig {
+  const version = typeof entryPoint === "string" ? getEntryPointVersion(entryPoint) : undefined;
+  if (!version) {
+    const supported = Object.values(ENTRYPOINTS).map(({ address }) => address);
+    throw new BundlerRpcError(
+      BUNDLER_ERROR_CODES.INVALID_PARAMS,
+      `Unsupported entryPoint ${String(entryPoint)}; this bundler supports ${supported.join(", ")}`
+    );
+  }
+  return ENTRYPOINTS[version];
+}
+
+// Turns a revert from the EntryPoint into a JSON-RPC error, decoding FailedOp (and v0.7's
+// FailedOpWithRevert) where possible
+function toBundlerError(error: unknown, code: number, abi: Abi = ENTRYPOINT_ABI): BundlerRpcError {
+  const data = getRevertData(error);
+  const revert = data ? decodeRevert(data, abi) : undefined;
+  if (revert?.errorName === "FailedOp" || revert?.errorName === "FailedOpWithRevert") {
+    const [opIndex, reason] = revert.args as [string, string];
+    return new BundlerRpcError(code, `FailedOp: ${reason}`, { opIndex, reason, revertData: data });
+  }
+  const message = revert
+    ? `${revert.errorName}${revert.args.length ? `: ${revert.args.join(", ")}` : ""}`
+    : error instanceof Error
+      ? ((error as Error & { shortMessage?: string }).shortMessage ?? error.message)
+      : String(error);
+  return new BundlerRpcError(code, message, data ? { revertData: data } : undefined);
+}
+
+// Ops are hashed locally rather than by the EntryPoint's getUserOpHash. For a v0.8 op from an EIP-7702
+// sender the hash commits to its delegate, taken from its authorization when the delegation isn't
+// installed until the bundle lands.
+async function getUserOpHash(
+  userOp: UserOperation,
+  entryPoint: EntryPointConfig,
+  authorization?: SignedAuthorization
+): Promise<Hash> {
+  return getUserOperationHashForEntryPoint(userOp, entryPoint.version, {
+    chainId: baseSepolia.id,
+    delegate: entryPoint.version === "0.8" ? await getSenderDelegate(userOp.sender, authorization) : undefined,
+  });
+}
+
+// Runs the op through `simulateValidation`, throwing the EntryPoint's AA code and reason if it
+// would fail, pay no prefund or be out of its validity window
+async function assertValidUserOperation(
+  userOp: UserOperation,
+  entryPoint: EntryPointConfig,
+  authorization?: SignedAuthorization
+) {
+  const validation = await simulateUserOperationValidation(getRelayerPublicClient(), userOp, {
+    entryPoint,
+    beneficiary: getRelayerAccount().address,
+    authorizationList: authorization ? [authorization] : undefined,
+  }).catch((error) => {
+    throw toBundlerError(error, BUNDLER_ERROR_CODES.REJECTED_BY_ENTRYPOINT, entryPoint.abi);
+  });
+  if (validation.valid) return;
+
+  const code =
+    validation.reason === "SIGNATURE_FAILED"
+      ? BUNDLER_ERROR_CODES.INVALID_SIGNATURE
+      : validation.reason === "EXPIRED" || validation.reason === "NOT_YET_VALID"
+        ? BUNDLER_ERROR_CODES.OUT_OF_TIME_RANGE
+        : validation.aaCode?.startsWith("AA3")
+          ? BUNDLER_ERROR_CODES.REJECTED_BY_PAYMASTER
+          : BUNDLER_ERROR_CODES.REJECTED_BY_ENTRYPOINT;
+  throw new BundlerRpcError(code, validation.message, { aaCode: validation.aaCode, reason: validation.reason });
+}
+
+// eth_estimateUserOperationGas: searches the op's gas limits with the EntryPoint's own simulation
+// (see user-operation-gas.ts). A v0.8 op's `eip7702Auth` is applied as a state override. The
+// paymaster gas limits are returned for v0.7 and v0.8 ops with a paymaster.
+export async function estimateUserOperationGas(rawUserOp: unknown, entryPointAddress: unknown) {
+  const entryPoint = assertSupportedEntryPoint(entryPointAddress);
+  const userOp = parseUserOperation(rawUserOp, { partial: true, version: entryPoint.version });
+  const authorization = parseEip7702Auth(rawUserOp);
+  await assertValidEip7702Auth(userOp, entryPoint, authorization);
+
+  let estimate: UserOperationGasEstimateResult;
+  try {
+    estimate = await estimateUserOperationGasLimits(getRelayerPublicClient(), userOp, {
+      entryPoint,
+      authorizationList: authorization ? [authorization] : undefined,
+    });
+  } catch (error) {
+    throw toBundlerError(error, BUNDLER_ERROR_CODES.INTERNAL_ERROR, entryPoint.abi);
+  }
+  if (!estimate.success) {
+    const code =
+      estimate.reason === "EXECUTION_REVERTED"
+        ? BUNDLER_ERROR_CODES.EXECUTION_REVERTED
+        : estimate.aaCode?.startsWith("AA3")
+          ? BUNDLER_ERROR_CODES.REJECTED_BY_PAYMASTER
+          : BUNDLER_ERROR_CODES.REJECTED_BY_ENTRYPOINT;
+    throw new BundlerRpcError(code, estimate.message, { aaCode: estimate.aaCode, revertData: estimate.revertData });
+  }
+
+  return {
+    preVerificationGas: numberToHex(estimate.gas.preVerificationGas),
+    verificationGasLimit: numberToHex(estimate.gas.verificationGasLimit),
+    callGasLimit: numberToHex(estimate.gas.callGasLimit),
+    ...(estimate.gas.paymasterVerificationGasLimit !== undefined && {
+      paymasterVerificationGasLimit: numberToHex(estimate.gas.paymasterVerificationGasLimit),
+    }),
+    ...(estimate.gas.paymasterPostOpGasLimit !== undefined && {
+      paymasterPostOpGasLimit: numberToHex(estimate.gas.paymasterPostOpGasLimit),
+    }),
+  };
+}
+
+// eth_sendUserOperation: validates the op and adds it to the mempool, returning its hash. An op
+// with the same sender and nonce as a pending one replaces it if it bumps both fee fields enough.
+export async function sendUserOperation(rawUserOp: unknown, entryPointAddress: unknown): Promise<Hash> {
+  const entryPoint = assertSupportedEntryPoint(entryPointAddress);
+  const userOp = parseUserOperation(rawUserOp, { version: entryPoint.version });
+  const authorization = parseEip7702Auth(rawUserOp);
+  const userOpHash = await getUserOpHash(userOp, entryPoint, authorization);
+  const store = getStore(STORE_NAME);
+  await restoreMempool();
+
+  const existing = await store.get<BundledUserOperation>(opKey(userOpHash));
+  if (existing) return userOpHash;
+
+  publishJobEvent(userOpHash, { type: "status", message: `UserOperation ${userOpHash} received from ${userOp.sender}` });
+  // Upgrading an EOA through a bundle counts toward the same per-address limit as a relayed upgrade
+  let releaseUpgrade: (() => Promise<void>) | undefined;
+  try {
+    await assertValidEip7702Auth(userOp, entryPoint, authorization);
+    await assertValidUserOperation(userOp, entryPoint, authorization);
+    if (authorization) {
+      const decision = await authorizeRelayerUpgrade(userOp.sender);
+      if (!decision.allowed) {
+        throw new BundlerRpcError(BUNDLER_ERROR_CODES.REJECTED_BY_ENTRYPOINT, decision.message, {
+          code: decision.code,
+        });
+      }
+      releaseUpgrade = decision.release;
+    }
+  } catch (error) {
+    publishJobEvent(userOpHash, { type: "failed", error: (error as Error).message });
+    throw error;
+  }
+  publishJobEvent(userOpHash, { type: "status", message: "Validation simulated successfully" });
+
+  const submittedAtBlock = await getRelayerPublicClient().getBlockNumber();
+  let added: MempoolAddResult;
+  try {
+    added = addToMempool({ userOpHash, userOp, entryPoint: entryPoint.version, authorization, receivedAt: Date.now() });
+  } catch (error) {
+    await releaseUpgrade?.();
+    throw error;
+  }
+  if (added.status !== "added" && added.status !== "replaced") await releaseUpgrade?.();
+  if (added.status === "underpriced") {
+    const message =
+      `Replacement underpriced: a UserOperation with nonce ${userOp.nonce} is already pending for ${userOp.sender}; ` +
+      `replacing it needs maxFeePerGas >= ${added.minMaxFeePerGas} and maxPriorityFeePerGas >= ${added.minMaxPriorityFeePerGas}`;
+    publishJobEvent(userOpHash, { type: "failed", error: message });
+    throw new BundlerRpcError(BUNDLER_ERROR_CODES.INVALID_PARAMS, message, { pending: added.existing.userOpHash });
+  }
+  if (added.status === "duplicate") return userOpHash;
+  if (added.status === "replaced") {
+    publishJobEvent(added.replaced.userOpHash, { type: "failed", error: `Replaced by UserOperation ${userOpHash}` });
+    await store.delete(opKey(added.replaced.userOpHash));
+  }
+
+  await store.set<BundledUserOperation>(opKey(userOpHash), {
+    userOpHash,
+    userOperation: {
+      ...(formatUserOperationRequest(userOp) as RpcUserOperation),
+      ...(authorization ? { eip7702Auth: toRpcEip7702Auth(authorization) } : {}),
+    },
+    entryPoint: entryPoint.address,
+    submittedAtBlock: submittedAtBlock.toString(),
+    submittedAt: Date.now(),
+  });
+  publishJobEvent(userOpHash, {
+    type: "status",
+    message: `Waiting in the mempool (${getMempoolEntries().length} pending)`,
+  });
+  scheduleBundle();
+
+  return userOpHash;
+}
+
+// The mempool lives in memory, so after a restart it is refilled from the ops the store still has
+// waiting (accepted but not yet bundled). Runs once per process, the first time the bundler
+// accepts, bundles or looks up an op.
+function restoreMempool(): Promise<void> {
+  globalForBundler.__mempoolRestored ??= getStore(STORE_NAME)
+    .entries<BundledUserOperation>("op:")
+    .then((ops) => {
+      ops.forEach(([, op]) => {
+        const version = getEntryPointVersion(op.entryPoint);
+        if (op.transactionHash || !version) return;
+        try {
+          addToMempool({
+            userOpHash: op.userOpHash,
+            userOp: parseUserOperation(op.userOperation, { version }),
+            entryPoint: version,
+            authorization: parseEip7702Auth(op.userOperation),
+            receivedAt: op.submittedAt,
+          });
+        } catch (error) {
+          console.error(`Could not restore UserOperation ${op.userOpHash} to the mempool:`, error);
+        }
+      });
+      if (getMempoolEntries().length > 0) scheduleBundle();
+    })
+    .catch((error) => console.error("Mempool restore failed:", error));
+  return globalForBundler.__mempoolRestored;
+}
+
+// Submits a bundle right away if enough ops are waiting, otherwise once the interval elapses. While
+// backing off from a failed submission, waits out the backoff instead.
+function scheduleBundle() {
+  const retryMs = globalForBundler.__bundleRetryMs;
+  if (!retryMs && getMempoolEntries().length >= MAX_BUNDLE_SIZE) {
+    void flushBundle();
+  } else if (!globalForBundler.__bundleTimer) {
+    globalForBundler.__bundleTimer = setTimeout(() => void flushBundle(), retryMs || BUNDLE_INTERVAL_MS);
+  }
+}
+
+// Submits the next bundle from the mempool. Bundles are submitted one at a time.
+export function flushBundle(): Promise<void> {
+  clearTimeout(globalForBundler.__bundleTimer);
+  globalForBundler.__bundleTimer = undefined;
+
+  const bundling = (globalForBundler.__bundling ?? Promise.resolve())
+    .then(submitBundle)
+    .catch((error) => console.error("Bundle submission failed:", error))
+    .finally(() => {
+      if (getMempoolEntries().length > 0) scheduleBundle();
+    });
+  globalForBundler.__bundling = bundling;
+  return bundling;
+}
+
+function dropFromMempool(entry: MempoolEntry, error: string) {
+  removeFromMempool(entry.userOpHash);
+  publishJobEvent(entry.userOpHash, { type: "failed", error });
+  void getStore(STORE_NAME).delete(opKey(entry.userOpHash));
+}
+
+async function submitBundle() {
+  await restoreMempool();
+  const selected = selectBundle(MAX_BUNDLE_SIZE);
+  if (selected.length === 0) return;
+  const entryPoint = ENTRYPOINTS[selected[0].entryPoint];
+
+  // Chain state may have moved since the ops were accepted, so validate them again
+  const validated = await Promise.all(
+    selected.map((entry) =>
+      assertValidUserOperation(entry.userOp, entryPoint, entry.authorization).then(
+        () => true,
+        (error) => {
+          dropFromMempool(entry, (error as Error).message);
+          return false;
+        }
+      )
+    )
+  );
+  let bundle = selected.filter((_, i) => validated[i]);
+
+  let transactionHash: Hash | undefined;
+  while (!transactionHash && bundle.length > 0) {
+    try {
+      // Ops that install their sender's EIP-7702 delegation make this a type-4 transaction
+      const authorizationList = bundle.flatMap((entry) => (entry.authorization ? [entry.authorization] : []));
+      transactionHash = await sendRelayerTransaction({
+        to: entryPoint.address,
+        data: encodeHandleOps(
+          entryPoint,
+          bundle.map((entry) => entry.userOp),
+          getRelayerAccount().address
+        ),
+        authorizationList: authorizationList.length > 0 ? authorizationList : undefined,
+        operation: "handleOps",
+        beneficiary: bundle.length === 1 ? bundle[0].userOp.sender : undefined,
+      });
+    } catch (error) {
+      // Drop the op a decoded FailedOp blamed and retry without it
+      const rpcError = toBundlerError(error, BUNDLER_ERROR_CODES.REJECTED_BY_ENTRYPOINT, entryPoint.abi);
+      const opIndex = (rpcError.data as { opIndex?: string } | undefined)?.opIndex;
+      const blamed = opIndex === undefined ? undefined : bundle[Number(opIndex)];
+      if (blamed) {
+        dropFromMempool(blamed, rpcError.message);
+        bundle = bundle.filter((entry) => entry !== blamed);
+        continue;
+      }
+
+      // Nothing says the ops are at fault, so they stay in the mempool for a later attempt
+      const retryMs = Math.min(
+        globalForBundler.__bundleRetryMs ? globalForBundler.__bundleRetryMs * 2 : BUNDLE_RETRY_BASE_MS,
+        BUNDLE_RETRY_MAX_MS
+      );
+      globalForBundler.__bundleRetryMs = retryMs;
+      console.error(`Bundle submission failed, retrying in ${retryMs / 1000}s:`, error);
+      bundle.forEach((entry) =>
+        publishJobEvent(entry.userOpHash, {
+          type: "status",
+          message: `Bundle submission failed (${rpcError.message}); retrying in ${retryMs / 1000}s`,
+        })
+      );
+      return;
+    }
+  }
+  if (!transactionHash) return;
+  globalForBundler.__bundleRetryMs = undefined;
+
+  const store = getStore(STORE_NAME);
+  await Promise.all(
+    bundle.map(async (entry) => {
+      removeFromMempool(entry.userOpHash);
+      await store.update<BundledUserOperation>(opKey(entry.userOpHash), (op) => ({ ...op!, transactionHash }));
+      publishJobEvent(entry.userOpHash, {
+        type: "status",
+        message: `Bundled with ${bundle.length - 1} other UserOperation(s) in ${transactionHash}`,
+      });
+    })
+  );
+  followBundle(transactionHash, bundle, entryPoint);
+}
+
+// Follows a bundle's handleOps transaction (as a job keyed by its hash) and relays its progress to
+// each op's own job. Once mined, each op is matched to its UserOperationEvent: an op whose call
+// reverted ends with a `reverted` event carrying the decoded reason, even though the bundle succeeded.
+function followBundle(transactionHash: Hash, bundle: MempoolEntry[], entryPoint: EntryPointConfig) {
+  const finished = new Set<Hash>();
+  let forwarding = Promise.resolve();
+
+  const forward = async (event: JobEvent) => {
+    bundle.forEach(({ userOpHash }) => {
+      if (!finished.has(userOpHash)) publishJobEvent(userOpHash, event);
+    });
+    if (event.type !== "mined") return;
+
+    const receipt = await getRelayerPublicClient().getTransactionReceipt({ hash: event.hash });
+    const outcomes = getUserOperationOutcomes(receipt.logs);
+    // Sponsored ops settle their reservations now instead of once their sponsorships expire
+    await Promise.all(
+      outcomes.map(({ userOpHash, actualGasCost }) => settleSponsorship(userOpHash, actualGasCost))
+    );
+    bundle.forEach(({ userOpHash }) => {
+      const outcome = outcomes.find((candidate) => candidate.userOpHash.toLowerCase() === userOpHash.toLowerCase());
+      if (!outcome) {
+        publishJobEvent(userOpHash, { type: "status", message: "UserOperation not found in the bundle's logs" });
+      } else if (outcome.success) {
+        publishJobEvent(userOpHash, {
+          type: "status",
+          message: `UserOperation succeeded (gas used: ${outcome.actualGasUsed}, cost: ${outcome.actualGasCost} wei)`,
+        });
+      } else {
+        finished.add(userOpHash);
+        publishJobEvent(userOpHash, {
+          type: "reverted",
+          hash: event.hash,
+          reason: `UserOperation failed: ${outcome.revertReason}`,
+        });
+      }
+    });
+  };
+
+  const unsubscribe = subscribeJobEvents(transactionHash, (event) => {
+    if (isTerminalJobEvent(event)) unsubscribe();
+    forwarding = forwarding.then(() => forward(event)).catch((error) => console.error("Bundle event error:", error));
+  });
+  void watchRelayerTransaction(transactionHash, transactionHash, { abi: entryPoint.abi });
+}
+
+// Finds the UserOperationEvent the EntryPoint emitted for a submitted op, if it has been included
+async function findUserOperationEvent(op: BundledUserOperation) {
+  // The event is the same in both EntryPoint versions
+  const logs = await getRelayerPublicClient().getContractEvents({
+    address: op.entryPoint,
+    abi: ENTRYPOINT_ABI,
+    eventName: "UserOperationEvent",
+    args: { userOpHash: op.userOpHash },
+    fromBlock: BigInt(op.submittedAtBlock),
+    strict: true,
+  });
+  return logs.at(0);
+}
+
+// eth_getUserOperationByHash: the op as submitted, with where it was included (null until mined)
+export async function getUserOperationByHash(userOpHash: Hash) {
+  await restoreMempool();
+  const op = await getStore(STORE_NAME).get<BundledUserOperation>(opKey(userOpHash));
+  if (!op) return null;
+
+  // Still waiting in the mempool
+  const event = op.transactionHash ? await findUserOperationEvent(op) : undefined;
+  return {
+    userOperation: op.userOperation,
+    entryPoint: op.entryPoint,
+    transactionHash: event?.transactionHash ?? null,
+    blockHash: event?.blockHash ?? null,
+    blockNumber: event ? numberToHex(event.blockNumber!) : null,
+  };
+}
+
+// eth_getUserOperationReceipt: the op's outcome from its UserOperationEvent (and UserOperationRevertReason,
+// if its call reverted), with the logs it emitted and the receipt of the handleOps transaction that
+// included it (null until mined)
+export async function getUserOperationReceipt(userOpHash: Hash) {
+  await restoreMempool();
+  const op = await getStore(STORE_NAME).get<BundledUserOperation>(opKey(userOpHash));
+  if (!op?.transactionHash) return null;
+
+  const event = await findUserOperationEvent(op);
+  if (!event) return null;
+
+  const receipt = (await getRelayerPublicClient().request({
+    method: "eth_getTransactionReceipt",
+    params: [event.transactionHash!],
+  })) as RpcTransactionReceipt;
+
+  // The op's own logs are those between the previous op's UserOperationEvent and its own
+  const eventTopic = event.topics[0];
+  const eventIndex = receipt.logs.findIndex((log) => log.logIndex === numberToHex(event.logIndex!));
+  let start = eventIndex - 1;
+  while (
+    start >= 0 &&
+    !(
+      receipt.logs[start].address.toLowerCase() === op.entryPoint.toLowerCase() &&
+      receipt.logs[start].topics[0] === eventTopic
+    )
+  ) {
+    start--;
+  }
+
+  const outcome = getUserOperationOutcomes(receipt.logs.map((log) => formatLog(log))).find(
+    (candidate) => candidate.userOpHash.toLowerCase() === op.userOpHash.toLowerCase()
+  );
+
+  return {
+    userOpHash: op.userOpHash,
+    entryPoint: op.entryPoint,
+    sender: event.args.sender,
+    nonce: numberToHex(event.args.nonce),
+    paymaster: event.args.paymaster,
+    actualGasCost: numberToHex(event.args.actualGasCost),
+    actualGasUsed: numberToHex(event.args.actualGasUsed),
+    success: event.args.success,
+    reason: outcome?.revertReason,
+    logs: receipt.logs.slice(start + 1, eventIndex),
+    receipt,
+  };
+}
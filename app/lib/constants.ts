@@ -21,9 +21,21 @@ export const FOREIGN_1967_IMPLEMENTATION = "0x011056384Cb0C3F6B999A65d9f664a8359
 // MultiOwnableStorageEraser has function that can erase nextOwnerIndex storage slot
 export const STORAGE_ERASER_ADDRESS = "0xf88cBE56c3b636747AD8FF21890A6B96954eE5E8" as const;
 
-// Standard EntryPoint address (same across networks)
+// Standard EntryPoint address, v0.6 (same across networks)
 export const ENTRYPOINT_ADDRESS = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789" as const;
 
+// EntryPoint v0.7, which takes PackedUserOperations (same across networks)
+export const ENTRYPOINT_V07_ADDRESS = "0x0000000071727De22E5E9d8BAf0edAc6f37da032" as const;
+
+// EntryPoint v0.8, which adds EIP-7702 support and EIP-712 userOp hashes (same across networks)
+export const ENTRYPOINT_V08_ADDRESS = "0x4337084D9E255Ff0702461CF8895CE9E3b5Ff108" as const;
+
+// OP Stack GasPriceOracle predeploy, which prices the L1 data fee of L2 transactions
+export const GAS_PRICE_ORACLE_ADDRESS = "0x420000000000000000000000000000000000000F" as const;
+
+// `initCode` prefix marking a v0.8 userOp whose sender is an EIP-7702 delegated EOA ("0x7702", zero-padded to 20 bytes)
+export const EIP7702_INITCODE_MARKER = "0x7702000000000000000000000000000000000000" as const;
+
 // Zero address
 export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000" as const;
 
@@ -3,8 +3,6 @@ import { NONCE_TRACKER_ADDRESS, ERC1967_IMPLEMENTATION_SLOT, MAGIC_PREFIX, EIP77
 import type { P256Credential } from "viem/account-abstraction";
 import { ENTRYPOINT_ABI } from "./abi/EntryPoint";
 
-export const MIN_DEPOSIT = BigInt("100000000000000000"); // 0.1 ETH
-
 // Gets the next nonce for the account in the NonceTracker contract,
 // used for calls to `EIP7702Proxy.setImplementation`.
 export async function getNonceFromTracker(
@@ -113,7 +111,7 @@ export async function checkContractState(
 export async function verifyPasskeyOwnership(
   publicClient: PublicClient,
   walletAddress: Address,
-  passkey: P256Credential
+  passkey: Pick<P256Credential, "publicKey">
 ): Promise<boolean> {
   // Remove the 0x prefix and the 04 format byte to get just the coordinates
   const pubKeyWithoutPrefix = passkey.publicKey.slice(2); // Remove '0x'
@@ -161,7 +159,6 @@ export async function verifyPasskeyOwnership(
 export type AccountBalances = {
   accountBalance: bigint;
   entryPointDeposit: bigint;
-  needsDeposit: boolean;
 };
 
 // Checks the balances of the account at the given address, including the account balance and its current entrypoint deposit
@@ -183,6 +180,5 @@ export async function checkAccountBalances(
   return {
     accountBalance,
     entryPointDeposit,
-    needsDeposit: entryPointDeposit < MIN_DEPOSIT
   };
 }
@@ -0,0 +1,168 @@
+import { type Address, type Hash, type Hex, type PublicClient, encodeFunctionData } from "viem";
+import { ENTRYPOINT_ADDRESS } from "./constants";
+import { ENTRYPOINT_ABI } from "./abi/EntryPoint";
+
+// A smart wallet's EntryPoint v0.6 deposit: what it holds, how much it should hold, and how it got
+// there. The deposit can only be withdrawn by the wallet itself, so refunding it is a call in one
+// of the wallet's own user operations, signed by one of its owners. Batched last in an op a
+// paymaster pays for, the whole deposit is withdrawable; an op paying from the deposit could only
+// withdraw what is left after its prefund.
+
+type Call = { to: Address; value: bigint; data: Hex };
+
+// `IStakeManager.DepositInfo` for an account. `withdrawTime` is 0 unless the stake is unlocking.
+export type DepositInfo = {
+  deposit: bigint;
+  staked: boolean;
+  stake: bigint;
+  unstakeDelaySec: number;
+  withdrawTime: number;
+};
+
+// The gas fields of a user operation that decide what the EntryPoint reserves from the deposit
+export type PrefundGas = {
+  callGasLimit: bigint;
+  verificationGasLimit: bigint;
+  preVerificationGas: bigint;
+  maxFeePerGas: bigint;
+};
+
+// A `Deposited` or `Withdrawn` event for an account, oldest first in `getDepositHistory`
+export type DepositEvent =
+  | {
+      type: "deposited";
+      // The account's deposit after this event; prefunds taken for its ops emit nothing
+      totalDeposit: bigint;
+      blockNumber: bigint;
+      transactionHash: Hash;
+    }
+  | {
+      type: "withdrawn";
+      withdrawAddress: Address;
+      amount: bigint;
+      blockNumber: bigint;
+      transactionHash: Hash;
+    };
+
+// The EntryPoint reserves verification gas three times over when a paymaster is set, to cover postOp
+const PAYMASTER_VERIFICATION_GAS_MULTIPLIER = BigInt(3);
+
+// Public RPCs cap the block range of a single eth_getLogs call, so history is read in windows
+const HISTORY_WINDOW_BLOCKS = BigInt(10_000);
+
+// How far back `getDepositHistory` looks by default: about 2.5 days of 2-second Base blocks
+const DEFAULT_HISTORY_BLOCKS = BigInt(100_000);
+
+export async function getDepositInfo(publicClient: PublicClient, account: Address): Promise<DepositInfo> {
+  const info = (await publicClient.readContract({
+    address: ENTRYPOINT_ADDRESS,
+    abi: ENTRYPOINT_ABI,
+    functionName: "getDepositInfo",
+    args: [account],
+  })) as { deposit: bigint; staked: boolean; stake: bigint; unstakeDelaySec: number; withdrawTime: number };
+
+  return {
+    deposit: info.deposit,
+    staked: info.staked,
+    stake: info.stake,
+    unstakeDelaySec: Number(info.unstakeDelaySec),
+    withdrawTime: Number(info.withdrawTime),
+  };
+}
+
+// The most the EntryPoint takes from the paying deposit for one op: every gas limit at the max fee
+export function getRequiredPrefund(gas: PrefundGas, { hasPaymaster = false }: { hasPaymaster?: boolean } = {}) {
+  const verificationGas = hasPaymaster
+    ? gas.verificationGasLimit * PAYMASTER_VERIFICATION_GAS_MULTIPLIER
+    : gas.verificationGasLimit;
+  return (gas.callGasLimit + verificationGas + gas.preVerificationGas) * gas.maxFeePerGas;
+}
+
+// How much to add so `deposit` covers the prefund of `opCount` ops like the estimated one
+export function getDepositTopUp(deposit: bigint, prefund: bigint, opCount: number) {
+  const target = prefund * BigInt(opCount);
+  return { target, topUp: target > deposit ? target - deposit : BigInt(0) };
+}
+
+// The call that sends `amount` of the calling wallet's deposit to `to`
+export function getDepositWithdrawCall(to: Address, amount: bigint): Call {
+  return {
+    to: ENTRYPOINT_ADDRESS,
+    value: BigInt(0),
+    data: encodeFunctionData({
+      abi: ENTRYPOINT_ABI,
+      functionName: "withdrawTo",
+      args: [to, amount],
+    }),
+  };
+}
+
+// Reads the account's `Deposited` and `Withdrawn` events from the last `blocks` blocks
+export async function getDepositHistory(
+  publicClient: PublicClient,
+  account: Address,
+  { blocks = DEFAULT_HISTORY_BLOCKS }: { blocks?: bigint } = {}
+): Promise<DepositEvent[]> {
+  const latest = await publicClient.getBlockNumber();
+  const earliest = latest > blocks ? latest - blocks : BigInt(0);
+
+  const entries: { event: DepositEvent; logIndex: number }[] = [];
+  for (let toBlock = latest; toBlock >= earliest; toBlock -= HISTORY_WINDOW_BLOCKS) {
+    const windowStart = toBlock - HISTORY_WINDOW_BLOCKS + BigInt(1);
+    const fromBlock = windowStart > earliest ? windowStart : earliest;
+    const [deposited, withdrawn] = await Promise.all([
+      publicClient.getContractEvents({
+        address: ENTRYPOINT_ADDRESS,
+        abi: ENTRYPOINT_ABI,
+        eventName: "Deposited",
+        args: { account },
+        fromBlock,
+        toBlock,
+        strict: true,
+      }),
+      publicClient.getContractEvents({
+        address: ENTRYPOINT_ADDRESS,
+        abi: ENTRYPOINT_ABI,
+        eventName: "Withdrawn",
+        args: { account },
+        fromBlock,
+        toBlock,
+        strict: true,
+      }),
+    ]);
+
+    deposited.forEach((log) =>
+      entries.push({
+        event: {
+          type: "deposited",
+          totalDeposit: log.args.totalDeposit,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+        },
+        logIndex: log.logIndex,
+      })
+    );
+    withdrawn.forEach((log) =>
+      entries.push({
+        event: {
+          type: "withdrawn",
+          withdrawAddress: log.args.withdrawAddress,
+          amount: log.args.amount,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+        },
+        logIndex: log.logIndex,
+      })
+    );
+
+    if (fromBlock === earliest) break;
+  }
+
+  return entries
+    .sort((a, b) =>
+      a.event.blockNumber === b.event.blockNumber
+        ? a.logIndex - b.logIndex
+        : a.event.blockNumber < b.event.blockNumber ? -1 : 1
+    )
+    .map(({ event }) => event);
+}
@@ -0,0 +1,181 @@
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  concat,
+  encodeAbiParameters,
+  encodeFunctionData,
+  hashTypedData,
+  slice,
+} from "viem";
+import {
+  type PackedUserOperation,
+  type UserOperation,
+  entryPoint07Abi,
+  getUserOperationHash,
+  toPackedUserOperation,
+} from "viem/account-abstraction";
+import { EIP7702_INITCODE_MARKER, ENTRYPOINT_ADDRESS, ENTRYPOINT_V07_ADDRESS, ENTRYPOINT_V08_ADDRESS } from "./constants";
+import { ENTRYPOINT_ABI } from "./abi/EntryPoint";
+
+// The EntryPoint versions user operations can be built, signed and bundled for. v0.6 takes
+// `UserOperation`s (initCode, paymasterAndData); v0.7 takes `PackedUserOperation`s, with gas
+// limits and fees packed into `accountGasLimits` and `gasFees` and split paymaster fields.
+// v0.8 takes the same PackedUserOperation (and has the same ABI for what is used here), but hashes
+// ops as EIP-712 typed data and accepts EIP-7702 senders marked in `initCode`.
+export type EntryPointVersion = "0.6" | "0.7" | "0.8";
+
+// Each version's ABI, kept `as const` so contract calls, reads and events get viem's inferred types
+export type EntryPointAbi<version extends EntryPointVersion = EntryPointVersion> = version extends "0.6"
+  ? typeof ENTRYPOINT_ABI
+  : typeof entryPoint07Abi;
+
+// One EntryPoint version's config; without a type argument, a union narrowed by `version`
+export type EntryPointConfig<version extends EntryPointVersion = EntryPointVersion> = {
+  [v in version]: { version: v; address: Address; abi: EntryPointAbi<v> };
+}[version];
+
+// The v0.6 struct as the EntryPoint takes it, with its empty bytes fields defaulted
+export type EntryPointUserOperation06 = UserOperation<"0.6"> & { initCode: Hex; paymasterAndData: Hex };
+
+// Accounts use v0.6 unless they opt into another version
+export const DEFAULT_ENTRYPOINT_VERSION: EntryPointVersion = "0.6";
+
+export const ENTRYPOINTS: { [version in EntryPointVersion]: EntryPointConfig<version> } = {
+  "0.6": { version: "0.6", address: ENTRYPOINT_ADDRESS, abi: ENTRYPOINT_ABI },
+  "0.7": { version: "0.7", address: ENTRYPOINT_V07_ADDRESS, abi: entryPoint07Abi },
+  "0.8": { version: "0.8", address: ENTRYPOINT_V08_ADDRESS, abi: entryPoint07Abi },
+};
+
+// v0.6 takes a UserOperation; later versions take a PackedUserOperation
+export function isPackedEntryPoint(version: EntryPointVersion) {
+  return version !== "0.6";
+}
+
+const USER_OPERATION_06_TUPLE = {
+  type: "tuple",
+  components: [
+    { name: "sender", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "initCode", type: "bytes" },
+    { name: "callData", type: "bytes" },
+    { name: "callGasLimit", type: "uint256" },
+    { name: "verificationGasLimit", type: "uint256" },
+    { name: "preVerificationGas", type: "uint256" },
+    { name: "maxFeePerGas", type: "uint256" },
+    { name: "maxPriorityFeePerGas", type: "uint256" },
+    { name: "paymasterAndData", type: "bytes" },
+    { name: "signature", type: "bytes" },
+  ],
+} as const;
+
+const PACKED_USER_OPERATION_TUPLE = {
+  type: "tuple",
+  components: [
+    { name: "sender", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "initCode", type: "bytes" },
+    { name: "callData", type: "bytes" },
+    { name: "accountGasLimits", type: "bytes32" },
+    { name: "preVerificationGas", type: "uint256" },
+    { name: "gasFees", type: "bytes32" },
+    { name: "paymasterAndData", type: "bytes" },
+    { name: "signature", type: "bytes" },
+  ],
+} as const;
+
+// Returns the EntryPoint version deployed at `address`, if it is one this app supports
+export function getEntryPointVersion(address: string): EntryPointVersion | undefined {
+  const versions = Object.keys(ENTRYPOINTS) as EntryPointVersion[];
+  return versions.find((version) => ENTRYPOINTS[version].address.toLowerCase() === address.toLowerCase());
+}
+
+// The op as the EntryPoint's functions take it: the v0.6 struct with empty bytes defaulted, or the
+// v0.7 PackedUserOperation
+export function toEntryPointUserOperation(userOp: UserOperation, version: "0.6"): EntryPointUserOperation06;
+export function toEntryPointUserOperation(userOp: UserOperation, version: "0.7" | "0.8"): PackedUserOperation;
+export function toEntryPointUserOperation(
+  userOp: UserOperation,
+  version: EntryPointVersion
+): EntryPointUserOperation06 | PackedUserOperation;
+export function toEntryPointUserOperation(
+  userOp: UserOperation,
+  version: EntryPointVersion
+): EntryPointUserOperation06 | PackedUserOperation {
+  if (isPackedEntryPoint(version)) return toPackedUserOperation(userOp as UserOperation<"0.7">);
+  const op = userOp as UserOperation<"0.6">;
+  return { ...op, initCode: op.initCode ?? "0x", paymasterAndData: op.paymasterAndData ?? "0x" };
+}
+
+// ABI-encodes the op exactly as it is carried in `handleOps` calldata
+export function encodeUserOperation(userOp: UserOperation, version: EntryPointVersion): Hex {
+  const op = toEntryPointUserOperation(userOp, version);
+  return isPackedEntryPoint(version)
+    ? encodeAbiParameters([PACKED_USER_OPERATION_TUPLE], [op as PackedUserOperation])
+    : encodeAbiParameters([USER_OPERATION_06_TUPLE], [op as EntryPointUserOperation06]);
+}
+
+// Encodes a `handleOps` call carrying `userOps` for the given EntryPoint
+export function encodeHandleOps(entryPoint: EntryPointConfig, userOps: UserOperation[], beneficiary: Address): Hex {
+  if (entryPoint.version === "0.6") {
+    return encodeFunctionData({
+      abi: entryPoint.abi,
+      functionName: "handleOps",
+      args: [userOps.map((userOp) => toEntryPointUserOperation(userOp, "0.6")), beneficiary],
+    });
+  }
+  return encodeFunctionData({
+    abi: entryPoint.abi,
+    functionName: "handleOps",
+    args: [userOps.map((userOp) => toEntryPointUserOperation(userOp, entryPoint.version)), beneficiary],
+  });
+}
+
+// Whether a packed op's initCode marks its sender as an EIP-7702 delegated EOA (v0.8)
+export function isEip7702InitCode(initCode: Hex) {
+  return initCode.length >= 42 && slice(initCode, 0, 20).toLowerCase() === EIP7702_INITCODE_MARKER;
+}
+
+// Computes the hash an account signs for the given EntryPoint version. v0.8 hashes the packed op as
+// EIP-712 typed data; for an EIP-7702 sender its initCode is hashed with the marker replaced by
+// the sender's `delegate`, which must be passed (the delegation may not be installed yet).
+export function getUserOperationHashForEntryPoint(
+  userOp: UserOperation,
+  version: EntryPointVersion,
+  { chainId, delegate }: { chainId: number; delegate?: Address }
+): Hash {
+  const { address } = ENTRYPOINTS[version];
+  if (version !== "0.8") {
+    return getUserOperationHash({
+      chainId,
+      entryPointAddress: address,
+      entryPointVersion: version,
+      userOperation: userOp,
+    } as Parameters<typeof getUserOperationHash>[0]);
+  }
+
+  const packed = toPackedUserOperation(userOp as UserOperation<"0.7">);
+  let initCode = packed.initCode;
+  if (isEip7702InitCode(initCode)) {
+    if (!delegate) throw new Error("An EIP-7702 userOp hash needs the sender's delegate address");
+    initCode = initCode.length > 42 ? concat([delegate, slice(initCode, 20)]) : delegate;
+  }
+
+  return hashTypedData({
+    domain: { name: "ERC4337", version: "1", chainId, verifyingContract: address },
+    types: {
+      PackedUserOperation: [
+        { name: "sender", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "initCode", type: "bytes" },
+        { name: "callData", type: "bytes" },
+        { name: "accountGasLimits", type: "bytes32" },
+        { name: "preVerificationGas", type: "uint256" },
+        { name: "gasFees", type: "bytes32" },
+        { name: "paymasterAndData", type: "bytes" },
+      ],
+    },
+    primaryType: "PackedUserOperation",
+    message: { ...packed, initCode },
+  });
+}
@@ -58,4 +58,21 @@ export function formatGasEstimate(
   result += `\nGas price: ${cost.formatted.gwei} Gwei`;
   
   return result;
-} 
\ No newline at end of file
+} 
+/**
+ * Format the gas a mined transaction or UserOperation actually used, next to the gas it was signed with
+ * @param gasUsed - Gas units actually used
+ * @param gasPriceWei - Effective gas price paid, in wei
+ * @param signedGasUnits - Total gas limit it was signed with
+ * @returns Formatted string with the actual gas and cost
+ */
+export function formatActualGas(gasUsed: bigint, gasPriceWei: bigint, signedGasUnits: bigint) {
+  const cost = calculateGasCost(gasUsed, gasPriceWei);
+  const percentOfSigned = signedGasUnits > BigInt(0) ? Number((gasUsed * BigInt(1000)) / signedGasUnits) / 10 : 0;
+
+  let result = `Actual gas: ${gasUsed.toString()} units (${percentOfSigned}% of the ${signedGasUnits.toString()} signed)`;
+  result += `\nActual cost: ${cost.formatted.eth} ETH ($${cost.formatted.usd} USD)`;
+  result += `\nGas price paid: ${cost.formatted.gwei} Gwei`;
+
+  return result;
+}
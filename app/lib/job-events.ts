@@ -0,0 +1,160 @@
+import { type Abi, type Hash, type TransactionReceipt } from "viem";
+import { type JobEvent, type JobEventBody, isTerminalJobEvent } from "./job-stream";
+import { getRelayerPublicClient, getRelayerTransaction } from "./relayer-signer";
+import { getTransactionRevertReason } from "./simulation-utils";
+
+// Server-only: an in-process bus of job progress events, streamed to browsers over SSE.
+// Each job keeps its history so late subscribers (and reconnects) can catch up.
+
+type JobChannel = {
+  events: JobEvent[];
+  // Sequence number of the next event. Unlike `events.length` it keeps counting once the history
+  // is full, so every event gets its own SSE id.
+  nextSeq: number;
+  listeners: Set<(event: JobEvent) => void>;
+  watching: boolean;
+  updatedAt: number;
+};
+
+// Blocks to wait on top of the mined block before a transaction counts as confirmed
+const CONFIRMATIONS = 2;
+const POLLING_INTERVAL_MS = 4_000;
+// Give up on a transaction that is neither mined nor dropped after this long
+const WATCH_TIMEOUT_MS = 30 * 60_000;
+// Channels idle for longer than this are forgotten
+const CHANNEL_TTL_MS = 60 * 60_000;
+const MAX_EVENTS_PER_JOB = 200;
+
+// Keep channels on globalThis so every route shares them
+const globalForJobs = globalThis as typeof globalThis & {
+  __jobChannels?: Map<Hash, JobChannel>;
+};
+
+function getChannel(jobId: Hash): JobChannel {
+  globalForJobs.__jobChannels ??= new Map();
+  const channels = globalForJobs.__jobChannels;
+  const key = jobId.toLowerCase() as Hash;
+
+  let channel = channels.get(key);
+  if (!channel) {
+    const now = Date.now();
+    channels.forEach((idle, idleKey) => {
+      if (now - idle.updatedAt > CHANNEL_TTL_MS && idle.listeners.size === 0) channels.delete(idleKey);
+    });
+    channel = { events: [], nextSeq: 0, listeners: new Set(), watching: false, updatedAt: now };
+    channels.set(key, channel);
+  }
+  return channel;
+}
+
+// Appends an event to a job's history and delivers it to current subscribers. `body` may be
+// another job's event, which is republished under this job's id and sequence.
+export function publishJobEvent(jobId: Hash, body: JobEventBody): JobEvent {
+  const channel = getChannel(jobId);
+  const event = { ...body, jobId, seq: channel.nextSeq++, timestamp: Date.now() } as JobEvent;
+  if (channel.events.length < MAX_EVENTS_PER_JOB || isTerminalJobEvent(body)) {
+    channel.events.push(event);
+  }
+  channel.updatedAt = event.timestamp;
+  channel.listeners.forEach((listener) => listener(event));
+  return event;
+}
+
+// Returns the events published for a job so far
+export function getJobEvents(jobId: Hash): JobEvent[] {
+  return globalForJobs.__jobChannels?.get(jobId.toLowerCase() as Hash)?.events ?? [];
+}
+
+// Calls `listener` with every event published for a job from now on; returns an unsubscribe function
+export function subscribeJobEvents(jobId: Hash, listener: (event: JobEvent) => void): () => void {
+  const channel = getChannel(jobId);
+  channel.listeners.add(listener);
+  return () => {
+    channel.listeners.delete(listener);
+  };
+}
+
+// Whether a transaction watcher is already running for this job
+export function isWatchingJob(jobId: Hash): boolean {
+  return globalForJobs.__jobChannels?.get(jobId.toLowerCase() as Hash)?.watching ?? false;
+}
+
+async function findReceipt(hash: Hash): Promise<TransactionReceipt | undefined> {
+  return getRelayerPublicClient()
+    .getTransactionReceipt({ hash })
+    .catch(() => undefined);
+}
+
+// Follows a relayer transaction in the background, publishing `submitted`, `replaced`, `mined` and
+// then `confirmed` or `reverted` (with the decoded reason, using `abi`) for the job.
+// Starting a second watcher for the same job is a no-op.
+export async function watchRelayerTransaction(
+  jobId: Hash,
+  hash: Hash,
+  { abi }: { abi?: Abi } = {}
+): Promise<void> {
+  const channel = getChannel(jobId);
+  if (channel.watching) return;
+  channel.watching = true;
+
+  const publicClient = getRelayerPublicClient();
+  const sleep = () => new Promise((resolve) => setTimeout(resolve, POLLING_INTERVAL_MS));
+  const startedAt = Date.now();
+  let currentHash = hash;
+
+  try {
+    publishJobEvent(jobId, { type: "submitted", hash });
+
+    let receipt: TransactionReceipt | undefined;
+    while (!receipt) {
+      if (Date.now() - startedAt > WATCH_TIMEOUT_MS) {
+        publishJobEvent(jobId, { type: "failed", error: `Transaction ${currentHash} was not mined in time` });
+        return;
+      }
+
+      const entry = await getRelayerTransaction(hash);
+      if (entry) {
+        const latestHash = entry.hashes[entry.hashes.length - 1];
+        if (latestHash !== currentHash) {
+          publishJobEvent(jobId, { type: "replaced", hash: latestHash, previousHash: currentHash });
+          currentHash = latestHash;
+        }
+        if (entry.status === "dropped") {
+          publishJobEvent(jobId, {
+            type: "failed",
+            error: `Transaction ${hash} was dropped: its nonce was used by another transaction`,
+          });
+          return;
+        }
+        if (entry.status === "mined") receipt = await findReceipt(entry.minedHash!);
+      } else {
+        // Not (or no longer) tracked by the relayer; ask the chain directly
+        receipt = await findReceipt(currentHash);
+      }
+      if (!receipt) await sleep();
+    }
+
+    publishJobEvent(jobId, {
+      type: "mined",
+      hash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber.toString(),
+      gasUsed: receipt.gasUsed.toString(),
+    });
+
+    if (receipt.status === "reverted") {
+      const reason = await getTransactionRevertReason(publicClient, receipt, abi).catch(() => undefined);
+      publishJobEvent(jobId, { type: "reverted", hash: receipt.transactionHash, reason });
+      return;
+    }
+
+    const confirmedAt = receipt.blockNumber + BigInt(CONFIRMATIONS);
+    while ((await publicClient.getBlockNumber({ cacheTime: 0 })) < confirmedAt) {
+      await sleep();
+    }
+    publishJobEvent(jobId, { type: "confirmed", hash: receipt.transactionHash, confirmations: CONFIRMATIONS });
+  } catch (error) {
+    publishJobEvent(jobId, { type: "failed", error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    channel.watching = false;
+  }
+}
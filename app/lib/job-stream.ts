@@ -0,0 +1,118 @@
+import { type Hash, toHex } from "viem";
+
+// A progress event for a relay job or bundler submission, as streamed by `/api/jobs/:id/events`
+export type JobEvent = {
+  jobId: Hash;
+  // Position in the job's event history, used as the SSE event id for reconnects
+  seq: number;
+  timestamp: number;
+} & JobEventBody;
+
+export type JobEventBody =
+  // A free-form progress message, as logged by the server
+  | { type: "status"; message: string }
+  | { type: "submitted"; hash: Hash }
+  // The relayer rebroadcast the transaction with bumped fees
+  | { type: "replaced"; hash: Hash; previousHash: Hash }
+  | { type: "mined"; hash: Hash; blockNumber: string; gasUsed: string }
+  | { type: "confirmed"; hash: Hash; confirmations: number }
+  | { type: "reverted"; hash: Hash; reason?: string }
+  | { type: "failed"; error: string };
+
+// Events after which nothing more will be published for a job
+export function isTerminalJobEvent(event: JobEventBody) {
+  return event.type === "confirmed" || event.type === "reverted" || event.type === "failed";
+}
+
+// A one-line, human-readable description of an event
+export function describeJobEvent(event: JobEventBody): string {
+  switch (event.type) {
+    case "status":
+      return event.message;
+    case "submitted":
+      return `Submitted ${event.hash}`;
+    case "replaced":
+      return `Stuck, rebroadcast with higher fees as ${event.hash}`;
+    case "mined":
+      return `Mined in block ${event.blockNumber} (gas used: ${event.gasUsed})`;
+    case "confirmed":
+      return `Confirmed after ${event.confirmations} blocks`;
+    case "reverted":
+      return `Reverted${event.reason ? `: ${event.reason}` : ""}`;
+    case "failed":
+      return `Failed: ${event.error}`;
+  }
+}
+
+// Creates an id for a job whose progress the browser wants to follow before submitting it
+export function createJobId(): Hash {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+// How often `watchJob` polls `/api/jobs/:id` once the event stream has failed
+const JOB_POLLING_INTERVAL_MS = 3_000;
+
+// Follows a job's event stream. If the stream errors (a proxy that drops SSE, a server restart), it
+// falls back to polling the job's events. `done` resolves with the `confirmed` event, or rejects if
+// the transaction reverted or the job failed. Call `close` to stop listening early.
+export function watchJob(
+  jobId: Hash,
+  onEvent?: (event: JobEvent) => void
+): { done: Promise<Extract<JobEvent, { type: "confirmed" }>>; close: () => void } {
+  const source = new EventSource(`/api/jobs/${jobId}/events`);
+  let closed = false;
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  // The last event handled. Compared by timestamp first, since a restarted server numbers the
+  // events of a resumed job from 0 again.
+  let last: { seq: number; timestamp: number } | undefined;
+  const close = () => {
+    closed = true;
+    source.close();
+    clearTimeout(pollTimer);
+  };
+
+  const done = new Promise<Extract<JobEvent, { type: "confirmed" }>>((resolve, reject) => {
+    const handle = (event: JobEvent) => {
+      if (
+        last &&
+        (event.timestamp < last.timestamp || (event.timestamp === last.timestamp && event.seq <= last.seq))
+      ) {
+        return;
+      }
+      last = { seq: event.seq, timestamp: event.timestamp };
+      onEvent?.(event);
+      if (!isTerminalJobEvent(event)) return;
+
+      close();
+      if (event.type === "confirmed") {
+        resolve(event);
+      } else {
+        reject(new Error(describeJobEvent(event)));
+      }
+    };
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}`);
+        if (response.ok) {
+          const { events } = (await response.json()) as { events: JobEvent[] };
+          events.forEach((event) => {
+            if (!closed) handle(event);
+          });
+        }
+      } catch (error) {
+        console.error(`Polling job ${jobId} failed:`, error);
+      }
+      if (!closed) pollTimer = setTimeout(() => void poll(), JOB_POLLING_INTERVAL_MS);
+    };
+
+    source.onmessage = (message) => handle(JSON.parse(message.data));
+    source.onerror = () => {
+      if (closed) return;
+      source.close();
+      void poll();
+    };
+  });
+
+  return { done, close };
+}
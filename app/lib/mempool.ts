@@ -0,0 +1,114 @@
+import { type Hash, type SignedAuthorization } from "viem";
+import { type UserOperation } from "viem/account-abstraction";
+import { type EntryPointVersion } from "./entrypoint";
+
+// Server-only: the bundler's in-process pool of user operations waiting to be bundled.
+// At most one op is kept per EntryPoint, sender and nonce; a second one only replaces it when it
+// pays enough more in fees.
+
+// A user operation waiting in the mempool
+export type MempoolEntry = {
+  userOpHash: Hash;
+  userOp: UserOperation;
+  entryPoint: EntryPointVersion;
+  // The EIP-7702 authorization a v0.8 op's bundle must carry to delegate its sender
+  authorization?: SignedAuthorization;
+  receivedAt: number;
+};
+
+export type MempoolAddResult =
+  | { status: "added" }
+  // The same op is already pending
+  | { status: "duplicate" }
+  | { status: "replaced"; replaced: MempoolEntry }
+  // An op with this sender and nonce is pending and the new one doesn't bump its fees enough
+  | { status: "underpriced"; existing: MempoolEntry; minMaxFeePerGas: bigint; minMaxPriorityFeePerGas: bigint };
+
+// Both fee fields of a replacement must be at least this much higher than the op it replaces
+export const REPLACEMENT_FEE_BUMP_PERCENT = BigInt(10);
+
+// Ops beyond this many are rejected until a bundle drains the pool
+const MAX_MEMPOOL_SIZE = 100;
+
+// Keep the pool on globalThis so every route bundle shares it
+const globalForMempool = globalThis as typeof globalThis & {
+  __userOpMempool?: Map<string, MempoolEntry>;
+};
+
+function getPool(): Map<string, MempoolEntry> {
+  globalForMempool.__userOpMempool ??= new Map();
+  return globalForMempool.__userOpMempool;
+}
+
+function entryKey({ userOp, entryPoint }: MempoolEntry) {
+  return `${entryPoint}:${userOp.sender.toLowerCase()}:${userOp.nonce}`;
+}
+
+function bumped(fee: bigint) {
+  return (fee * (BigInt(100) + REPLACEMENT_FEE_BUMP_PERCENT) + BigInt(99)) / BigInt(100);
+}
+
+// Adds an op to the pool, deduplicating by sender and nonce. Throws if the pool is full.
+export function addToMempool(entry: MempoolEntry): MempoolAddResult {
+  const pool = getPool();
+  const key = entryKey(entry);
+  const existing = pool.get(key);
+
+  if (existing) {
+    if (existing.userOpHash.toLowerCase() === entry.userOpHash.toLowerCase()) {
+      return { status: "duplicate" };
+    }
+    const minMaxFeePerGas = bumped(existing.userOp.maxFeePerGas);
+    const minMaxPriorityFeePerGas = bumped(existing.userOp.maxPriorityFeePerGas);
+    if (entry.userOp.maxFeePerGas < minMaxFeePerGas || entry.userOp.maxPriorityFeePerGas < minMaxPriorityFeePerGas) {
+      return { status: "underpriced", existing, minMaxFeePerGas, minMaxPriorityFeePerGas };
+    }
+    pool.set(key, entry);
+    return { status: "replaced", replaced: existing };
+  }
+
+  if (pool.size >= MAX_MEMPOOL_SIZE) {
+    throw new Error(`Mempool is full (${MAX_MEMPOOL_SIZE} user operations); try again shortly`);
+  }
+  pool.set(key, entry);
+  return { status: "added" };
+}
+
+// Removes an op from the pool, e.g. once it has been bundled or found invalid
+export function removeFromMempool(userOpHash: Hash) {
+  const pool = getPool();
+  Array.from(pool.entries()).forEach(([key, entry]) => {
+    if (entry.userOpHash.toLowerCase() === userOpHash.toLowerCase()) pool.delete(key);
+  });
+}
+
+// Picks the ops for the next bundle without removing them: the highest-paying ops for the EntryPoint
+// of the oldest waiting op, at most one per sender (its lowest nonce) so each can be validated
+// independently of the others
+export function selectBundle(maxOps: number): MempoolEntry[] {
+  const [oldest] = getMempoolEntries();
+  if (!oldest) return [];
+
+  const bySender = new Map<string, MempoolEntry>();
+  getMempoolEntries().forEach((entry) => {
+    if (entry.entryPoint !== oldest.entryPoint) return;
+    const sender = entry.userOp.sender.toLowerCase();
+    const current = bySender.get(sender);
+    if (!current || entry.userOp.nonce < current.userOp.nonce) bySender.set(sender, entry);
+  });
+
+  return Array.from(bySender.values())
+    .sort((a, b) =>
+      a.userOp.maxPriorityFeePerGas === b.userOp.maxPriorityFeePerGas
+        ? a.receivedAt - b.receivedAt
+        : a.userOp.maxPriorityFeePerGas > b.userOp.maxPriorityFeePerGas
+          ? -1
+          : 1
+    )
+    .slice(0, maxOps);
+}
+
+// Every op currently waiting, oldest first
+export function getMempoolEntries(): MempoolEntry[] {
+  return Array.from(getPool().values()).sort((a, b) => a.receivedAt - b.receivedAt);
+}
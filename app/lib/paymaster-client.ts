@@ -0,0 +1,41 @@
+import { type Address, type Hex } from "viem";
+import { type UserOperation, formatUserOperationRequest } from "viem/account-abstraction";
+
+// The relayer's verifying paymaster endpoint
+export const PAYMASTER_URL = "/api/paymaster";
+
+// The JSON body returned by `/api/paymaster` for a sponsored op
+export type PaymasterSponsorshipResponse = {
+  paymaster: Address;
+  paymasterData: Hex;
+  paymasterAndData: Hex;
+  // Decimal gas limits the sponsorship was signed with (v0.7 only)
+  paymasterVerificationGasLimit?: string;
+  paymasterPostOpGasLimit?: string;
+  validUntil: number;
+  validAfter: number;
+  // Decimal wei string
+  maxCost: string;
+};
+
+// Asks the relayer's paymaster to sponsor `userOperation`, whose gas limits and fees must be final.
+// Throws with the server's reason (e.g. a policy limit) if it refuses.
+export async function requestPaymasterSponsorship(
+  userOperation: UserOperation,
+  entryPointAddress: Address
+): Promise<PaymasterSponsorshipResponse> {
+  const response = await fetch(PAYMASTER_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      userOperation: formatUserOperationRequest(userOperation),
+      entryPoint: entryPointAddress,
+    }),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(`Paymaster refused to sponsor the UserOperation: ${body.error}${body.code ? ` (${body.code})` : ""}`);
+  }
+  return body as PaymasterSponsorshipResponse;
+}
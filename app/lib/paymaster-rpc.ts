@@ -0,0 +1,92 @@
+import { type Hex, hexToNumber, isHex, numberToHex } from "viem";
+import { type UserOperation } from "viem/account-abstraction";
+import { baseSepolia } from "./chains";
+import { ENTRYPOINTS, type EntryPointConfig, getEntryPointVersion } from "./entrypoint";
+import { BUNDLER_ERROR_CODES, BundlerRpcError, parseUserOperation } from "./bundler";
+import {
+  type PaymasterContext,
+  type PaymasterStubData,
+  type SponsorshipRefusal,
+  getPaymasterStubData,
+  sponsorUserOperation,
+} from "./paymaster";
+
+// Server-only: the ERC-7677 paymaster web service methods, served by `/api/bundler` so a viem
+// bundler client created with `paymaster: true` gets sponsorships from the same endpoint it sends
+// ops to. Both methods take `[userOp, entryPoint, chainId, context]` and answer in the op's
+// EntryPoint format: `paymasterAndData` for v0.6, the split paymaster fields for v0.7.
+
+// Shown by wallets that display who sponsors an op
+const SPONSOR = { name: "EIP-7702 Demo Relayer" };
+
+type PaymasterRpcParams = {
+  userOp: UserOperation;
+  entryPoint: EntryPointConfig;
+  context: PaymasterContext;
+};
+
+function parsePaymasterParams(params: unknown[]): PaymasterRpcParams {
+  const [rawUserOp, entryPointAddress, chainId, context] = params;
+
+  const version = typeof entryPointAddress === "string" ? getEntryPointVersion(entryPointAddress) : undefined;
+  if (!version) {
+    throw new BundlerRpcError(
+      BUNDLER_ERROR_CODES.INVALID_PARAMS,
+      `EntryPoint ${String(entryPointAddress)} is not supported`
+    );
+  }
+  if (typeof chainId !== "string" || !isHex(chainId) || hexToNumber(chainId) !== baseSepolia.id) {
+    throw new BundlerRpcError(
+      BUNDLER_ERROR_CODES.INVALID_PARAMS,
+      `chainId must be ${numberToHex(baseSepolia.id)} (${baseSepolia.name})`
+    );
+  }
+  if (context !== undefined && context !== null && (typeof context !== "object" || Array.isArray(context))) {
+    throw new BundlerRpcError(BUNDLER_ERROR_CODES.INVALID_PARAMS, "context must be an object");
+  }
+  const { validForSeconds } = (context ?? {}) as Record<string, unknown>;
+  if (validForSeconds !== undefined && (typeof validForSeconds !== "number" || !(validForSeconds > 0))) {
+    throw new BundlerRpcError(BUNDLER_ERROR_CODES.INVALID_PARAMS, "context.validForSeconds must be a positive number");
+  }
+
+  // Ops are sent before they are signed, and stub requests before their gas is estimated
+  return {
+    userOp: parseUserOperation(rawUserOp, { partial: true, version }),
+    entryPoint: ENTRYPOINTS[version],
+    context: { validForSeconds },
+  };
+}
+
+function toPaymasterError({ code, message }: SponsorshipRefusal) {
+  return new BundlerRpcError(BUNDLER_ERROR_CODES.REJECTED_BY_PAYMASTER, message, { code });
+}
+
+function formatPaymasterFields(fields: PaymasterStubData, entryPoint: EntryPointConfig) {
+  if (entryPoint.version === "0.6") return { paymasterAndData: fields.paymasterAndData };
+  return { paymaster: fields.paymaster, paymasterData: fields.paymasterData };
+}
+
+// `pm_getPaymasterStubData`: placeholder paymaster fields to estimate the op with
+export function getPaymasterStubDataRpc(params: unknown[]) {
+  const { userOp, entryPoint } = parsePaymasterParams(params);
+  const stub = getPaymasterStubData(userOp, entryPoint);
+  if (!stub.sponsored) throw toPaymasterError(stub);
+
+  const gasLimits: { paymasterVerificationGasLimit?: Hex; paymasterPostOpGasLimit?: Hex } =
+    entryPoint.version === "0.6"
+      ? {}
+      : {
+          paymasterVerificationGasLimit: numberToHex(stub.paymasterVerificationGasLimit ?? BigInt(0)),
+          paymasterPostOpGasLimit: numberToHex(stub.paymasterPostOpGasLimit ?? BigInt(0)),
+        };
+  // The stub's signature is a placeholder, so the op must be sent back for `pm_getPaymasterData`
+  return { ...formatPaymasterFields(stub, entryPoint), ...gasLimits, sponsor: SPONSOR, isFinal: false };
+}
+
+// `pm_getPaymasterData`: signs the sponsorship for an op whose gas limits and fees are final
+export async function getPaymasterDataRpc(params: unknown[]) {
+  const { userOp, entryPoint, context } = parsePaymasterParams(params);
+  const result = await sponsorUserOperation(userOp, entryPoint, { context });
+  if (!result.sponsored) throw toPaymasterError(result);
+  return formatPaymasterFields(result, entryPoint);
+}
@@ -0,0 +1,435 @@
+import { type Address, type Hash, type Hex, concat, encodeAbiParameters, isAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { type PackedUserOperation, type UserOperation, toPackedUserOperation } from "viem/account-abstraction";
+import { ENTRYPOINT_ABI } from "./abi/EntryPoint";
+import { VERIFYING_PAYMASTER_ABI, VERIFYING_PAYMASTER_V07_ABI } from "./abi/VerifyingPaymaster";
+import {
+  type EntryPointConfig,
+  type EntryPointVersion,
+  getUserOperationHashForEntryPoint,
+  toEntryPointUserOperation,
+} from "./entrypoint";
+import { getRelayerPublicClient } from "./relayer-signer";
+import { authorizeRelayerSpend, settleRelayerSpend } from "./relayer-policy";
+import { baseSepolia } from "./chains";
+import { getStore } from "./store";
+
+// Server-only: the relayer's verifying paymaster service. It signs sponsorships for the
+// eth-infinitism `VerifyingPaymaster` of each EntryPoint version (`VERIFYING_PAYMASTER_ADDRESS`
+// for v0.6, `VERIFYING_PAYMASTER_V07_ADDRESS` for v0.7), so sponsored ops are paid for from the
+// paymaster's EntryPoint deposit instead of each wallet's own. Every sponsorship is checked against
+// the relayer policy and reserved at the op's maximum gas cost when it is signed. The reservation is
+// settled to what the op actually cost once its `UserOperationEvent` is seen, or released if the
+// sponsorship expires without the op being included, whichever bundler submits it. Served from
+// `/api/paymaster` and as the ERC-7677 `pm_getPaymasterStubData` / `pm_getPaymasterData` methods of
+// `/api/bundler`.
+
+// EntryPoint versions the paymaster service can sponsor ops for
+export type PaymasterEntryPointVersion = Extract<EntryPointVersion, "0.6" | "0.7">;
+
+// A signed sponsorship for one user operation
+export type PaymasterSponsorship = {
+  paymaster: Address;
+  // The validity window and signature, as the paymaster decodes them
+  paymasterData: Hex;
+  // The op's full `paymasterAndData`: for v0.7 this includes the paymaster gas limits it was signed with
+  paymasterAndData: Hex;
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+  validUntil: number;
+  validAfter: number;
+  // The most the op can cost the paymaster, as reserved against the sender's daily allowance
+  maxCost: bigint;
+};
+
+// A signed sponsorship's reservation, held until its op's UserOperationEvent settles it or the
+// sponsorship expires
+type SponsorshipReservation = {
+  userOpHash: Hash;
+  sender: Address;
+  entryPoint: Address;
+  // Wei, as a decimal string
+  maxCost: string;
+  validUntil: number;
+  reservedAt: number;
+  // The block the sponsorship was signed at, from which the op's UserOperationEvent is looked for
+  signedAtBlock: string;
+};
+
+// Placeholder paymaster fields sized like a real sponsorship, for gas estimation
+export type PaymasterStubData = Omit<PaymasterSponsorship, "validUntil" | "validAfter" | "maxCost">;
+
+// Paymaster-specific options a caller can pass as the ERC-7677 `context`
+export type PaymasterContext = {
+  // Shortens how long the sponsorship stays valid (it can't exceed the configured window)
+  validForSeconds?: number;
+};
+
+export type SponsorshipErrorCode =
+  | "UNSUPPORTED_ENTRYPOINT"
+  | "PAYMASTER_NOT_CONFIGURED"
+  | "SENDER_NOT_DEPLOYED"
+  | "SPONSOR_LIMIT_EXCEEDED"
+  | "DAILY_LIMIT_EXCEEDED";
+
+// A refused sponsorship, carrying the HTTP status to respond with
+export type SponsorshipRefusal = {
+  sponsored: false;
+  status: 400 | 403 | 429 | 503;
+  code: SponsorshipErrorCode;
+  message: string;
+};
+
+export type SponsorshipResult = ({ sponsored: true } & PaymasterSponsorship) | SponsorshipRefusal;
+
+// How long a sponsorship signature stays valid. Its maximum cost is held against the sender's
+// allowance until then, so it is kept short.
+const SPONSORSHIP_VALIDITY_SECONDS = Number(process.env.PAYMASTER_VALIDITY_SECONDS || 180);
+
+// How long after a sponsorship expires its op's UserOperationEvent is looked for, so an op included
+// in the last block it was valid for is still found
+const SPONSORSHIP_SETTLE_DELAY_MS = 30_000;
+
+const STORE_NAME = "paymaster";
+
+const globalForPaymaster = globalThis as typeof globalThis & {
+  __sponsorshipsRestored?: Promise<void>;
+};
+
+// The EntryPoint charges a v0.6 paymaster's verification gas up to three times (validation and postOp)
+const PAYMASTER_VERIFICATION_GAS_MULTIPLIER = BigInt(3);
+
+// v0.7 paymaster gas limits used when the op doesn't set its own. The VerifyingPaymaster only
+// recovers one ECDSA signature and has no postOp.
+const PAYMASTER_VERIFICATION_GAS_LIMIT = BigInt(60_000);
+const PAYMASTER_POST_OP_GAS_LIMIT = BigInt(0);
+
+// A well-formed signature that recovers to some other address, so the paymaster reports a
+// signature failure instead of reverting while a stubbed op is estimated
+const STUB_PAYMASTER_SIGNATURE =
+  "0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c";
+
+const PAYMASTER_ADDRESS_ENV: Record<PaymasterEntryPointVersion, string> = {
+  "0.6": "VERIFYING_PAYMASTER_ADDRESS",
+  "0.7": "VERIFYING_PAYMASTER_V07_ADDRESS",
+};
+
+export function isPaymasterEntryPoint(version: EntryPointVersion): version is PaymasterEntryPointVersion {
+  return version in PAYMASTER_ADDRESS_ENV;
+}
+
+// The configured VerifyingPaymaster contract for `version`, if any
+export function getPaymasterAddress(version: PaymasterEntryPointVersion): Address | undefined {
+  const name = PAYMASTER_ADDRESS_ENV[version];
+  const address = process.env[name];
+  if (!address) return;
+  if (!isAddress(address)) throw new Error(`${name} must be an address`);
+  return address;
+}
+
+// The key the paymasters' `verifyingSigner` expects, which defaults to the relayer's
+export function getPaymasterSigner() {
+  const privateKey = (process.env.PAYMASTER_SIGNER_PRIVATE_KEY || process.env.RELAYER_PRIVATE_KEY) as
+    | Hex
+    | undefined;
+  if (!privateKey) {
+    throw new Error("PAYMASTER_SIGNER_PRIVATE_KEY or RELAYER_PRIVATE_KEY environment variable is required");
+  }
+  return privateKeyToAccount(privateKey);
+}
+
+// The most a sponsored op can cost its paymaster
+export function getSponsoredMaxCost(userOp: UserOperation, version: PaymasterEntryPointVersion): bigint {
+  if (version === "0.6") {
+    return (
+      (userOp.callGasLimit +
+        userOp.verificationGasLimit * PAYMASTER_VERIFICATION_GAS_MULTIPLIER +
+        userOp.preVerificationGas) *
+      userOp.maxFeePerGas
+    );
+  }
+  const op = userOp as UserOperation<"0.7">;
+  return (
+    (op.callGasLimit +
+      op.verificationGasLimit +
+      (op.paymasterVerificationGasLimit ?? PAYMASTER_VERIFICATION_GAS_LIMIT) +
+      (op.paymasterPostOpGasLimit ?? PAYMASTER_POST_OP_GAS_LIMIT) +
+      op.preVerificationGas) *
+    op.maxFeePerGas
+  );
+}
+
+// The paymaster fields for `paymasterData`, in both the split (v0.7) and combined forms
+function toPaymasterFields(
+  userOp: UserOperation,
+  version: PaymasterEntryPointVersion,
+  paymaster: Address,
+  paymasterData: Hex
+): PaymasterStubData {
+  if (version === "0.6") {
+    return { paymaster, paymasterData, paymasterAndData: concat([paymaster, paymasterData]) };
+  }
+  const op = userOp as UserOperation<"0.7">;
+  const gasLimits = {
+    paymasterVerificationGasLimit: op.paymasterVerificationGasLimit ?? PAYMASTER_VERIFICATION_GAS_LIMIT,
+    paymasterPostOpGasLimit: op.paymasterPostOpGasLimit ?? PAYMASTER_POST_OP_GAS_LIMIT,
+  };
+  const { paymasterAndData } = toPackedUserOperation({ ...op, ...gasLimits, paymaster, paymasterData });
+  return { paymaster, paymasterData, paymasterAndData, ...gasLimits };
+}
+
+// The op as it will be sent, with the sponsorship's paymaster fields
+function withPaymasterFields(
+  userOp: UserOperation,
+  version: PaymasterEntryPointVersion,
+  fields: PaymasterStubData
+): UserOperation {
+  if (version === "0.6") return { ...userOp, paymasterAndData: fields.paymasterAndData } as UserOperation;
+  const { paymaster, paymasterData, paymasterVerificationGasLimit, paymasterPostOpGasLimit } = fields;
+  return { ...userOp, paymaster, paymasterData, paymasterVerificationGasLimit, paymasterPostOpGasLimit } as UserOperation;
+}
+
+function encodeValidity(validUntil: number, validAfter: number): Hex {
+  return encodeAbiParameters([{ type: "uint48" }, { type: "uint48" }], [validUntil, validAfter]);
+}
+
+// Signs an op whose gas limits and fees are final: the paymaster data is the validity window and the
+// signer's signature over the paymaster's `getHash`
+async function signSponsorship(
+  userOp: UserOperation,
+  version: PaymasterEntryPointVersion,
+  paymaster: Address,
+  { validUntil, validAfter }: { validUntil: number; validAfter: number }
+): Promise<PaymasterStubData> {
+  // The hashes are read from the contract: v0.6's covers the paymaster's own per-sender nonce, and
+  // v0.7's the paymaster gas limits at the start of `paymasterAndData`
+  const publicClient = getRelayerPublicClient();
+  let hash: Hex;
+  if (version === "0.6") {
+    const op = toEntryPointUserOperation({ ...userOp, paymasterAndData: "0x" } as UserOperation, "0.6");
+    hash = await publicClient.readContract({
+      address: paymaster,
+      abi: VERIFYING_PAYMASTER_ABI,
+      functionName: "getHash",
+      args: [op, validUntil, validAfter],
+    });
+  } else {
+    const { paymasterAndData } = toPaymasterFields(userOp, version, paymaster, "0x");
+    const op: PackedUserOperation = { ...toPackedUserOperation(userOp as UserOperation<"0.7">), paymasterAndData };
+    hash = await publicClient.readContract({
+      address: paymaster,
+      abi: VERIFYING_PAYMASTER_V07_ABI,
+      functionName: "getHash",
+      args: [op, validUntil, validAfter],
+    });
+  }
+
+  const signature = await getPaymasterSigner().signMessage({ message: { raw: hash } });
+  return toPaymasterFields(userOp, version, paymaster, concat([encodeValidity(validUntil, validAfter), signature]));
+}
+
+// The paymaster configured for `version`, or the refusal to return if there is none
+function getConfiguredPaymaster(
+  version: EntryPointVersion
+): { paymaster: Address; version: PaymasterEntryPointVersion } | SponsorshipRefusal {
+  if (!isPaymasterEntryPoint(version)) {
+    return {
+      sponsored: false,
+      status: 400,
+      code: "UNSUPPORTED_ENTRYPOINT",
+      message: `The verifying paymaster only sponsors EntryPoint v0.6 and v0.7 UserOperations, not v${version}`,
+    };
+  }
+  const paymaster = getPaymasterAddress(version);
+  if (!paymaster) {
+    return {
+      sponsored: false,
+      status: 503,
+      code: "PAYMASTER_NOT_CONFIGURED",
+      message: `No verifying paymaster is configured for EntryPoint v${version} (set ${PAYMASTER_ADDRESS_ENV[version]})`,
+    };
+  }
+  return { paymaster, version };
+}
+
+// Placeholder paymaster fields for estimating `userOp`, sized like a real sponsorship. Nothing is
+// reserved against the policy until the op is sponsored with `sponsorUserOperation`.
+export function getPaymasterStubData(
+  userOp: UserOperation,
+  entryPoint: EntryPointConfig
+): ({ sponsored: true } & PaymasterStubData) | SponsorshipRefusal {
+  const configured = getConfiguredPaymaster(entryPoint.version);
+  if ("sponsored" in configured) return configured;
+
+  const paymasterData = concat([encodeValidity(0, 0), STUB_PAYMASTER_SIGNATURE]);
+  return { sponsored: true, ...toPaymasterFields(userOp, configured.version, configured.paymaster, paymasterData) };
+}
+
+// Sponsors an op if the policy allows it, reserving its maximum cost against the sender's daily
+// allowance, and returns the paymaster fields to sign it with
+export async function sponsorUserOperation(
+  userOp: UserOperation,
+  entryPoint: EntryPointConfig,
+  {
+    context = {},
+    now = Math.floor(Date.now() / 1000),
+  }: { context?: PaymasterContext; now?: number } = {}
+): Promise<SponsorshipResult> {
+  const configured = getConfiguredPaymaster(entryPoint.version);
+  if ("sponsored" in configured) return configured;
+  const { paymaster, version } = configured;
+  await restoreSponsorships();
+
+  const { initCode, factory } = userOp as Partial<UserOperation<"0.6"> & UserOperation<"0.7">>;
+  if ((!initCode || initCode === "0x") && !factory) {
+    const code = await getRelayerPublicClient().getCode({ address: userOp.sender });
+    if (!code || code === "0x") {
+      return {
+        sponsored: false,
+        status: 400,
+        code: "SENDER_NOT_DEPLOYED",
+        message: `${userOp.sender} has no code and the UserOperation doesn't deploy it`,
+      };
+    }
+  }
+
+  const maxCost = getSponsoredMaxCost(userOp, version);
+  const reservedAt = new Date();
+  const decision = await authorizeRelayerSpend({
+    operation: "sponsorUserOp",
+    targetAddress: userOp.sender,
+    value: maxCost,
+    at: reservedAt,
+  });
+  if (!decision.allowed) {
+    return {
+      sponsored: false,
+      status: decision.status,
+      code: decision.code as SponsorshipErrorCode,
+      message: decision.message,
+    };
+  }
+
+  const validForSeconds = Math.min(context.validForSeconds ?? SPONSORSHIP_VALIDITY_SECONDS, SPONSORSHIP_VALIDITY_SECONDS);
+  const window = { validUntil: now + validForSeconds, validAfter: 0 };
+  try {
+    const signedAtBlock = await getRelayerPublicClient().getBlockNumber();
+    const fields = await signSponsorship(userOp, version, paymaster, window);
+    // The op's hash doesn't cover its own signature, so it is already final
+    const userOpHash = getUserOperationHashForEntryPoint(withPaymasterFields(userOp, version, fields), version, {
+      chainId: baseSepolia.id,
+    });
+    await getStore(STORE_NAME).set<SponsorshipReservation>(reservationKey(userOpHash), {
+      userOpHash,
+      sender: userOp.sender,
+      entryPoint: entryPoint.address,
+      maxCost: maxCost.toString(),
+      validUntil: window.validUntil,
+      reservedAt: reservedAt.getTime(),
+      signedAtBlock: signedAtBlock.toString(),
+    });
+    scheduleSponsorshipExpiry(userOpHash, window.validUntil);
+    return { sponsored: true, ...fields, ...window, maxCost };
+  } catch (error) {
+    await decision.release();
+    throw error;
+  }
+}
+
+function reservationKey(userOpHash: Hash) {
+  return `sponsorship:${userOpHash.toLowerCase()}`;
+}
+
+// Settles a sponsorship's reservation to what its op actually cost the paymaster (0 if it was never
+// included). Each reservation is settled once; ops without one are ignored.
+export async function settleSponsorship(userOpHash: Hash, actualGasCost: bigint) {
+  await restoreSponsorships();
+  const store = getStore(STORE_NAME);
+  const key = reservationKey(userOpHash);
+  if (!(await store.get<SponsorshipReservation>(key))) return;
+
+  let reservation: SponsorshipReservation | undefined;
+  await store.update<SponsorshipReservation | null>(key, (current) => {
+    reservation = current ?? undefined;
+    return null;
+  });
+  await store.delete(key);
+  if (!reservation) return;
+  await settleRelayerSpend({
+    targetAddress: reservation.sender,
+    reserved: BigInt(reservation.maxCost),
+    spent: actualGasCost,
+    reservedAt: new Date(reservation.reservedAt),
+  });
+}
+
+// Once a sponsorship has expired the EntryPoint can no longer include its op, so its reservation is
+// settled from the op's UserOperationEvent if there is one, or released. Retried if the logs can't
+// be read.
+function scheduleSponsorshipExpiry(userOpHash: Hash, validUntil: number) {
+  const waitMs = validUntil * 1000 + SPONSORSHIP_SETTLE_DELAY_MS - Date.now();
+  setTimeout(() => {
+    expireSponsorship(userOpHash).catch((error) => {
+      console.error(`Could not settle the sponsorship of ${userOpHash}, retrying:`, error);
+      scheduleSponsorshipExpiry(userOpHash, Math.floor(Date.now() / 1000));
+    });
+  }, Math.max(waitMs, 0));
+}
+
+async function expireSponsorship(userOpHash: Hash) {
+  const reservation = await getStore(STORE_NAME).get<SponsorshipReservation>(reservationKey(userOpHash));
+  if (!reservation) return;
+
+  // The event is the same in both EntryPoint versions
+  const [event] = await getRelayerPublicClient().getContractEvents({
+    address: reservation.entryPoint,
+    abi: ENTRYPOINT_ABI,
+    eventName: "UserOperationEvent",
+    args: { userOpHash },
+    fromBlock: BigInt(reservation.signedAtBlock),
+    strict: true,
+  });
+  await settleSponsorship(userOpHash, event ? event.args.actualGasCost : BigInt(0));
+}
+
+// Reservations are stored but their expiry timers live in memory, so after a restart each one still
+// held is scheduled again. Runs once per process, the first time a sponsorship is signed or settled.
+function restoreSponsorships(): Promise<void> {
+  globalForPaymaster.__sponsorshipsRestored ??= getStore(STORE_NAME)
+    .entries<SponsorshipReservation | null>("sponsorship:")
+    .then((entries) => {
+      entries.forEach(([, reservation]) => {
+        if (reservation) scheduleSponsorshipExpiry(reservation.userOpHash, reservation.validUntil);
+      });
+    })
+    .catch((error) => console.error("Sponsorship restore failed:", error));
+  return globalForPaymaster.__sponsorshipsRestored;
+}
+
+// Each configured paymaster's EntryPoint deposit and whether its on-chain `verifyingSigner` is the
+// key this service signs with
+export async function getPaymasterStatuses() {
+  const publicClient = getRelayerPublicClient();
+  const versions = Object.keys(PAYMASTER_ADDRESS_ENV) as PaymasterEntryPointVersion[];
+  const configured = versions.flatMap((version) => {
+    const address = getPaymasterAddress(version);
+    return address ? [{ version, address }] : [];
+  });
+
+  return Promise.all(
+    configured.map(async ({ version, address }) => {
+      // Both versions' paymasters share these two views
+      const [deposit, verifyingSigner] = await Promise.all([
+        publicClient.readContract({ address, abi: VERIFYING_PAYMASTER_ABI, functionName: "getDeposit" }),
+        publicClient.readContract({ address, abi: VERIFYING_PAYMASTER_ABI, functionName: "verifyingSigner" }),
+      ]);
+      return {
+        entryPointVersion: version,
+        address,
+        deposit,
+        verifyingSigner,
+        signerMatches: verifyingSigner.toLowerCase() === getPaymasterSigner().address.toLowerCase(),
+      };
+    })
+  );
+}
@@ -0,0 +1,149 @@
+import { p256 } from "@noble/curves/p256";
+import { sha256 } from "@noble/hashes/sha256";
+import { type Address, type PublicClient, hexToBytes, recoverMessageAddress } from "viem";
+import { verifyPasskeyOwnership } from "./contract-utils";
+import { type ParsedRelayRequest, type RelayAuth, getRelayRequestDigest } from "./relay-schema";
+import { getStore } from "./store";
+
+// Server-only: checks that a relay request was signed by the owner of its target address,
+// recently, and only once.
+
+export type RelayAuthErrorCode =
+  | "INVALID_SIGNATURE"
+  | "STALE_REQUEST"
+  | "REPLAYED_REQUEST"
+  | "NOT_OWNER";
+
+// The outcome of an auth check. A rejected request carries the HTTP status to respond with.
+export type RelayAuthResult =
+  | { authenticated: true; signer: Address | "passkey" }
+  | { authenticated: false; status: 401 | 403 | 409; code: RelayAuthErrorCode; message: string };
+
+const STORE_NAME = "relay-auth";
+
+// How old (or how far in the future) a signed request may be, and so how long nonces are remembered
+function getMaxAgeMs() {
+  return Number(process.env.RELAY_AUTH_MAX_AGE_MS || 5 * 60_000);
+}
+
+// authenticatorData flags: user present (bit 0) and user verified (bit 2)
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+
+// Verifies a WebAuthn assertion over `digest` the way the smart wallet's WebAuthn library does:
+// the client data must be a `webauthn.get` for this exact challenge, and the P-256 signature must
+// cover sha256(authenticatorData || sha256(clientDataJSON))
+function verifyWebAuthnAssertion(
+  signer: Extract<RelayAuth["signer"], { type: "passkey" }>,
+  digest: Uint8Array
+): boolean {
+  const { authenticatorData, clientDataJSON, userVerificationRequired } = signer.webauthn;
+
+  let clientData: { type?: unknown; challenge?: unknown };
+  try {
+    clientData = JSON.parse(clientDataJSON);
+  } catch {
+    return false;
+  }
+  if (clientData.type !== "webauthn.get") return false;
+  if (clientData.challenge !== Buffer.from(digest).toString("base64url")) return false;
+
+  const authData = hexToBytes(authenticatorData);
+  if (authData.length < 37) return false;
+  const flags = authData[32];
+  if (!(flags & FLAG_USER_PRESENT)) return false;
+  if (userVerificationRequired && !(flags & FLAG_USER_VERIFIED)) return false;
+
+  const clientDataHash = sha256(new TextEncoder().encode(clientDataJSON));
+  const message = new Uint8Array(authData.length + clientDataHash.length);
+  message.set(authData);
+  message.set(clientDataHash, authData.length);
+
+  try {
+    return p256.verify(hexToBytes(signer.signature), sha256(message), hexToBytes(signer.publicKey), {
+      lowS: false,
+    });
+  } catch {
+    return false;
+  }
+}
+
+// Records the nonce as used, returning false if it was already seen. Expired nonces are pruned in
+// one write, since requests that old are rejected as stale anyway.
+async function consumeNonce(nonce: string, now: number, maxAgeMs: number): Promise<boolean> {
+  const store = getStore(STORE_NAME);
+  const key = `nonce:${nonce.toLowerCase()}`;
+  let fresh = false;
+  await store.update<number>(key, (usedAt) => {
+    if (usedAt !== undefined) return usedAt;
+    fresh = true;
+    return now;
+  });
+
+  const expired = (await store.entries<number>("nonce:"))
+    .filter(([, usedAt]) => now - usedAt > 2 * maxAgeMs)
+    .map(([entryKey]) => entryKey);
+  if (expired.length > 0) await store.deleteMany(expired);
+  return fresh;
+}
+
+// Checks that `auth` is a fresh, unused signature over `request` by its target EOA, or by a
+// passkey registered as an owner of the target's smart wallet
+export async function authenticateRelayRequest(
+  publicClient: PublicClient,
+  request: ParsedRelayRequest,
+  auth: RelayAuth,
+  { chainId, now = Date.now() }: { chainId: number; now?: number }
+): Promise<RelayAuthResult> {
+  const maxAgeMs = getMaxAgeMs();
+  if (Math.abs(now - auth.timestamp) > maxAgeMs) {
+    return {
+      authenticated: false,
+      status: 401,
+      code: "STALE_REQUEST",
+      message: `Request was signed at ${new Date(auth.timestamp).toISOString()}, outside the ${maxAgeMs / 1000}s window`,
+    };
+  }
+
+  const digest = getRelayRequestDigest(request, { chainId, timestamp: auth.timestamp, nonce: auth.nonce });
+  let signer: Address | "passkey";
+
+  if (auth.signer.type === "eoa") {
+    let recovered: Address;
+    try {
+      recovered = await recoverMessageAddress({ message: { raw: digest }, signature: auth.signer.signature });
+    } catch {
+      return { authenticated: false, status: 401, code: "INVALID_SIGNATURE", message: "Request signature is malformed" };
+    }
+    if (recovered.toLowerCase() !== request.targetAddress.toLowerCase()) {
+      return {
+        authenticated: false,
+        status: 403,
+        code: "NOT_OWNER",
+        message: `Request is signed by ${recovered}, not targetAddress ${request.targetAddress}`,
+      };
+    }
+    signer = recovered;
+  } else {
+    if (!verifyWebAuthnAssertion(auth.signer, hexToBytes(digest))) {
+      return { authenticated: false, status: 401, code: "INVALID_SIGNATURE", message: "Passkey assertion does not verify" };
+    }
+    const isOwner = await verifyPasskeyOwnership(publicClient, request.targetAddress, auth.signer).catch(() => false);
+    if (!isOwner) {
+      return {
+        authenticated: false,
+        status: 403,
+        code: "NOT_OWNER",
+        message: `Passkey is not an owner of ${request.targetAddress}`,
+      };
+    }
+    signer = "passkey";
+  }
+
+  // Only burn the nonce once the signature is known to be good, so forged requests can't block it
+  if (!(await consumeNonce(auth.nonce, now, maxAgeMs))) {
+    return { authenticated: false, status: 409, code: "REPLAYED_REQUEST", message: "Request nonce has already been used" };
+  }
+
+  return { authenticated: true, signer };
+}
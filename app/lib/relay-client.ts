@@ -0,0 +1,162 @@
+import { type Hash, type LocalAccount, type PublicClient, type TransactionReceipt, toHex } from "viem";
+import { type WebAuthnAccount } from "viem/account-abstraction";
+import { baseSepolia } from "./chains";
+import {
+  type RelayAuth,
+  type RelayErrorResponse,
+  type RelayFieldError,
+  type RelayJob,
+  type RelayRequest,
+  type RelayTransactionStatus,
+  type SignedRelayRequest,
+  getRelayRequestDigest,
+} from "./relay-schema";
+
+// The JSON body returned by `/api/relay` on success
+export type RelayResponse = {
+  hash: Hash;
+  job: RelayJob;
+};
+
+// Who authorizes a relay request: the target EOA's own key, or a passkey that owns its smart wallet
+export type RelaySigner =
+  | { type: "eoa"; account: LocalAccount }
+  | { type: "passkey"; account: WebAuthnAccount };
+
+// How often `waitForRelayedTransaction` asks the relayer for the transaction's status
+const RELAY_POLLING_INTERVAL_MS = 4_000;
+
+// Thrown by `relay` when `/api/relay` rejects a request, carrying the server's error code and field errors
+export class RelayRequestError extends Error {
+  status: number;
+  code?: string;
+  issues?: RelayFieldError[];
+  revert?: RelayErrorResponse["revert"];
+
+  constructor(status: number, body: RelayErrorResponse) {
+    const fields = body.issues?.map((issue) => `${issue.field}: ${issue.message}`).join("; ");
+    super(fields ? `${body.error} (${fields})` : body.error);
+    this.name = "RelayRequestError";
+    this.status = status;
+    this.code = body.code;
+    this.issues = body.issues;
+    this.revert = body.revert;
+  }
+}
+
+// JSON replacer that serializes bigints as decimal strings, as expected by the relay
+export function bigintReplacer(_: string, value: unknown) {
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+// Signs a relay request for `signer`, binding it to this chain, the current time and a fresh nonce
+export async function signRelayRequest(
+  request: RelayRequest,
+  signer: RelaySigner
+): Promise<SignedRelayRequest> {
+  const timestamp = Date.now();
+  const nonce = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const digest = getRelayRequestDigest(request, { chainId: baseSepolia.id, timestamp, nonce });
+
+  let auth: RelayAuth;
+  if (signer.type === "eoa") {
+    const signature = await signer.account.signMessage({ message: { raw: digest } });
+    auth = { timestamp, nonce, signer: { type: "eoa", signature } };
+  } else {
+    const { signature, webauthn } = await signer.account.sign({ hash: digest });
+    auth = {
+      timestamp,
+      nonce,
+      signer: {
+        type: "passkey",
+        publicKey: signer.account.publicKey,
+        signature,
+        webauthn: {
+          authenticatorData: webauthn.authenticatorData,
+          clientDataJSON: webauthn.clientDataJSON,
+          challengeIndex: webauthn.challengeIndex,
+          typeIndex: webauthn.typeIndex,
+          userVerificationRequired: webauthn.userVerificationRequired,
+        },
+      },
+    };
+  }
+
+  return { ...request, auth };
+}
+
+// Signs a typed operation, submits it to `/api/relay` and returns the relayed transaction hash.
+// Resubmitting with the same `idempotencyKey` returns the original job instead of sending again.
+export async function relay(
+  request: RelayRequest,
+  signer: RelaySigner,
+  { idempotencyKey }: { idempotencyKey?: string } = {}
+): Promise<RelayResponse> {
+  const signedRequest = await signRelayRequest(request, signer);
+  const response = await fetch("/api/relay", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+    },
+    body: JSON.stringify(signedRequest, bigintReplacer),
+  });
+
+  if (!response.ok) {
+    let body: RelayErrorResponse;
+    try {
+      body = await response.json();
+    } catch {
+      body = { error: `Relay request failed with status ${response.status}` };
+    }
+    throw new RelayRequestError(response.status, body);
+  }
+
+  return response.json();
+}
+
+// Fetches a relay job by id, or undefined if the relayer has no record of it
+export async function getRelayJob(id: Hash): Promise<RelayJob | undefined> {
+  const response = await fetch(`/api/relay/jobs/${id}`);
+  if (response.status === 404) return;
+  if (!response.ok) {
+    throw new RelayRequestError(response.status, await response.json());
+  }
+  return response.json();
+}
+
+// Waits for a relayed transaction to be mined, following any fee-bumped replacements the relayer
+// broadcasts while it is stuck. `onReplaced` is called with each new hash as soon as it is known.
+export async function waitForRelayedTransaction(
+  publicClient: PublicClient,
+  hash: Hash,
+  { onReplaced }: { onReplaced?: (hash: Hash) => void } = {}
+): Promise<TransactionReceipt> {
+  let currentHash = hash;
+
+  for (;;) {
+    const response = await fetch(`/api/relay/tx/${hash}`);
+
+    // The relayer doesn't know this transaction (e.g. it restarted); fall back to the chain
+    if (response.status === 404) {
+      return publicClient.waitForTransactionReceipt({ hash: currentHash });
+    }
+    if (!response.ok) {
+      throw new RelayRequestError(response.status, await response.json());
+    }
+
+    const status: RelayTransactionStatus = await response.json();
+    if (status.hash !== currentHash) {
+      currentHash = status.hash;
+      onReplaced?.(currentHash);
+    }
+    if (status.status === "mined") {
+      return publicClient.waitForTransactionReceipt({ hash: status.minedHash ?? currentHash });
+    }
+    if (status.status === "dropped") {
+      throw new Error(`Relayed transaction ${hash} was dropped: its nonce was used by another transaction`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, RELAY_POLLING_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,154 @@
+import { type Address, type Hash, type TransactionReceipt, keccak256, stringToHex, toHex } from "viem";
+import { getRelayerPublicClient, getRelayerTransaction } from "./relayer-signer";
+import { getJobEvents, isWatchingJob, watchRelayerTransaction } from "./job-events";
+import {
+  type ParsedRelayRequest,
+  type RelayJob,
+  type RelayReceiptSummary,
+  getRelayRequestFingerprint,
+} from "./relay-schema";
+import { getStore } from "./store";
+
+// Server-only: persisted relay jobs, so a request can be looked up (and safely retried with the
+// same `Idempotency-Key`) after the browser that sent it has gone away.
+
+const STORE_NAME = "relay-jobs";
+
+// Idempotency keys are opaque printable-ASCII strings chosen by the client
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return IDEMPOTENCY_KEY_PATTERN.test(key);
+}
+
+// A job still `submitting` after this long is taken to have been abandoned (e.g. the server stopped
+// mid-request), so its idempotency key can be used again. Submitting normally takes seconds.
+const SUBMITTING_TTL_MS = Number(process.env.RELAY_JOB_SUBMITTING_TTL_MS || 2 * 60_000);
+
+function jobKey(id: Hash) {
+  return `job:${id.toLowerCase()}`;
+}
+
+// Job ids are scoped to the target address, so two accounts can't collide on the same idempotency key
+export function getRelayJobId(targetAddress: Address, idempotencyKey?: string): Hash {
+  if (!idempotencyKey) return toHex(crypto.getRandomValues(new Uint8Array(32)));
+  return keccak256(stringToHex(`${targetAddress.toLowerCase()}:${idempotencyKey}`));
+}
+
+export function summarizeReceipt(receipt: TransactionReceipt): RelayReceiptSummary {
+  return {
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber.toString(),
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+    status: receipt.status,
+  };
+}
+
+// Whether a job never got past `submitting` within the TTL
+export function isAbandonedRelayJob(job: RelayJob, now = Date.now()): boolean {
+  return job.status === "submitting" && now - job.updatedAt > SUBMITTING_TTL_MS;
+}
+
+// Creates a job in the `submitting` state, unless one with this id already exists, in which case
+// the existing job is returned with `created: false`. An abandoned job is replaced by the new one.
+export async function beginRelayJob(
+  id: Hash,
+  request: ParsedRelayRequest
+): Promise<{ created: boolean; job: RelayJob }> {
+  const now = Date.now();
+  let created = false;
+  const job = await getStore(STORE_NAME).update<RelayJob>(jobKey(id), (current) => {
+    if (current && !isAbandonedRelayJob(current, now)) return current;
+    created = true;
+    return {
+      id,
+      operation: request.operation,
+      targetAddress: request.targetAddress,
+      requestHash: getRelayRequestFingerprint(request),
+      status: "submitting",
+      replacements: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+  });
+  return { created, job };
+}
+
+// Records the broadcast hash of a job's transaction
+export async function recordRelayJobSubmission(id: Hash, hash: Hash): Promise<RelayJob> {
+  return getStore(STORE_NAME).update<RelayJob>(jobKey(id), (current) => ({
+    ...current!,
+    status: "pending",
+    hash,
+    originalHash: hash,
+    updatedAt: Date.now(),
+  }));
+}
+
+// Removes a job whose request was rejected or failed before anything was broadcast,
+// so the same idempotency key can be retried
+export async function abandonRelayJob(id: Hash): Promise<void> {
+  await getStore(STORE_NAME).delete(jobKey(id));
+}
+
+async function findReceipt(hashes: Hash[]): Promise<TransactionReceipt | undefined> {
+  const publicClient = getRelayerPublicClient();
+  for (let i = hashes.length - 1; i >= 0; i--) {
+    const receipt = await publicClient.getTransactionReceipt({ hash: hashes[i] }).catch(() => undefined);
+    if (receipt) return receipt;
+  }
+}
+
+// Brings a pending job up to date with the relayer's view of its transaction (replacements,
+// drops) and with the chain, once mined
+async function refreshRelayJob(job: RelayJob): Promise<RelayJob> {
+  if (job.status !== "pending" || !job.originalHash) return job;
+
+  const update: Partial<RelayJob> = {};
+  let receipt: TransactionReceipt | undefined;
+  const tracked = await getRelayerTransaction(job.originalHash);
+  if (tracked) {
+    update.hash = tracked.hashes[tracked.hashes.length - 1];
+    update.replacements = tracked.hashes.slice(1);
+    if (tracked.status === "dropped") update.status = "dropped";
+    if (tracked.status === "mined") receipt = await findReceipt([tracked.minedHash!]);
+  } else {
+    // The relayer no longer tracks it (e.g. it restarted); ask the chain about every known hash
+    receipt = await findReceipt([job.originalHash, ...job.replacements]);
+  }
+
+  if (receipt) {
+    update.hash = receipt.transactionHash;
+    update.status = receipt.status === "success" ? "mined" : "reverted";
+    update.receipt = summarizeReceipt(receipt);
+  }
+
+  const changed =
+    update.status !== undefined ||
+    update.hash !== job.hash ||
+    (update.replacements !== undefined && update.replacements.length !== job.replacements.length);
+  if (!changed) return job;
+
+  return getStore(STORE_NAME).update<RelayJob>(jobKey(job.id), (current) => ({
+    ...current!,
+    ...update,
+    updatedAt: Date.now(),
+  }));
+}
+
+// Returns the job with this id, refreshed from the relayer and the chain if still pending
+export async function getRelayJob(id: Hash): Promise<RelayJob | undefined> {
+  const job = await getStore(STORE_NAME).get<RelayJob>(jobKey(id));
+  return job && refreshRelayJob(job);
+}
+
+// A relay job submitted before a restart has no events in memory; picks its transaction back up so
+// its progress is published again
+export async function resumeRelayJobEvents(id: Hash): Promise<void> {
+  if (getJobEvents(id).length > 0 || isWatchingJob(id)) return;
+  const job = await getRelayJob(id).catch(() => undefined);
+  if (job?.originalHash) {
+    void watchRelayerTransaction(id, job.originalHash);
+  }
+}
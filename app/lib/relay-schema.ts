@@ -0,0 +1,538 @@
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  type SignedAuthorization,
+  isAddress,
+  isHex,
+  keccak256,
+  stringToHex,
+} from "viem";
+import { type DecodedRevert } from "./simulation-utils";
+
+// *************** Request types ***************
+
+// The operations supported by `/api/relay`
+export const RELAY_OPERATIONS = [
+  "fund",
+  "depositTo",
+  "submit7702Auth",
+  "setImplementation",
+  "upgradeEOA",
+  "eraseStorage",
+] as const;
+
+export type RelayOperation = (typeof RELAY_OPERATIONS)[number];
+
+// Sends `value` wei of relayer ETH to `targetAddress`
+export type FundRequest = {
+  operation: "fund";
+  targetAddress: Address;
+  value: bigint | string;
+};
+
+// Adds `value` wei of relayer ETH to `targetAddress`'s EntryPoint deposit
+export type DepositToRequest = {
+  operation: "depositTo";
+  targetAddress: Address;
+  value: bigint | string;
+};
+
+// Submits an empty transaction carrying only the 7702 authorization(s)
+export type Submit7702AuthRequest = {
+  operation: "submit7702Auth";
+  targetAddress: Address;
+  authorizationList: SignedAuthorization[];
+};
+
+// Calls `EIP7702Proxy.setImplementation` on an already-delegated account
+export type SetImplementationRequest = {
+  operation: "setImplementation";
+  targetAddress: Address;
+  signature: Hex;
+  initArgs?: Hex;
+};
+
+// Combined 7702 authorization and `setImplementation` call in a single type-4 transaction
+export type UpgradeEOARequest = {
+  operation: "upgradeEOA";
+  targetAddress: Address;
+  initArgs: Hex;
+  signature: Hex;
+  authorizationList: SignedAuthorization[];
+};
+
+// Calls `eraseNextOwnerIndexStorage` on an account delegated to the storage eraser
+export type EraseStorageRequest = {
+  operation: "eraseStorage";
+  targetAddress: Address;
+};
+
+// A relay request as built by the client; bigints are serialized to strings on the wire
+export type RelayRequest =
+  | FundRequest
+  | DepositToRequest
+  | Submit7702AuthRequest
+  | SetImplementationRequest
+  | UpgradeEOARequest
+  | EraseStorageRequest;
+
+// WebAuthn assertion metadata, as returned by viem's `WebAuthnAccount.sign`
+export type RelayWebAuthnMetadata = {
+  authenticatorData: Hex;
+  clientDataJSON: string;
+  challengeIndex: number;
+  typeIndex: number;
+  userVerificationRequired: boolean;
+};
+
+// Proof that the owner of `targetAddress` asked for a relay request: a signature over the
+// request digest (see `getRelayRequestDigest`) by the EOA itself or by one of its passkey owners
+export type RelayAuth = {
+  // Milliseconds since the epoch when the request was signed
+  timestamp: number;
+  // Random 16-byte value, never accepted twice
+  nonce: Hex;
+  signer:
+    | { type: "eoa"; signature: Hex }
+    | { type: "passkey"; publicKey: Hex; signature: Hex; webauthn: RelayWebAuthnMetadata };
+};
+
+// A relay request together with its owner's signature, as sent on the wire
+export type SignedRelayRequest = RelayRequest & { auth: RelayAuth };
+
+// A relay request after validation on the server, with all numeric fields normalized
+export type ParsedRelayRequest =
+  | (Omit<FundRequest, "value"> & { value: bigint })
+  | (Omit<DepositToRequest, "value"> & { value: bigint })
+  | Submit7702AuthRequest
+  | (Omit<SetImplementationRequest, "initArgs"> & { initArgs: Hex })
+  | UpgradeEOARequest
+  | EraseStorageRequest;
+
+// *************** Validation errors ***************
+
+// Stable, machine-readable codes for invalid relay requests
+export type RelayErrorCode =
+  | "INVALID_JSON"
+  | "INVALID_REQUEST"
+  | "UNKNOWN_OPERATION"
+  | "MISSING_FIELD"
+  | "INVALID_ADDRESS"
+  | "INVALID_HEX"
+  | "INVALID_VALUE"
+  | "INVALID_AUTHORIZATION"
+  | "AUTHORITY_MISMATCH"
+  | "INVALID_CHAIN_ID"
+  | "NONCE_MISMATCH"
+  | "DELEGATE_NOT_ALLOWED"
+  | "UNAUTHENTICATED"
+  | "INVALID_AUTH";
+
+// A single field-level validation failure
+export type RelayFieldError = {
+  field: string;
+  code: RelayErrorCode;
+  message: string;
+};
+
+// The JSON body returned by `/api/relay` on failure
+export type RelayErrorResponse = {
+  error: string;
+  code?: RelayErrorCode | string;
+  issues?: RelayFieldError[];
+  details?: string;
+  // Set when the pre-flight simulation reverted
+  revert?: DecodedRevert;
+};
+
+// The JSON body returned by `/api/relay/tx/:hash`
+export type RelayTransactionStatus = {
+  // The most recent broadcast hash for this transaction's nonce
+  hash: Hash;
+  originalHash: Hash;
+  replacements: Hash[];
+  status: "pending" | "mined" | "dropped";
+  minedHash?: Hash;
+  nonce: number;
+};
+
+// A summary of a mined relay transaction's receipt, safe to return as JSON
+export type RelayReceiptSummary = {
+  transactionHash: Hash;
+  blockNumber: string;
+  gasUsed: string;
+  effectiveGasPrice: string;
+  status: "success" | "reverted";
+};
+
+// A persisted relay job, as returned by `/api/relay` and `/api/relay/jobs/:id`
+export type RelayJob = {
+  id: Hash;
+  operation: RelayOperation;
+  targetAddress: Address;
+  // Fingerprint of the request payload, so an idempotency key can't be reused for a different request
+  requestHash: Hash;
+  // `submitting` until the relayer has broadcast the transaction
+  status: "submitting" | "pending" | "mined" | "reverted" | "dropped";
+  // The most recent broadcast hash, or the mined one once included
+  hash?: Hash;
+  originalHash?: Hash;
+  replacements: Hash[];
+  receipt?: RelayReceiptSummary;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type RelayParseResult =
+  | { success: true; data: ParsedRelayRequest; auth: RelayAuth }
+  | { success: false; errors: RelayFieldError[] };
+
+// *************** Field validators ***************
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readAddress(
+  body: Record<string, unknown>,
+  field: string,
+  errors: RelayFieldError[],
+  path = field
+): Address | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    errors.push({ field: path, code: "MISSING_FIELD", message: `${path} is required` });
+    return;
+  }
+  if (typeof value !== "string" || !isAddress(value, { strict: false })) {
+    errors.push({ field: path, code: "INVALID_ADDRESS", message: `${path} must be a 20-byte hex address` });
+    return;
+  }
+  return value as Address;
+}
+
+function readHex(
+  body: Record<string, unknown>,
+  field: string,
+  errors: RelayFieldError[],
+  { optional = false, size, path = field }: { optional?: boolean; size?: number; path?: string } = {}
+): Hex | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    if (!optional) {
+      errors.push({ field: path, code: "MISSING_FIELD", message: `${path} is required` });
+    }
+    return;
+  }
+  if (typeof value !== "string" || !isHex(value) || value.length % 2 !== 0) {
+    errors.push({ field: path, code: "INVALID_HEX", message: `${path} must be a 0x-prefixed, even-length hex string` });
+    return;
+  }
+  if (size !== undefined && (value.length - 2) / 2 > size) {
+    errors.push({ field: path, code: "INVALID_HEX", message: `${path} must be at most ${size} bytes` });
+    return;
+  }
+  return value as Hex;
+}
+
+// Reads a non-negative integer that may be encoded as a number, decimal string or hex string
+function readUint(
+  body: Record<string, unknown>,
+  field: string,
+  errors: RelayFieldError[],
+  { optional = false, path = field }: { optional?: boolean; path?: string } = {}
+): bigint | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    if (!optional) {
+      errors.push({ field: path, code: "MISSING_FIELD", message: `${path} is required` });
+    }
+    return;
+  }
+  const isNumeric =
+    (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) ||
+    (typeof value === "string" && (/^\d+$/.test(value) || /^0x[0-9a-fA-F]+$/.test(value)));
+  if (!isNumeric) {
+    errors.push({ field: path, code: "INVALID_VALUE", message: `${path} must be a non-negative integer` });
+    return;
+  }
+  return BigInt(value as number | string);
+}
+
+function readAuthorizationList(
+  body: Record<string, unknown>,
+  errors: RelayFieldError[]
+): SignedAuthorization[] | undefined {
+  const value = body.authorizationList;
+  if (value === undefined || value === null) {
+    errors.push({ field: "authorizationList", code: "MISSING_FIELD", message: "authorizationList is required" });
+    return;
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push({
+      field: "authorizationList",
+      code: "INVALID_AUTHORIZATION",
+      message: "authorizationList must be a non-empty array",
+    });
+    return;
+  }
+
+  const authorizations: SignedAuthorization[] = [];
+  value.forEach((item, i) => {
+    const path = `authorizationList[${i}]`;
+    if (!isRecord(item)) {
+      errors.push({ field: path, code: "INVALID_AUTHORIZATION", message: `${path} must be an object` });
+      return;
+    }
+    const itemErrors: RelayFieldError[] = [];
+    // `signAuthorization` in older viem versions returns `contractAddress` instead of `address`
+    const address = readAddress(
+      { address: item.address ?? item.contractAddress },
+      "address",
+      itemErrors,
+      `${path}.address`
+    );
+    const chainId = readUint(item, "chainId", itemErrors, { path: `${path}.chainId` });
+    const nonce = readUint(item, "nonce", itemErrors, { path: `${path}.nonce` });
+    const r = readHex(item, "r", itemErrors, { size: 32, path: `${path}.r` });
+    const s = readHex(item, "s", itemErrors, { size: 32, path: `${path}.s` });
+    const v = readUint(item, "v", itemErrors, { optional: true, path: `${path}.v` });
+    const yParityRaw = readUint(item, "yParity", itemErrors, { optional: true, path: `${path}.yParity` });
+
+    let yParity: number | undefined;
+    if (yParityRaw !== undefined) {
+      yParity = Number(yParityRaw);
+    } else if (v !== undefined) {
+      yParity = v === BigInt(27) || v === BigInt(0) ? 0 : 1;
+    }
+    if (yParity !== 0 && yParity !== 1 && itemErrors.length === 0) {
+      itemErrors.push({
+        field: `${path}.yParity`,
+        code: "INVALID_AUTHORIZATION",
+        message: `${path} must include a yParity of 0 or 1 (or a legacy v value)`,
+      });
+    }
+
+    if (itemErrors.length > 0) {
+      errors.push(...itemErrors);
+      return;
+    }
+    authorizations.push({
+      address: address!,
+      chainId: Number(chainId),
+      nonce: Number(nonce),
+      r: r!,
+      s: s!,
+      yParity: yParity!,
+    });
+  });
+
+  return authorizations;
+}
+
+function readRelayAuth(
+  body: Record<string, unknown>,
+  errors: RelayFieldError[]
+): RelayAuth | undefined {
+  const auth = body.auth;
+  if (auth === undefined || auth === null) {
+    errors.push({ field: "auth", code: "UNAUTHENTICATED", message: "auth is required: relay requests must be signed" });
+    return;
+  }
+  if (!isRecord(auth) || !isRecord(auth.signer)) {
+    errors.push({ field: "auth", code: "INVALID_AUTH", message: "auth must include timestamp, nonce and signer" });
+    return;
+  }
+
+  const authErrors: RelayFieldError[] = [];
+  const timestamp = readUint(auth, "timestamp", authErrors, { path: "auth.timestamp" });
+  const nonce = readHex(auth, "nonce", authErrors, { size: 32, path: "auth.nonce" });
+  const signer = auth.signer;
+  const signature = readHex(signer, "signature", authErrors, { path: "auth.signer.signature" });
+
+  let parsedSigner: RelayAuth["signer"] | undefined;
+  if (signer.type === "eoa") {
+    parsedSigner = { type: "eoa", signature: signature! };
+  } else if (signer.type === "passkey") {
+    const publicKey = readHex(signer, "publicKey", authErrors, { path: "auth.signer.publicKey" });
+    const webauthn = signer.webauthn;
+    if (
+      !isRecord(webauthn) ||
+      typeof webauthn.authenticatorData !== "string" ||
+      !isHex(webauthn.authenticatorData) ||
+      typeof webauthn.clientDataJSON !== "string" ||
+      typeof webauthn.challengeIndex !== "number" ||
+      typeof webauthn.typeIndex !== "number"
+    ) {
+      authErrors.push({
+        field: "auth.signer.webauthn",
+        code: "INVALID_AUTH",
+        message: "auth.signer.webauthn must include authenticatorData, clientDataJSON, challengeIndex and typeIndex",
+      });
+    } else {
+      parsedSigner = {
+        type: "passkey",
+        publicKey: publicKey!,
+        signature: signature!,
+        webauthn: {
+          authenticatorData: webauthn.authenticatorData as Hex,
+          clientDataJSON: webauthn.clientDataJSON,
+          challengeIndex: webauthn.challengeIndex,
+          typeIndex: webauthn.typeIndex,
+          userVerificationRequired: webauthn.userVerificationRequired === true,
+        },
+      };
+    }
+  } else {
+    authErrors.push({ field: "auth.signer.type", code: "INVALID_AUTH", message: 'auth.signer.type must be "eoa" or "passkey"' });
+  }
+
+  if (authErrors.length > 0) {
+    errors.push(...authErrors);
+    return;
+  }
+  return { timestamp: Number(timestamp), nonce: nonce!, signer: parsedSigner! };
+}
+
+// *************** Request digest ***************
+
+// Domain separator for relay request signatures, so they can't be replayed as other messages
+const RELAY_AUTH_DOMAIN = "eip7702-viem-demo relay request";
+
+function canonicalAuthorization(authorization: SignedAuthorization) {
+  const yParity =
+    authorization.yParity ?? (authorization.v === BigInt(27) || authorization.v === BigInt(0) ? 0 : 1);
+  return [
+    authorization.address.toLowerCase(),
+    Number(authorization.chainId),
+    Number(authorization.nonce),
+    authorization.r.toLowerCase(),
+    authorization.s.toLowerCase(),
+    yParity,
+  ];
+}
+
+// Serializes the fields of a request that the owner signs, identically on client and server
+function canonicalRelayPayload(request: RelayRequest | ParsedRelayRequest): string {
+  const target = request.targetAddress.toLowerCase();
+  switch (request.operation) {
+    case "fund":
+    case "depositTo":
+      return JSON.stringify([request.operation, target, BigInt(request.value).toString()]);
+    case "submit7702Auth":
+      return JSON.stringify([request.operation, target, request.authorizationList.map(canonicalAuthorization)]);
+    case "setImplementation":
+      return JSON.stringify([request.operation, target, request.signature.toLowerCase(), (request.initArgs ?? "0x").toLowerCase()]);
+    case "upgradeEOA":
+      return JSON.stringify([
+        request.operation,
+        target,
+        request.signature.toLowerCase(),
+        request.initArgs.toLowerCase(),
+        request.authorizationList.map(canonicalAuthorization),
+      ]);
+    case "eraseStorage":
+      return JSON.stringify([request.operation, target]);
+  }
+}
+
+// Identifies a request's payload regardless of when or by whom it was signed
+export function getRelayRequestFingerprint(request: RelayRequest | ParsedRelayRequest): Hash {
+  return keccak256(stringToHex(canonicalRelayPayload(request)));
+}
+
+// The hash an owner signs to authorize a relay request: the operation payload bound to a
+// chain, a timestamp and a single-use nonce
+export function getRelayRequestDigest(
+  request: RelayRequest | ParsedRelayRequest,
+  { chainId, timestamp, nonce }: { chainId: number; timestamp: number; nonce: Hex }
+): Hash {
+  return keccak256(
+    stringToHex(
+      [RELAY_AUTH_DOMAIN, chainId, timestamp, nonce.toLowerCase(), canonicalRelayPayload(request)].join("\n")
+    )
+  );
+}
+
+// *************** Request parser ***************
+
+// Validates an untrusted `/api/relay` request body and narrows it to the matching operation
+export function parseRelayRequest(body: unknown): RelayParseResult {
+  if (!isRecord(body)) {
+    return {
+      success: false,
+      errors: [{ field: "", code: "INVALID_REQUEST", message: "Request body must be a JSON object" }],
+    };
+  }
+
+  const { operation } = body;
+  if (typeof operation !== "string" || !RELAY_OPERATIONS.includes(operation as RelayOperation)) {
+    return {
+      success: false,
+      errors: [{
+        field: "operation",
+        code: operation === undefined ? "MISSING_FIELD" : "UNKNOWN_OPERATION",
+        message: `operation must be one of: ${RELAY_OPERATIONS.join(", ")}`,
+      }],
+    };
+  }
+
+  const errors: RelayFieldError[] = [];
+  const targetAddress = readAddress(body, "targetAddress", errors);
+  let data: ParsedRelayRequest | undefined;
+
+  switch (operation as RelayOperation) {
+    case "fund": {
+      const value = readUint(body, "value", errors);
+      if (value !== undefined && value === BigInt(0)) {
+        errors.push({ field: "value", code: "INVALID_VALUE", message: "value must be greater than zero" });
+      }
+      data = { operation: "fund", targetAddress: targetAddress!, value: value! };
+      break;
+    }
+    case "depositTo": {
+      const value = readUint(body, "value", errors);
+      if (value !== undefined && value === BigInt(0)) {
+        errors.push({ field: "value", code: "INVALID_VALUE", message: "value must be greater than zero" });
+      }
+      data = { operation: "depositTo", targetAddress: targetAddress!, value: value! };
+      break;
+    }
+    case "submit7702Auth": {
+      const authorizationList = readAuthorizationList(body, errors);
+      data = { operation: "submit7702Auth", targetAddress: targetAddress!, authorizationList: authorizationList! };
+      break;
+    }
+    case "setImplementation": {
+      const signature = readHex(body, "signature", errors);
+      const initArgs = readHex(body, "initArgs", errors, { optional: true }) ?? "0x";
+      data = { operation: "setImplementation", targetAddress: targetAddress!, signature: signature!, initArgs };
+      break;
+    }
+    case "upgradeEOA": {
+      const initArgs = readHex(body, "initArgs", errors);
+      const signature = readHex(body, "signature", errors);
+      const authorizationList = readAuthorizationList(body, errors);
+      data = {
+        operation: "upgradeEOA",
+        targetAddress: targetAddress!,
+        initArgs: initArgs!,
+        signature: signature!,
+        authorizationList: authorizationList!,
+      };
+      break;
+    }
+    case "eraseStorage": {
+      data = { operation: "eraseStorage", targetAddress: targetAddress! };
+      break;
+    }
+  }
+
+  const auth = readRelayAuth(body, errors);
+
+  if (errors.length > 0 || !data || !auth) {
+    return { success: false, errors };
+  }
+  return { success: true, data, auth };
+}
@@ -0,0 +1,76 @@
+import { type Address, type TransactionReceipt } from "viem";
+import { type RelayOperation } from "./relay-schema";
+import { getStore } from "./store";
+
+// Server-only: cumulative gas and ETH the relayer has spent, per operation type, and the
+// EntryPoint deposits it has funded on behalf of smart wallets.
+
+// What a relayer transaction was sent for
+export type RelayerOperation = RelayOperation | "handleOps";
+
+// Running totals for one operation type. Wei amounts are decimal strings.
+export type RelayerSpend = {
+  transactions: number;
+  gasUsed: string;
+  // Gas fees paid (gasUsed * effectiveGasPrice)
+  gasCostWei: string;
+  // ETH sent along with the transactions
+  valueWei: string;
+};
+
+const STORE_NAME = "relayer-accounting";
+
+function spendKey(operation: RelayerOperation) {
+  return `spend:${operation}`;
+}
+
+function depositKey(address: Address) {
+  return `deposit:${address.toLowerCase()}`;
+}
+
+// Adds a mined relayer transaction to the totals for its operation, and to the beneficiary's
+// funded deposit if it was a `depositTo`
+export async function recordRelayerSpend({
+  operation,
+  receipt,
+  value,
+  beneficiary,
+}: {
+  operation: RelayerOperation;
+  receipt: TransactionReceipt;
+  value: bigint;
+  beneficiary?: Address;
+}) {
+  const store = getStore(STORE_NAME);
+  const gasCost = receipt.gasUsed * receipt.effectiveGasPrice;
+  // A reverted transaction still pays for gas, but its value is never transferred
+  const transferred = receipt.status === "success" ? value : BigInt(0);
+
+  await store.update<RelayerSpend>(spendKey(operation), (current) => ({
+    transactions: (current?.transactions ?? 0) + 1,
+    gasUsed: (BigInt(current?.gasUsed ?? "0") + receipt.gasUsed).toString(),
+    gasCostWei: (BigInt(current?.gasCostWei ?? "0") + gasCost).toString(),
+    valueWei: (BigInt(current?.valueWei ?? "0") + transferred).toString(),
+  }));
+
+  if (operation === "depositTo" && beneficiary && transferred > BigInt(0)) {
+    await store.update<string>(depositKey(beneficiary), (current) =>
+      (BigInt(current ?? "0") + transferred).toString()
+    );
+  }
+}
+
+// Returns the running totals for every operation type the relayer has paid for
+export async function getRelayerSpending(): Promise<Partial<Record<RelayerOperation, RelayerSpend>>> {
+  const entries = await getStore(STORE_NAME).entries<RelayerSpend>("spend:");
+  return Object.fromEntries(entries.map(([key, spend]) => [key.slice("spend:".length), spend]));
+}
+
+// Returns every address the relayer has funded an EntryPoint deposit for, with the total funded
+export async function getFundedDeposits(): Promise<{ address: Address; fundedWei: bigint }[]> {
+  const entries = await getStore(STORE_NAME).entries<string>("deposit:");
+  return entries.map(([key, funded]) => ({
+    address: key.slice("deposit:".length) as Address,
+    fundedWei: BigInt(funded),
+  }));
+}
@@ -0,0 +1,174 @@
+import { type Address, formatEther } from "viem";
+import { getStore } from "./store";
+
+// Server-only: limits on what the relayer will pay for, per operation and per target address.
+// Usage is reserved atomically before sending and released if the send fails, or settled to what
+// was actually spent once that is known.
+
+// Operations that spend relayer ETH on behalf of a target address. `sponsorUserOp` is gas paid
+// from the relayer's paymaster deposit, reserved at the op's maximum cost when the sponsorship is signed.
+export type SpendOperation = "fund" | "depositTo" | "sponsorUserOp";
+
+export type RelayerPolicy = {
+  // Max wei sent by a single `fund` request
+  maxFundWei: bigint;
+  // Max wei deposited to the EntryPoint by a single `depositTo` request
+  maxDepositWei: bigint;
+  // Max gas cost, in wei, the paymaster will sponsor for a single user operation
+  maxSponsoredWei: bigint;
+  // Max wei (fund, depositTo and sponsorUserOp combined) spent on one address per UTC day
+  maxDailyWeiPerAddress: bigint;
+  // Max number of `upgradeEOA` calls relayed for one address, ever
+  maxUpgradesPerAddress: number;
+};
+
+// The outcome of a policy check. A refused request carries the HTTP status to respond with.
+export type PolicyDecision = { allowed: true; release: () => Promise<void> } | PolicyRefusal;
+
+export type PolicyRefusal = { allowed: false; status: 403 | 429; code: PolicyErrorCode; message: string };
+
+type SpendRequest = {
+  operation: SpendOperation;
+  targetAddress: Address;
+  value: bigint;
+  // When the spend is reserved, which picks the day whose allowance it counts against; defaults to now
+  at?: Date;
+};
+
+export type PolicyErrorCode =
+  | "FUND_LIMIT_EXCEEDED"
+  | "DEPOSIT_LIMIT_EXCEEDED"
+  | "SPONSOR_LIMIT_EXCEEDED"
+  | "DAILY_LIMIT_EXCEEDED"
+  | "UPGRADE_LIMIT_EXCEEDED";
+
+const STORE_NAME = "relayer-policy";
+
+// Reads the policy from the environment, falling back to limits that cover the demo flows
+export function getRelayerPolicy(): RelayerPolicy {
+  return {
+    maxFundWei: BigInt(process.env.RELAYER_MAX_FUND_WEI || "1000000000000000"), // 0.001 ETH
+    maxDepositWei: BigInt(process.env.RELAYER_MAX_DEPOSIT_WEI || "100000000000000000"), // 0.1 ETH
+    maxSponsoredWei: BigInt(process.env.RELAYER_MAX_SPONSORED_WEI || "100000000000000000"), // 0.1 ETH
+    maxDailyWeiPerAddress: BigInt(process.env.RELAYER_MAX_DAILY_WEI_PER_ADDRESS || "300000000000000000"), // 0.3 ETH
+    maxUpgradesPerAddress: Number(process.env.RELAYER_MAX_UPGRADES_PER_ADDRESS || 10),
+  };
+}
+
+function dailySpendKey(address: Address, date = new Date()) {
+  return `spend:${address.toLowerCase()}:${date.toISOString().slice(0, 10)}`;
+}
+
+// Gives `amount` back to the allowance stored under a daily spend key
+async function returnToAllowance(key: string, amount: bigint) {
+  await getStore(STORE_NAME).update<string>(key, (current) => {
+    const remaining = BigInt(current ?? "0") - amount;
+    return (remaining > BigInt(0) ? remaining : BigInt(0)).toString();
+  });
+}
+
+function upgradesKey(address: Address) {
+  return `upgrades:${address.toLowerCase()}`;
+}
+
+function checkOperationLimit({ operation, value }: SpendRequest, policy: RelayerPolicy): PolicyRefusal | undefined {
+  const { maxPerOperation, code } = {
+    fund: { maxPerOperation: policy.maxFundWei, code: "FUND_LIMIT_EXCEEDED" as const },
+    depositTo: { maxPerOperation: policy.maxDepositWei, code: "DEPOSIT_LIMIT_EXCEEDED" as const },
+    sponsorUserOp: { maxPerOperation: policy.maxSponsoredWei, code: "SPONSOR_LIMIT_EXCEEDED" as const },
+  }[operation];
+  if (value <= maxPerOperation) return;
+  return {
+    allowed: false,
+    status: 403,
+    code,
+    message: `${operation} of ${formatEther(value)} ETH exceeds the per-request limit of ${formatEther(maxPerOperation)} ETH`,
+  };
+}
+
+function dailyLimitRefusal(targetAddress: Address, spentToday: bigint, policy: RelayerPolicy): PolicyRefusal {
+  return {
+    allowed: false,
+    status: 429,
+    code: "DAILY_LIMIT_EXCEEDED",
+    message: `${targetAddress} has used ${formatEther(spentToday)} of its ${formatEther(policy.maxDailyWeiPerAddress)} ETH daily relayer allowance`,
+  };
+}
+
+// Checks a `fund`, `depositTo` or `sponsorUserOp` request against the per-operation and daily
+// limits and, if allowed, reserves the amount against the target's daily allowance
+export async function authorizeRelayerSpend(
+  request: SpendRequest,
+  policy: RelayerPolicy = getRelayerPolicy()
+): Promise<PolicyDecision> {
+  const refusal = checkOperationLimit(request, policy);
+  if (refusal) return refusal;
+  const { targetAddress, value } = request;
+
+  const store = getStore(STORE_NAME);
+  const key = dailySpendKey(targetAddress, request.at);
+  let spentToday = BigInt(0);
+  let reserved = false;
+  await store.update<string>(key, (current) => {
+    spentToday = BigInt(current ?? "0");
+    if (spentToday + value > policy.maxDailyWeiPerAddress) {
+      return spentToday.toString();
+    }
+    reserved = true;
+    return (spentToday + value).toString();
+  });
+
+  if (!reserved) return dailyLimitRefusal(targetAddress, spentToday, policy);
+
+  return { allowed: true, release: () => returnToAllowance(key, value) };
+}
+
+// Settles a spend reserved at `reservedAt` once what it actually cost is known, giving the unspent
+// part back to the target's allowance for the day it was reserved on
+export async function settleRelayerSpend({
+  targetAddress,
+  reserved,
+  spent,
+  reservedAt,
+}: {
+  targetAddress: Address;
+  reserved: bigint;
+  spent: bigint;
+  reservedAt: Date;
+}) {
+  if (spent >= reserved) return;
+  await returnToAllowance(dailySpendKey(targetAddress, reservedAt), reserved - spent);
+}
+
+// Checks an `upgradeEOA` request against the per-address upgrade limit and, if allowed, counts it
+export async function authorizeRelayerUpgrade(
+  targetAddress: Address,
+  policy: RelayerPolicy = getRelayerPolicy()
+): Promise<PolicyDecision> {
+  const store = getStore(STORE_NAME);
+  const key = upgradesKey(targetAddress);
+  let count = 0;
+  let reserved = false;
+  await store.update<number>(key, (current) => {
+    count = current ?? 0;
+    if (count >= policy.maxUpgradesPerAddress) return count;
+    reserved = true;
+    return count + 1;
+  });
+
+  if (!reserved) {
+    return {
+      allowed: false,
+      status: 429,
+      code: "UPGRADE_LIMIT_EXCEEDED",
+      message: `${targetAddress} has reached the limit of ${policy.maxUpgradesPerAddress} relayed upgrades`,
+    };
+  }
+
+  return {
+    allowed: true,
+    release: async () => {
+      await store.update<number>(key, (current) => Math.max((current ?? 1) - 1, 0));
+    },
+  };
+}
@@ -0,0 +1,491 @@
+import {
+  type Abi,
+  type Address,
+  type ContractFunctionName,
+  type EncodeFunctionDataParameters,
+  type Hash,
+  type Hex,
+  type PrivateKeyAccount,
+  type PublicClient,
+  type SignedAuthorization,
+  type TransactionReceipt,
+  type WalletClient,
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  http,
+  keccak256,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { baseSepolia } from "./chains";
+import { type RelayerOperation, recordRelayerSpend } from "./relayer-accounting";
+
+// Server-only: a single signer for `RELAYER_PRIVATE_KEY` that every relayer route sends through.
+// Nonces are allocated locally and sends are serialized so concurrent requests never collide.
+// Every send is tracked until a while after it is mined or dropped, and transactions left pending
+// past a timeout are rebroadcast at the same nonce with bumped fees.
+
+// A transaction to be signed and sent by the relayer
+export type RelayerTransactionRequest = {
+  to: Address;
+  value?: bigint;
+  data?: Hex;
+  authorizationList?: SignedAuthorization[];
+  gas?: bigint;
+  // What the transaction is for, so its cost is accounted once mined
+  operation?: RelayerOperation;
+  // The address the relayer is paying on behalf of
+  beneficiary?: Address;
+};
+
+// Lifecycle of a tracked relayer transaction
+export type RelayerTransactionStatus = "pending" | "mined" | "dropped";
+
+// A relayer transaction and every fee-bumped replacement broadcast for its nonce
+export type TrackedRelayerTransaction = {
+  nonce: number;
+  request: RelayerTransactionRequest;
+  gas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  // All broadcast hashes, oldest first; the last entry is the current one
+  hashes: Hash[];
+  status: RelayerTransactionStatus;
+  // Hash that was actually included, once mined
+  minedHash?: Hash;
+  sentAt: number;
+  lastBroadcastAt: number;
+  // When it was found mined or dropped; it is forgotten RETENTION_MS later
+  settledAt?: number;
+};
+
+type RelayerSigner = {
+  account: PrivateKeyAccount;
+  walletClient: WalletClient;
+  publicClient: PublicClient;
+  // Next nonce to hand out, or undefined when it must be re-read from the chain
+  nextNonce?: number;
+  // Tail of the send queue; each send chains onto the previous one
+  queue: Promise<unknown>;
+  queueDepth: number;
+  // Tracked transactions, indexed by every hash broadcast for them
+  tracked: Map<Hash, TrackedRelayerTransaction>;
+  // The refresh running for each tracked transaction, shared by every caller that asks meanwhile
+  refreshing: Map<TrackedRelayerTransaction, Promise<void>>;
+  monitor?: ReturnType<typeof setInterval>;
+};
+
+// How many times a send is retried after a recoverable nonce error
+const MAX_NONCE_RETRIES = 3;
+
+// How long a transaction may stay pending before it is rebroadcast with higher fees
+const STUCK_TIMEOUT_MS = Number(process.env.RELAYER_STUCK_TX_TIMEOUT_MS || 60_000);
+
+// Percentage added to both fee fields on each rebroadcast; nodes require at least 10%
+const FEE_BUMP_PERCENT = BigInt(Math.max(10, Number(process.env.RELAYER_FEE_BUMP_PERCENT || 20)));
+
+// Maximum number of replacements broadcast for a single nonce
+const MAX_FEE_BUMPS = Number(process.env.RELAYER_MAX_FEE_BUMPS || 5);
+
+// How long a mined or dropped transaction stays tracked, for callers still looking it up by hash
+const RETENTION_MS = Number(process.env.RELAYER_TX_RETENTION_MS || 3_600_000);
+
+// How often pending transactions are checked while any are outstanding
+const MONITOR_INTERVAL_MS = 15_000;
+
+// Keep the signer on globalThis so hot reloads and separate route bundles share one nonce sequence
+const globalForRelayer = globalThis as typeof globalThis & {
+  __relayerSigner?: RelayerSigner;
+};
+
+function getSigner(): RelayerSigner {
+  if (globalForRelayer.__relayerSigner) {
+    return globalForRelayer.__relayerSigner;
+  }
+
+  const privateKey = process.env.RELAYER_PRIVATE_KEY as Hex | undefined;
+  const publicAddress = process.env.NEXT_PUBLIC_RELAYER_ADDRESS;
+  if (!privateKey) {
+    throw new Error("RELAYER_PRIVATE_KEY environment variable is required");
+  }
+  if (!publicAddress) {
+    throw new Error("NEXT_PUBLIC_RELAYER_ADDRESS environment variable is required");
+  }
+
+  const account = privateKeyToAccount(privateKey);
+
+  // Verify the relayer address matches what's public
+  if (account.address.toLowerCase() !== publicAddress.toLowerCase()) {
+    throw new Error("Relayer private key does not match public address");
+  }
+
+  const signer: RelayerSigner = {
+    account,
+    walletClient: createWalletClient({
+      account,
+      chain: baseSepolia,
+      transport: http(),
+    }),
+    publicClient: createPublicClient({
+      chain: baseSepolia,
+      transport: http(),
+    }),
+    queue: Promise.resolve(),
+    queueDepth: 0,
+    tracked: new Map(),
+    refreshing: new Map(),
+  };
+  globalForRelayer.__relayerSigner = signer;
+  return signer;
+}
+
+// Returns the relayer account, validating the relayer environment variables on first use
+export function getRelayerAccount(): PrivateKeyAccount {
+  return getSigner().account;
+}
+
+// Returns the public client shared by the relayer routes
+export function getRelayerPublicClient(): PublicClient {
+  return getSigner().publicClient;
+}
+
+// Returns the locally tracked nonce state and the number of sends waiting in the queue
+export function getRelayerQueueState() {
+  const signer = globalForRelayer.__relayerSigner;
+  return {
+    nextNonce: signer?.nextNonce,
+    queueDepth: signer?.queueDepth ?? 0,
+  };
+}
+
+function errorText(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  const { shortMessage, details } = error as Error & { shortMessage?: string; details?: string };
+  return [error.message, shortMessage, details].filter(Boolean).join(" ");
+}
+
+// The node already has a transaction with this nonce, or has mined past it
+export function isNonceTooLowError(error: unknown): boolean {
+  return /nonce too low|nonce has already been used|NonceTooLow/i.test(errorText(error));
+}
+
+// The node has a pending transaction at this nonce that our fees don't outbid
+export function isReplacementUnderpricedError(error: unknown): boolean {
+  return /replacement transaction underpriced|replacement underpriced/i.test(errorText(error));
+}
+
+// The node already has this exact signed transaction, so it has been broadcast
+export function isAlreadyKnownError(error: unknown): boolean {
+  return /already known|known transaction/i.test(errorText(error));
+}
+
+async function syncNonce(signer: RelayerSigner): Promise<number> {
+  const nonce = await signer.publicClient.getTransactionCount({
+    address: signer.account.address,
+    blockTag: "pending",
+  });
+  signer.nextNonce = nonce;
+  return nonce;
+}
+
+// Signs and broadcasts a transaction at an explicit nonce with explicit gas and fees. It is signed
+// locally so its hash is known even when the node answers that it already has it.
+async function broadcast(
+  signer: RelayerSigner,
+  tx: RelayerTransactionRequest,
+  nonce: number,
+  fees: { gas: bigint; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+): Promise<Hash> {
+  const serializedTransaction = await signer.walletClient.signTransaction({
+    account: signer.account,
+    chain: baseSepolia,
+    to: tx.to,
+    value: tx.value ?? BigInt(0),
+    ...(tx.data && { data: tx.data }),
+    ...(tx.authorizationList && { authorizationList: tx.authorizationList }),
+    gas: fees.gas,
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    nonce,
+  });
+  try {
+    return await signer.walletClient.sendRawTransaction({ serializedTransaction });
+  } catch (error) {
+    // e.g. a retried request after a timeout that did reach the node; sending again would spend twice
+    if (isAlreadyKnownError(error)) return keccak256(serializedTransaction);
+    throw error;
+  }
+}
+
+async function sendWithNonce(signer: RelayerSigner, tx: RelayerTransactionRequest): Promise<Hash> {
+  let nonce = signer.nextNonce ?? (await syncNonce(signer));
+
+  // Fix gas and fees up front so a stuck transaction can be rebroadcast with a known bump
+  const [gas, { maxFeePerGas, maxPriorityFeePerGas }] = await Promise.all([
+    tx.gas ??
+      signer.publicClient.estimateGas({
+        account: signer.account,
+        to: tx.to,
+        value: tx.value ?? BigInt(0),
+        ...(tx.data && { data: tx.data }),
+        ...(tx.authorizationList && { authorizationList: tx.authorizationList }),
+      }),
+    signer.publicClient.estimateFeesPerGas(),
+  ]);
+  const fees = { gas, maxFeePerGas, maxPriorityFeePerGas };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const hash = await broadcast(signer, tx, nonce, fees);
+      signer.nextNonce = nonce + 1;
+      track(signer, { nonce, request: tx, ...fees, hash });
+      return hash;
+    } catch (error) {
+      if (attempt >= MAX_NONCE_RETRIES) {
+        signer.nextNonce = undefined;
+        throw error;
+      }
+      if (isNonceTooLowError(error)) {
+        // Another sender (or a previous process) used this nonce; resync from the pending pool
+        const pending = await syncNonce(signer);
+        nonce = Math.max(pending, nonce + 1);
+        console.warn(`Relayer nonce too low, retrying with nonce ${nonce}`);
+        continue;
+      }
+      if (isReplacementUnderpricedError(error)) {
+        // An unknown transaction already occupies this nonce; resync from the pending pool
+        nonce = await syncNonce(signer);
+        console.warn(`Relayer nonce occupied by a pending transaction, retrying with nonce ${nonce}`);
+        continue;
+      }
+      // Unrecoverable: the nonce was not consumed, so re-read it before the next send
+      signer.nextNonce = undefined;
+      throw error;
+    }
+  }
+}
+
+function track(
+  signer: RelayerSigner,
+  {
+    hash,
+    ...sent
+  }: Pick<TrackedRelayerTransaction, "nonce" | "request" | "gas" | "maxFeePerGas" | "maxPriorityFeePerGas"> & {
+    hash: Hash;
+  }
+) {
+  const now = Date.now();
+  evictSettled(signer, now);
+  signer.tracked.set(hash, {
+    ...sent,
+    hashes: [hash],
+    status: "pending",
+    sentAt: now,
+    lastBroadcastAt: now,
+  });
+
+  // Poll in the background while anything is pending; the timer never keeps the process alive
+  if (!signer.monitor) {
+    signer.monitor = setInterval(() => {
+      checkStuckRelayerTransactions().catch((error) =>
+        console.error("Relayer stuck transaction check failed:", error)
+      );
+    }, MONITOR_INTERVAL_MS);
+    (signer.monitor as { unref?: () => void }).unref?.();
+  }
+}
+
+// Forgets transactions settled more than RETENTION_MS ago, under every hash broadcast for them
+function evictSettled(signer: RelayerSigner, now: number) {
+  Array.from(signer.tracked.entries()).forEach(([hash, entry]) => {
+    if (entry.settledAt !== undefined && now - entry.settledAt > RETENTION_MS) {
+      signer.tracked.delete(hash);
+    }
+  });
+}
+
+function bump(value: bigint): bigint {
+  return (value * (BigInt(100) + FEE_BUMP_PERCENT)) / BigInt(100) + BigInt(1);
+}
+
+// Rebroadcasts a stuck transaction at the same nonce, keeping its calldata and authorization list
+async function replace(signer: RelayerSigner, entry: TrackedRelayerTransaction) {
+  const current = await signer.publicClient.estimateFeesPerGas();
+  const maxPriorityFeePerGas = [bump(entry.maxPriorityFeePerGas), current.maxPriorityFeePerGas].reduce(
+    (a, b) => (a > b ? a : b)
+  );
+  const maxFeePerGas = [bump(entry.maxFeePerGas), current.maxFeePerGas, maxPriorityFeePerGas].reduce(
+    (a, b) => (a > b ? a : b)
+  );
+
+  const hash = await broadcast(signer, entry.request, entry.nonce, {
+    gas: entry.gas,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+  });
+
+  console.warn(
+    `Relayer transaction ${entry.hashes[entry.hashes.length - 1]} (nonce ${entry.nonce}) ` +
+      `was stuck, rebroadcast as ${hash}`
+  );
+  entry.maxFeePerGas = maxFeePerGas;
+  entry.maxPriorityFeePerGas = maxPriorityFeePerGas;
+  entry.lastBroadcastAt = Date.now();
+  entry.hashes.push(hash);
+  signer.tracked.set(hash, entry);
+}
+
+// Marks the transaction mined if any of its hashes has a receipt, recording its spend once
+async function checkMined(signer: RelayerSigner, entry: TrackedRelayerTransaction): Promise<boolean> {
+  for (const hash of entry.hashes) {
+    const receipt = await signer.publicClient.getTransactionReceipt({ hash }).catch(() => null);
+    if (receipt) {
+      entry.status = "mined";
+      entry.minedHash = hash;
+      entry.settledAt = Date.now();
+      if (entry.request.operation) {
+        await recordRelayerSpend({
+          operation: entry.request.operation,
+          receipt,
+          value: entry.request.value ?? BigInt(0),
+          beneficiary: entry.request.beneficiary,
+        }).catch((error) => console.error("Failed to record relayer spend:", error));
+      }
+      return true;
+    }
+  }
+  return false;
+}
+
+// Checks one tracked transaction for inclusion and rebroadcasts it if it has been pending too long.
+// Concurrent callers share a single run, so a receipt is accounted once and a stuck nonce bumped once.
+function refresh(signer: RelayerSigner, entry: TrackedRelayerTransaction): Promise<void> {
+  const running = signer.refreshing.get(entry);
+  if (running) return running;
+
+  const run = refreshOnce(signer, entry).finally(() => {
+    signer.refreshing.delete(entry);
+  });
+  signer.refreshing.set(entry, run);
+  return run;
+}
+
+async function refreshOnce(signer: RelayerSigner, entry: TrackedRelayerTransaction) {
+  if (entry.status !== "pending") return;
+  if (await checkMined(signer, entry)) return;
+
+  const confirmedNonce = await signer.publicClient.getTransactionCount({
+    address: signer.account.address,
+    blockTag: "latest",
+  });
+  if (confirmedNonce > entry.nonce) {
+    // One of our hashes may have been mined since the receipts were checked; otherwise the nonce
+    // was consumed by a transaction we didn't track
+    if (!(await checkMined(signer, entry))) {
+      entry.status = "dropped";
+      entry.settledAt = Date.now();
+    }
+    return;
+  }
+
+  if (Date.now() - entry.lastBroadcastAt < STUCK_TIMEOUT_MS || entry.hashes.length > MAX_FEE_BUMPS) {
+    return;
+  }
+
+  // Run through the queue so replacements never interleave with new sends
+  const run = signer.queue.then(() => replace(signer, entry));
+  signer.queue = run.catch(() => undefined);
+  await run.catch((error) => {
+    // The original may have been mined between the check and the rebroadcast
+    if (!isNonceTooLowError(error)) throw error;
+  });
+}
+
+// Returns every tracked transaction still waiting to be mined, oldest nonce first
+export function getPendingRelayerTransactions(): TrackedRelayerTransaction[] {
+  const signer = globalForRelayer.__relayerSigner;
+  if (!signer) return [];
+  const pending = new Set(
+    Array.from(signer.tracked.values()).filter((entry) => entry.status === "pending")
+  );
+  return Array.from(pending).sort((a, b) => a.nonce - b.nonce);
+}
+
+// Checks every pending relayer transaction, rebroadcasting any that are stuck
+export async function checkStuckRelayerTransactions() {
+  const signer = globalForRelayer.__relayerSigner;
+  if (!signer) return;
+
+  const pending = new Set(
+    Array.from(signer.tracked.values()).filter((entry) => entry.status === "pending")
+  );
+  for (const entry of Array.from(pending)) {
+    await refresh(signer, entry);
+  }
+
+  if (!Array.from(signer.tracked.values()).some((entry) => entry.status === "pending") && signer.monitor) {
+    clearInterval(signer.monitor);
+    signer.monitor = undefined;
+  }
+}
+
+// Looks up a relayer transaction by any of its hashes, refreshing it first so stuck
+// transactions are replaced and the caller always learns the current hash
+export async function getRelayerTransaction(hash: Hash): Promise<TrackedRelayerTransaction | undefined> {
+  const signer = globalForRelayer.__relayerSigner;
+  const entry = signer?.tracked.get(hash);
+  if (!signer || !entry) return;
+  await refresh(signer, entry);
+  return entry;
+}
+
+// Server-side equivalent of `waitForRelayedTransaction`: waits for a relayer transaction to be
+// mined, rebroadcasting it with bumped fees if it gets stuck, and returns the included receipt
+export async function waitForRelayerTransaction(
+  hash: Hash,
+  { pollingInterval = 4_000 }: { pollingInterval?: number } = {}
+): Promise<TransactionReceipt> {
+  const publicClient = getRelayerPublicClient();
+  for (;;) {
+    const entry = await getRelayerTransaction(hash);
+    if (!entry) {
+      return publicClient.waitForTransactionReceipt({ hash });
+    }
+    if (entry.status === "mined") {
+      return publicClient.getTransactionReceipt({ hash: entry.minedHash! });
+    }
+    if (entry.status === "dropped") {
+      throw new Error(`Relayer transaction ${hash} was dropped: its nonce was used by another transaction`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollingInterval));
+  }
+}
+
+// Queues a transaction from the relayer, assigning it the next local nonce
+export async function sendRelayerTransaction(tx: RelayerTransactionRequest): Promise<Hash> {
+  const signer = getSigner();
+  signer.queueDepth++;
+  const send = signer.queue.then(() => sendWithNonce(signer, tx));
+  // Keep the queue alive even if this send fails
+  signer.queue = send.catch(() => undefined).finally(() => {
+    signer.queueDepth--;
+  });
+  return send;
+}
+
+// Encodes a contract call and queues it as a relayer transaction
+export async function writeRelayerContract<
+  const abi extends Abi | readonly unknown[],
+  functionName extends ContractFunctionName<abi, "nonpayable" | "payable">,
+>(
+  parameters: EncodeFunctionDataParameters<abi, functionName> & {
+    address: Address;
+    value?: bigint;
+    operation?: RelayerOperation;
+    beneficiary?: Address;
+  }
+): Promise<Hash> {
+  const { address, value, operation, beneficiary } = parameters;
+  const data = encodeFunctionData<abi, functionName>(parameters);
+  return sendRelayerTransaction({ to: address, value, data, operation, beneficiary });
+}
@@ -0,0 +1,156 @@
+import {
+  type Abi,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type SignedAuthorization,
+  type StateOverride,
+  type TransactionReceipt,
+  BaseError,
+  concat,
+  decodeErrorResult,
+  isHex,
+} from "viem";
+import { recoverAuthorizationAddress } from "viem/utils";
+import { EIP7702ProxyAbi } from "./abi/EIP7702Proxy";
+import { MAGIC_PREFIX, ZERO_ADDRESS } from "./constants";
+import { serializeBigInts } from "./relayer-utils";
+
+// A revert decoded against a known ABI, safe to return as JSON
+export type DecodedRevert = {
+  // Custom error name, or `Error`/`Panic` for Solidity's built-in reverts
+  errorName: string;
+  args: unknown[];
+  // Raw revert data as returned by the node
+  data: Hex;
+};
+
+// The result of an `eth_call` pre-flight of a relayer transaction
+export type SimulationResult =
+  | { success: true }
+  | { success: false; revert?: DecodedRevert; message: string };
+
+// Finds the raw revert data anywhere in a viem error's cause chain
+export function getRevertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) return;
+  let data: Hex | undefined;
+  error.walk((cause) => {
+    const candidate = (cause as { data?: unknown }).data;
+    const raw =
+      typeof candidate === "object" && candidate !== null
+        ? (candidate as { data?: unknown }).data
+        : candidate;
+    if (typeof raw === "string" && isHex(raw) && raw.length > 2) {
+      data = raw;
+      return true;
+    }
+    return false;
+  });
+  return data;
+}
+
+// Decodes revert data against the given ABI, returning undefined if no error in it matches
+export function decodeRevert(data: Hex, abi: Abi = EIP7702ProxyAbi): DecodedRevert | undefined {
+  try {
+    const { errorName, args } = decodeErrorResult({ abi, data });
+    return { errorName, args: serializeBigInts(args ?? []), data };
+  } catch {
+    return;
+  }
+}
+
+// Builds a state override that installs each authorization's delegation designator on its authority,
+// so an `eth_call` sees the account exactly as it will be once the type-4 transaction applies it
+export async function getAuthorizationStateOverride(
+  authorizationList: readonly SignedAuthorization[]
+): Promise<StateOverride> {
+  return Promise.all(
+    authorizationList.map(async (authorization) => {
+      const authority = await recoverAuthorizationAddress({ authorization });
+      // Delegating to the zero address clears the account's code
+      const code =
+        authorization.address.toLowerCase() === ZERO_ADDRESS
+          ? ("0x" as const)
+          : concat([MAGIC_PREFIX, authorization.address]);
+      return { address: authority, code };
+    })
+  );
+}
+
+// Runs the exact relayer transaction through `eth_call`, including any 7702 authorizations,
+// and decodes a revert against `abi` (the EIP7702Proxy errors by default). Pass `blockNumber`
+// to run it against historical state instead of the latest block.
+export async function simulateRelayerTransaction(
+  publicClient: PublicClient,
+  {
+    from,
+    to,
+    data,
+    value,
+    authorizationList,
+    abi = EIP7702ProxyAbi,
+    blockNumber,
+  }: {
+    from: Address;
+    to: Address;
+    data?: Hex;
+    value?: bigint;
+    authorizationList?: readonly SignedAuthorization[];
+    abi?: Abi;
+    blockNumber?: bigint;
+  }
+): Promise<SimulationResult> {
+  const stateOverride = authorizationList?.length
+    ? await getAuthorizationStateOverride(authorizationList)
+    : undefined;
+
+  try {
+    await publicClient.call({
+      account: from,
+      to,
+      data,
+      value,
+      stateOverride,
+      blockNumber,
+    });
+    return { success: true };
+  } catch (error) {
+    const revertData = getRevertData(error);
+    const isRevert =
+      revertData !== undefined || /revert/i.test(error instanceof Error ? error.message : String(error));
+    // Transport and RPC failures are not simulation results; let the caller surface them
+    if (!isRevert) throw error;
+
+    const revert = revertData ? decodeRevert(revertData, abi) : undefined;
+    const message = revert
+      ? `Transaction would revert with ${revert.errorName}`
+      : `Transaction would revert${revertData ? ` with unknown error data ${revertData}` : ""}`;
+    return { success: false, revert, message };
+  }
+}
+
+// Explains why a mined transaction reverted by replaying it against the state of the previous block.
+// Returns undefined if the replay succeeds, e.g. because the revert depended on ordering within the block.
+export async function getTransactionRevertReason(
+  publicClient: PublicClient,
+  receipt: TransactionReceipt,
+  abi: Abi = EIP7702ProxyAbi
+): Promise<string | undefined> {
+  const transaction = await publicClient.getTransaction({ hash: receipt.transactionHash });
+  if (!transaction.to) return;
+
+  const simulation = await simulateRelayerTransaction(publicClient, {
+    from: transaction.from,
+    to: transaction.to,
+    data: transaction.input,
+    value: transaction.value,
+    authorizationList: transaction.authorizationList,
+    abi,
+    blockNumber: receipt.blockNumber - BigInt(1),
+  });
+  if (simulation.success) return;
+  if (simulation.revert?.errorName === "Error" || simulation.revert?.errorName === "FailedOp") {
+    return `${simulation.revert.errorName}: ${simulation.revert.args.join(", ")}`;
+  }
+  return simulation.revert?.errorName ?? simulation.message;
+}
@@ -0,0 +1,159 @@
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  type LocalAccount,
+  decodeAbiParameters,
+  encodeAbiParameters,
+  encodePacked,
+  hexToBigInt,
+  hexToString,
+  parseSignature,
+  size,
+  slice,
+  stringToHex,
+} from "viem";
+import {
+  type ToCoinbaseSmartAccountParameters,
+  type UserOperation,
+  type WebAuthnAccount,
+  entryPoint07Abi,
+  toCoinbaseSmartAccount,
+} from "viem/account-abstraction";
+import { readContract } from "viem/actions";
+import {
+  DEFAULT_ENTRYPOINT_VERSION,
+  ENTRYPOINTS,
+  type EntryPointVersion,
+  getUserOperationHashForEntryPoint,
+} from "./entrypoint";
+
+// A Coinbase Smart Wallet account whose user operations target a chosen EntryPoint version.
+// viem's `toCoinbaseSmartAccount` only builds v0.6 ops; for v0.7 and v0.8 the EntryPoint, nonce
+// and userOp hash are swapped for that version's while the owner signature format stays the same.
+// The account implementation itself must trust the chosen EntryPoint for its ops to validate.
+
+// The wallet's `WebAuthnAuth` struct: a P-256 signature over the WebAuthn assertion of a userOp hash
+export type WebAuthnAuth = {
+  authenticatorData: Hex;
+  clientDataJSON: string;
+  challengeIndex: bigint;
+  typeIndex: bigint;
+  r: bigint;
+  s: bigint;
+};
+
+const WEBAUTHN_AUTH_TUPLE = {
+  type: "tuple",
+  components: [
+    { name: "authenticatorData", type: "bytes" },
+    { name: "clientDataJSON", type: "bytes" },
+    { name: "challengeIndex", type: "uint256" },
+    { name: "typeIndex", type: "uint256" },
+    { name: "r", type: "uint256" },
+    { name: "s", type: "uint256" },
+  ],
+} as const;
+
+const SIGNATURE_WRAPPER_TUPLE = {
+  type: "tuple",
+  components: [
+    { name: "ownerIndex", type: "uint8" },
+    { name: "signatureData", type: "bytes" },
+  ],
+} as const;
+
+// ABI-encodes a WebAuthn signature as the wallet decodes it from `SignatureWrapper.signatureData`
+export function encodeWebAuthnAuth({ clientDataJSON, ...auth }: WebAuthnAuth): Hex {
+  return encodeAbiParameters([WEBAUTHN_AUTH_TUPLE], [{ ...auth, clientDataJSON: stringToHex(clientDataJSON) }]);
+}
+
+// Decodes a passkey owner's `SignatureWrapper.signatureData`
+export function decodeWebAuthnAuth(signatureData: Hex): WebAuthnAuth {
+  const [{ clientDataJSON, ...auth }] = decodeAbiParameters([WEBAUTHN_AUTH_TUPLE], signatureData);
+  return { ...auth, clientDataJSON: hexToString(clientDataJSON) };
+}
+
+// The `SignatureWrapper` the wallet's `validateUserOp` decodes: the signing owner's index and its signature
+export function wrapSignature(ownerIndex: number, signature: Hex): Hex {
+  // ECDSA signatures are packed as r, s, v with v in {27, 28}
+  const signatureData =
+    size(signature) === 65
+      ? (() => {
+          const { r, s, yParity } = parseSignature(signature);
+          return encodePacked(["bytes32", "bytes32", "uint8"], [r, s, yParity === 0 ? 27 : 28]);
+        })()
+      : signature;
+  return encodeAbiParameters([SIGNATURE_WRAPPER_TUPLE], [{ ownerIndex, signatureData }]);
+}
+
+// Splits a wrapped signature back into the owner index and that owner's signature
+export function decodeSignatureWrapper(signature: Hex): { ownerIndex: number; signatureData: Hex } {
+  const [{ ownerIndex, signatureData }] = decodeAbiParameters([SIGNATURE_WRAPPER_TUPLE], signature);
+  return { ownerIndex, signatureData };
+}
+
+// Signs a userOp hash with a local (secp256k1) or WebAuthn (P-256) owner, encoding WebAuthn
+// signatures as the wallet's `WebAuthnAuth` struct
+async function signWithOwner(owner: LocalAccount | WebAuthnAccount, hash: Hash): Promise<Hex> {
+  if (owner.type === "local") {
+    if (!owner.sign) throw new Error("Owner account does not support raw signing");
+    return owner.sign({ hash });
+  }
+
+  const { signature, webauthn } = await owner.sign({ hash });
+  return encodeWebAuthnAuth({
+    authenticatorData: webauthn.authenticatorData,
+    clientDataJSON: webauthn.clientDataJSON,
+    challengeIndex: BigInt(webauthn.challengeIndex),
+    typeIndex: BigInt(webauthn.typeIndex),
+    r: hexToBigInt(slice(signature, 0, 32)),
+    s: hexToBigInt(slice(signature, 32, 64)),
+  });
+}
+
+// Creates a Coinbase Smart Wallet account for `entryPointVersion` (v0.6 by default). For v0.8 ops
+// from an EIP-7702 sender, `eip7702Delegate` is the delegate its userOp hash commits to.
+export async function toCoinbaseSmartAccountForEntryPoint({
+  entryPointVersion = DEFAULT_ENTRYPOINT_VERSION,
+  eip7702Delegate,
+  ...parameters
+}: ToCoinbaseSmartAccountParameters & { entryPointVersion?: EntryPointVersion; eip7702Delegate?: Address }) {
+  const account = await toCoinbaseSmartAccount(parameters);
+  if (entryPointVersion === "0.6") return account;
+
+  const { client, ownerIndex = 0, owners } = parameters;
+  const owner = owners[ownerIndex] ?? owners[0];
+  // v0.8 shares v0.7's ABI and op shape; viem only needs to know the latter
+  const entryPoint = {
+    abi: entryPoint07Abi,
+    address: ENTRYPOINTS[entryPointVersion].address,
+    version: "0.7",
+  } as const;
+
+  return {
+    ...account,
+    entryPoint,
+    async getNonce({ key = BigInt(0) }: { key?: bigint } = {}) {
+      return readContract(client, {
+        address: entryPoint.address,
+        abi: entryPoint.abi,
+        functionName: "getNonce",
+        args: [await account.getAddress(), key],
+      });
+    },
+    async signUserOperation(
+      parameters: Omit<UserOperation<"0.7">, "sender"> & { sender?: Address; chainId?: number }
+    ): Promise<Hex> {
+      const { chainId = client.chain!.id, ...userOperation } = parameters;
+      if (typeof owner === "string") throw new Error("Owner cannot sign");
+
+      const hash = getUserOperationHashForEntryPoint(
+        { ...userOperation, sender: await account.getAddress() },
+        entryPointVersion,
+        { chainId, delegate: eip7702Delegate }
+      );
+      return wrapSignature(ownerIndex, await signWithOwner(owner, hash));
+    },
+  };
+}
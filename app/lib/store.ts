@@ -0,0 +1,139 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+// Server-only: a minimal persistent key-value store for relayer state (policy counters, jobs, ...).
+// Values must be JSON-serializable; store wei amounts as decimal strings.
+
+// A named, pluggable store. Implementations must apply `update` atomically per key.
+export type KeyValueStore = {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Deletes every key in one write
+  deleteMany(keys: string[]): Promise<void>;
+  // Applies `fn` to the current value and stores the result, without interleaving other writes
+  update<T>(key: string, fn: (current: T | undefined) => T): Promise<T>;
+  // Lists all entries whose key starts with `prefix`
+  entries<T>(prefix?: string): Promise<[string, T][]>;
+};
+
+// Directory holding file-backed stores, one JSON file per store name
+const DATA_DIR = process.env.RELAYER_DATA_DIR || path.join(process.cwd(), ".relayer-data");
+
+// Creates an in-memory store, useful for tests or ephemeral deployments
+export function createMemoryStore(initial: Record<string, unknown> = {}): KeyValueStore {
+  const data = new Map<string, unknown>(Object.entries(initial));
+  return {
+    async get<T>(key: string) {
+      return data.get(key) as T | undefined;
+    },
+    async set<T>(key: string, value: T) {
+      data.set(key, value);
+    },
+    async delete(key: string) {
+      data.delete(key);
+    },
+    async deleteMany(keys: string[]) {
+      keys.forEach((key) => data.delete(key));
+    },
+    async update<T>(key: string, fn: (current: T | undefined) => T) {
+      const next = fn(data.get(key) as T | undefined);
+      data.set(key, next);
+      return next;
+    },
+    async entries<T>(prefix = "") {
+      return Array.from(data.entries()).filter(([key]) => key.startsWith(prefix)) as [string, T][];
+    },
+  };
+}
+
+// Creates a store persisted to a single JSON file. Reads are served from memory after the first load,
+// and writes are serialized and flushed atomically (write to a temp file, then rename).
+export function createFileStore(filePath: string): KeyValueStore {
+  let loaded: Promise<Map<string, unknown>> | undefined;
+  let writes: Promise<unknown> = Promise.resolve();
+
+  const load = () => {
+    loaded ??= readFile(filePath, "utf-8")
+      .then((contents) => new Map<string, unknown>(Object.entries(JSON.parse(contents))))
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === "ENOENT") return new Map<string, unknown>();
+        throw error;
+      });
+    return loaded;
+  };
+
+  const flush = async (data: Map<string, unknown>) => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(Object.fromEntries(data), null, 2));
+    await rename(tmpPath, filePath);
+  };
+
+  // Runs a mutation after all previously queued ones, then persists the result
+  const mutate = <R>(fn: (data: Map<string, unknown>) => R): Promise<R> => {
+    const run = writes.then(async () => {
+      const data = await load();
+      const result = fn(data);
+      await flush(data);
+      return result;
+    });
+    writes = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    async get<T>(key: string) {
+      await writes;
+      return (await load()).get(key) as T | undefined;
+    },
+    set<T>(key: string, value: T) {
+      return mutate((data) => {
+        data.set(key, value);
+      });
+    },
+    delete(key: string) {
+      return mutate((data) => {
+        data.delete(key);
+      });
+    },
+    deleteMany(keys: string[]) {
+      return mutate((data) => {
+        keys.forEach((key) => data.delete(key));
+      });
+    },
+    update<T>(key: string, fn: (current: T | undefined) => T) {
+      return mutate((data) => {
+        const next = fn(data.get(key) as T | undefined);
+        data.set(key, next);
+        return next;
+      });
+    },
+    async entries<T>(prefix = "") {
+      await writes;
+      return Array.from((await load()).entries()).filter(([key]) => key.startsWith(prefix)) as [string, T][];
+    },
+  };
+}
+
+// Keep stores on globalThis so every route shares one instance (and one write queue) per name
+const globalForStores = globalThis as typeof globalThis & {
+  __relayerStores?: Map<string, KeyValueStore>;
+};
+
+// Returns the store registered under `name`, creating a file-backed one on first use
+export function getStore(name: string): KeyValueStore {
+  globalForStores.__relayerStores ??= new Map();
+  let store = globalForStores.__relayerStores.get(name);
+  if (!store) {
+    store = createFileStore(path.join(DATA_DIR, `${name}.json`));
+    globalForStores.__relayerStores.set(name, store);
+  }
+  return store;
+}
+
+// Replaces the store registered under `name`, e.g. with a memory store or a database-backed one
+export function setStore(name: string, store: KeyValueStore) {
+  globalForStores.__relayerStores ??= new Map();
+  globalForStores.__relayerStores.set(name, store);
+}
@@ -0,0 +1,105 @@
+import { type Address, type Hex, type PublicClient, encodeFunctionData, encodePacked, isAddress, maxUint256 } from "viem";
+import { type UserOperation } from "viem/account-abstraction";
+import { MOCK_ERC20_ABI } from "./abi/MockERC20";
+import { MOCK_TOKEN_PAYMASTER_ABI } from "./abi/MockTokenPaymaster";
+
+// ERC-20 token paymaster mode: instead of ETH, an EntryPoint v0.6 op pays for its gas in the
+// token of `MockTokenPaymaster` (see contracts/), at the exchange rate set on the paymaster.
+// The paymaster collects the op's maximum cost while validating it and refunds the unused part
+// after execution, so the wallet's allowance must be in place before the op, and an op whose call
+// reverts still pays.
+
+// What an op with the given gas limits and fees can cost in the paymaster's token
+export type TokenPaymasterQuote = {
+  paymaster: Address;
+  token: Address;
+  // Token base units per 1 ETH
+  exchangeRate: bigint;
+  // The most the op can cost in wei, including the paymaster's postOp
+  maxCost: bigint;
+  // `maxCost` in token base units, as encoded in `paymasterAndData`
+  maxTokenCost: bigint;
+};
+
+type Call = { to: Address; value: bigint; data: Hex };
+
+// The EntryPoint v0.6 prefund for an op with a paymaster counts its verification gas three times
+const PAYMASTER_VERIFICATION_GAS_MULTIPLIER = BigInt(3);
+
+const WEI_PER_ETH = BigInt("1000000000000000000");
+
+// Gas limits to price an op at before it has been estimated: well above what a transfer op needs, so
+// a wallet set up for this price can pay for one
+export const TOKEN_PAYMASTER_GAS_CEILING = {
+  callGasLimit: BigInt(500_000),
+  verificationGasLimit: BigInt(500_000),
+  preVerificationGas: BigInt(100_000),
+};
+
+// The deployed MockTokenPaymaster, if token payments are configured
+export function getTokenPaymasterAddress(): Address | undefined {
+  const address = process.env.NEXT_PUBLIC_TOKEN_PAYMASTER_ADDRESS;
+  return address && isAddress(address) ? address : undefined;
+}
+
+// Prices an op's maximum gas cost in the paymaster's token. The gas limits and fees must be final.
+export async function getTokenPaymasterQuote(
+  publicClient: PublicClient,
+  paymaster: Address,
+  userOp: Pick<UserOperation<"0.6">, "callGasLimit" | "verificationGasLimit" | "preVerificationGas" | "maxFeePerGas">
+): Promise<TokenPaymasterQuote> {
+  const [token, exchangeRate, postOpGas] = await Promise.all([
+    publicClient.readContract({ address: paymaster, abi: MOCK_TOKEN_PAYMASTER_ABI, functionName: "token" }),
+    publicClient.readContract({ address: paymaster, abi: MOCK_TOKEN_PAYMASTER_ABI, functionName: "exchangeRate" }),
+    publicClient.readContract({ address: paymaster, abi: MOCK_TOKEN_PAYMASTER_ABI, functionName: "POST_OP_GAS" }),
+  ]);
+
+  const maxCost =
+    (userOp.callGasLimit +
+      userOp.verificationGasLimit * PAYMASTER_VERIFICATION_GAS_MULTIPLIER +
+      userOp.preVerificationGas +
+      postOpGas) *
+    userOp.maxFeePerGas;
+  // Rounded up, as the paymaster does
+  const maxTokenCost = (maxCost * exchangeRate + WEI_PER_ETH - BigInt(1)) / WEI_PER_ETH;
+
+  return { paymaster, token, exchangeRate, maxCost, maxTokenCost };
+}
+
+// `paymaster || token || maxTokenCost`
+export function encodeTokenPaymasterAndData({ paymaster, token, maxTokenCost }: TokenPaymasterQuote): Hex {
+  return encodePacked(["address", "address", "uint256"], [paymaster, token, maxTokenCost]);
+}
+
+// The calls `owner` must make before it can pay `quote`: an unlimited allowance for the paymaster
+// and, as the mock token is freely mintable, a top-up of the token. They can't be batched into the
+// paying op itself, whose payment is collected before its calls run.
+export async function getTokenPaymasterSetupCalls(
+  publicClient: PublicClient,
+  owner: Address,
+  { paymaster, token, maxTokenCost }: TokenPaymasterQuote
+): Promise<Call[]> {
+  const [balance, allowance] = await Promise.all([
+    publicClient.readContract({ address: token, abi: MOCK_ERC20_ABI, functionName: "balanceOf", args: [owner] }),
+    publicClient.readContract({ address: token, abi: MOCK_ERC20_ABI, functionName: "allowance", args: [owner, paymaster] }),
+  ]);
+
+  const approveCall: Call = {
+    to: token,
+    value: BigInt(0),
+    data: encodeFunctionData({ abi: MOCK_ERC20_ABI, functionName: "approve", args: [paymaster, maxUint256] }),
+  };
+  return [
+    ...(balance < maxTokenCost ? [getMockTokenMintCall(token, owner, maxTokenCost - balance)] : []),
+    ...(allowance < maxTokenCost ? [approveCall] : []),
+  ];
+}
+
+// Mints the mock token to `to`; only possible because the mock token is freely mintable
+export function getMockTokenMintCall(token: Address, to: Address, amount: bigint): Call {
+  return {
+    to: token,
+    value: BigInt(0),
+    data: encodeFunctionData({ abi: MOCK_ERC20_ABI, functionName: "mint", args: [to, amount] }),
+  };
+}
@@ -0,0 +1,310 @@
+import { type Abi, type Hex, decodeErrorResult, isHex } from "viem";
+import { entryPoint07Abi } from "viem/account-abstraction";
+import { ENTRYPOINT_ABI } from "./abi/EntryPoint";
+import { COINBASE_SMART_WALLET_ERRORS_ABI } from "./abi/CoinbaseSmartWallet";
+
+// Turns a failed UserOperation into something a user can act on. Bundlers and viem report failures
+// as EntryPoint `AAxx` reason strings, `FailedOp` / `FailedOpWithRevert` / `SignatureValidationFailed`
+// revert data, or custom errors from the wallet itself; each is matched against a catalogue here.
+// Safe to use from the browser and the server.
+
+export type UserOperationErrorExplanation = {
+  // `AAxx` for EntryPoint errors, otherwise the custom error's name
+  code: string;
+  title: string;
+  cause: string;
+  suggestedFix: string;
+};
+
+type CatalogueEntry = Omit<UserOperationErrorExplanation, "code">;
+
+// Bundle-level failures are the bundler's to fix, not the op's
+const BUNDLER_FIX = "This is a bundler problem rather than one with the op; retry, and report it if it persists.";
+
+// The EntryPoint's error codes (v0.6 and v0.7). The first digit is the stage that failed:
+// 1x creating the sender, 2x the account, 3x the paymaster, 4x/5x gas accounting, 9x the bundle.
+const ENTRYPOINT_ERRORS: Record<string, CatalogueEntry> = {
+  AA10: {
+    title: "Sender already constructed",
+    cause: "The op has initCode, but the sender already has code.",
+    suggestedFix: "Send the op with empty initCode; the account is already deployed or delegated.",
+  },
+  AA13: {
+    title: "initCode failed or out of gas",
+    cause: "The factory call in initCode reverted or ran out of verification gas.",
+    suggestedFix: "Check the factory address and calldata in initCode, or raise verificationGasLimit.",
+  },
+  AA14: {
+    title: "initCode must return sender",
+    cause: "The factory returned a different address from the op's sender.",
+    suggestedFix: "Set sender to the address the factory computes for these owners and salt.",
+  },
+  AA15: {
+    title: "initCode must create sender",
+    cause: "The factory call succeeded but left no code at the sender.",
+    suggestedFix: "Check that the factory deploys the account, or for EIP-7702 that the authorization was applied.",
+  },
+  AA20: {
+    title: "Account not deployed",
+    cause: "The sender has no code and the op has no initCode.",
+    suggestedFix: "Upgrade the EOA first so its EIP-7702 delegation is in place, or include initCode.",
+  },
+  AA21: {
+    title: "Didn't pay prefund",
+    cause: "With no paymaster, the op's maximum gas cost comes from the wallet's EntryPoint deposit, and the deposit plus what the wallet paid during validation doesn't cover it.",
+    suggestedFix: "Top up the wallet's deposit in the EntryPoint Deposit panel, fund the wallet's ETH balance, or pay gas through a paymaster.",
+  },
+  AA22: {
+    title: "Expired or not due",
+    cause: "The current block time is outside the validAfter/validUntil window the account returned.",
+    suggestedFix: "Sign the op again so its validity window covers the time it will be included.",
+  },
+  AA23: {
+    title: "Account validation reverted",
+    cause: "The wallet's validateUserOp reverted or ran out of verificationGasLimit.",
+    suggestedFix: "Check that the wallet is initialized and not disrupted and that the signing owner exists, then re-estimate gas.",
+  },
+  AA24: {
+    title: "Signature error",
+    cause: "The wallet rejected the signature: it doesn't cover this op's hash for the owner index it names.",
+    suggestedFix: "Sign the op after every field (gas limits, fees, paymasterAndData) is final, with an owner at the encoded index.",
+  },
+  AA25: {
+    title: "Invalid account nonce",
+    cause: "The op's nonce isn't the next one for its nonce key.",
+    suggestedFix: "Read the nonce from the EntryPoint again; an earlier op may have been included or still be pending.",
+  },
+  AA26: {
+    title: "Over verificationGasLimit",
+    cause: "Account validation used more gas than the op's verificationGasLimit.",
+    suggestedFix: "Re-estimate gas or raise verificationGasLimit.",
+  },
+  AA30: {
+    title: "Paymaster not deployed",
+    cause: "The address in paymasterAndData has no code.",
+    suggestedFix: "Check the paymaster address this app is configured with.",
+  },
+  AA31: {
+    title: "Paymaster deposit too low",
+    cause: "The paymaster's EntryPoint deposit can't cover the op's maximum gas cost.",
+    suggestedFix: "Deposit more ETH for the paymaster in the EntryPoint; GET /api/relayer/status shows its current deposit.",
+  },
+  AA32: {
+    title: "Paymaster expired or not due",
+    cause: "The current block time is outside the window the paymaster signed the sponsorship for.",
+    suggestedFix: "Request a fresh sponsorship and submit the op promptly.",
+  },
+  AA33: {
+    title: "Paymaster validation reverted",
+    cause: "The paymaster's validatePaymasterUserOp reverted or ran out of gas.",
+    suggestedFix: "For the token paymaster, check the wallet's token balance and allowance; otherwise re-estimate gas.",
+  },
+  AA34: {
+    title: "Paymaster signature error",
+    cause: "The paymaster's signature doesn't cover this op, usually because a field changed after sponsorship.",
+    suggestedFix: "Request sponsorship once the gas fields are final, and sign the op without changing it afterwards.",
+  },
+  AA36: {
+    title: "Over paymasterVerificationGasLimit",
+    cause: "Paymaster validation used more gas than the op's paymasterVerificationGasLimit.",
+    suggestedFix: "Re-estimate gas or raise paymasterVerificationGasLimit.",
+  },
+  AA40: {
+    title: "Over verificationGasLimit",
+    cause: "Validation of the account and paymaster together used more gas than verificationGasLimit.",
+    suggestedFix: "Re-estimate gas or raise verificationGasLimit.",
+  },
+  AA41: {
+    title: "Too little verificationGas",
+    cause: "Not enough verification gas was left for the paymaster's postOp context.",
+    suggestedFix: "Raise verificationGasLimit.",
+  },
+  AA50: {
+    title: "postOp reverted",
+    cause: "The paymaster's postOp reverted, e.g. a token paymaster couldn't collect its payment.",
+    suggestedFix: "Check the wallet's token balance and allowance for the token paymaster.",
+  },
+  AA51: {
+    title: "Prefund below actual gas cost",
+    cause: "The gas the op actually used cost more than its prefund.",
+    suggestedFix: "Raise the gas limits so the prefund covers the actual cost.",
+  },
+  AA90: { title: "Invalid beneficiary", cause: "handleOps was called with the zero address as beneficiary.", suggestedFix: BUNDLER_FIX },
+  AA91: { title: "Failed send to beneficiary", cause: "The EntryPoint couldn't pay the bundle's beneficiary.", suggestedFix: BUNDLER_FIX },
+  AA92: { title: "Internal call only", cause: "An EntryPoint-internal function was called from outside.", suggestedFix: BUNDLER_FIX },
+  AA93: {
+    title: "Invalid paymasterAndData",
+    cause: "paymasterAndData is set but too short to hold a paymaster address and its gas limits.",
+    suggestedFix: "Rebuild paymasterAndData from the paymaster's response.",
+  },
+  AA94: {
+    title: "Gas values overflow",
+    cause: "A gas limit or fee in the op exceeds what the EntryPoint accepts (uint120).",
+    suggestedFix: "Use realistic gas limits and fees.",
+  },
+  AA95: { title: "Out of gas", cause: "The handleOps transaction ran out of gas.", suggestedFix: BUNDLER_FIX },
+  AA96: {
+    title: "Invalid aggregator",
+    cause: "The op was bundled under a signature aggregator the account doesn't use.",
+    suggestedFix: BUNDLER_FIX,
+  },
+};
+
+// `SignatureValidationFailed` from the EntryPoint and the Coinbase Smart Wallet's custom errors
+const CUSTOM_ERRORS: Record<string, CatalogueEntry> = {
+  SignatureValidationFailed: {
+    title: "Aggregated signature rejected",
+    cause: "The signature aggregator rejected the combined signature of the ops it aggregates.",
+    suggestedFix: "Sign the ops again, or submit them without an aggregator.",
+  },
+  Initialized: {
+    title: "Wallet already initialized",
+    cause: "initialize was called on a wallet that already has owners.",
+    suggestedFix: "Upgrade without initArgs, or recover the account if its owner storage was disrupted.",
+  },
+  SelectorNotAllowed: {
+    title: "Selector not allowed cross-chain",
+    cause: "executeWithoutChainIdValidation was called with a function that can't be replayed across chains.",
+    suggestedFix: "Make the call through execute or executeBatch instead.",
+  },
+  InvalidNonceKey: {
+    title: "Invalid nonce key",
+    cause: "The op's nonce key doesn't match its call: the replayable key is reserved for executeWithoutChainIdValidation.",
+    suggestedFix: "Use a regular nonce key for execute and executeBatch ops.",
+  },
+  Unauthorized: {
+    title: "Unauthorized caller",
+    cause: "The call didn't come from an owner, the wallet itself or the EntryPoint.",
+    suggestedFix: "Make the call from a UserOperation signed by one of the wallet's owners.",
+  },
+  AlreadyOwner: {
+    title: "Already an owner",
+    cause: "The owner being added is already registered on the wallet.",
+    suggestedFix: "Skip adding it, or add a different owner.",
+  },
+  NoOwnerAtIndex: {
+    title: "No owner at index",
+    cause: "The owner index in the signature or call was never used or has been removed.",
+    suggestedFix: "Use the index of a current owner; ownerAtIndex returns empty bytes for unused ones.",
+  },
+  WrongOwnerAtIndex: {
+    title: "Wrong owner at index",
+    cause: "The owner passed to removeOwnerAtIndex isn't the one stored at that index.",
+    suggestedFix: "Read ownerAtIndex and pass exactly those bytes.",
+  },
+  InvalidOwnerBytesLength: {
+    title: "Invalid owner length",
+    cause: "An owner must be 32 bytes (an address) or 64 bytes (a passkey's P-256 x and y).",
+    suggestedFix: "Encode the owner as an ABI-encoded address or the passkey's raw public key without its 0x04 prefix.",
+  },
+  InvalidEthereumAddressOwner: {
+    title: "Invalid address owner",
+    cause: "A 32-byte owner isn't a left-padded 20-byte address.",
+    suggestedFix: "ABI-encode the owner address.",
+  },
+  LastOwner: {
+    title: "Can't remove the last owner",
+    cause: "removeOwnerAtIndex would leave the wallet without owners.",
+    suggestedFix: "Add another owner first, or use removeLastOwner deliberately.",
+  },
+  NotLastOwner: {
+    title: "Not the last owner",
+    cause: "removeLastOwner only works when exactly one owner remains.",
+    suggestedFix: "Use removeOwnerAtIndex while other owners remain.",
+  },
+};
+
+// Every error a revert from handleOps or the wallet may decode to; `Error(string)` is built in
+const REVERT_ABI = [...ENTRYPOINT_ABI, ...entryPoint07Abi, ...COINBASE_SMART_WALLET_ERRORS_ABI] as Abi;
+
+const AA_CODE_PATTERN = /\bAA\d\d\b/;
+
+function fromCatalogue(code: string, catalogue: Record<string, CatalogueEntry>) {
+  const entry = catalogue[code];
+  return entry ? { code, ...entry } : undefined;
+}
+
+// Explains an EntryPoint reason string such as "AA21 didn't pay prefund"
+function explainReason(reason: string): UserOperationErrorExplanation | undefined {
+  const code = reason.match(AA_CODE_PATTERN)?.[0];
+  return code ? fromCatalogue(code, ENTRYPOINT_ERRORS) : undefined;
+}
+
+// Explains raw revert data from handleOps, a simulation or the wallet
+export function explainRevertData(data: Hex): UserOperationErrorExplanation | undefined {
+  let decoded: { errorName: string; args?: readonly unknown[] };
+  try {
+    decoded = decodeErrorResult({ abi: REVERT_ABI, data });
+  } catch {
+    return;
+  }
+  const args = decoded.args ?? [];
+
+  switch (decoded.errorName) {
+    case "FailedOp":
+      return explainReason(String(args[1]));
+    case "FailedOpWithRevert": {
+      // The wallet's own error says more than the AA23/AA33 wrapped around it
+      const inner = isHex(args[2]) ? explainRevertData(args[2]) : undefined;
+      return inner ?? explainReason(String(args[1]));
+    }
+    case "Error": {
+      const reason = String(args[0]);
+      return (
+        explainReason(reason) ?? {
+          code: "Error",
+          title: "Reverted",
+          cause: `The call reverted with "${reason}".`,
+          suggestedFix: "Check the call's target and arguments.",
+        }
+      );
+    }
+    default:
+      return fromCatalogue(decoded.errorName, CUSTOM_ERRORS);
+  }
+}
+
+// Explains a failed op from whatever reported it: a viem error (walking its causes for AA codes and
+// the revert data our bundler attaches), an Error, or a reason string. Undefined if nothing matches.
+export function explainUserOperationError(error: unknown): UserOperationErrorExplanation | undefined {
+  const messages: string[] = [];
+  const revertData: Hex[] = [];
+
+  let current: unknown = error;
+  for (let depth = 0; current !== undefined && current !== null && depth < 10; depth++) {
+    if (typeof current === "string") {
+      messages.push(current);
+      break;
+    }
+    if (typeof current !== "object") break;
+
+    const { message, shortMessage, details, data } = current as Record<string, unknown>;
+    [shortMessage, details, message].forEach((text) => {
+      if (typeof text === "string") messages.push(text);
+    });
+    // JSON-RPC error data: raw revert data, or our bundler's `{ aaCode, revertData }`
+    if (isHex(data)) {
+      revertData.push(data);
+    } else if (typeof data === "object" && data !== null) {
+      const { revertData: nested, aaCode } = data as Record<string, unknown>;
+      if (isHex(nested)) revertData.push(nested);
+      if (typeof aaCode === "string") messages.unshift(aaCode);
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+
+  for (let i = 0; i < revertData.length; i++) {
+    const explanation = explainRevertData(revertData[i]);
+    if (explanation) return explanation;
+  }
+  for (let i = 0; i < messages.length; i++) {
+    const explanation = explainReason(messages[i]);
+    if (explanation) return explanation;
+  }
+
+  // Our bundler reports decoded reverts as "<ErrorName>: <args>"
+  const customError = Object.keys(CUSTOM_ERRORS).find((name) =>
+    messages.some((message) => new RegExp(`^${name}(:|$)`).test(message))
+  );
+  return customError ? fromCatalogue(customError, CUSTOM_ERRORS) : undefined;
+}
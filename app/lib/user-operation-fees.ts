@@ -0,0 +1,28 @@
+import { type PublicClient } from "viem";
+
+// Fee fields for a new user operation, read from the chain: the latest base fee and the node's
+// suggested priority fee. Safe to use from the browser and the server.
+
+export type UserOperationFees = {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+};
+
+// maxFeePerGas leaves room for the base fee to double before the op is bundled
+const BASE_FEE_MULTIPLIER = BigInt(2);
+
+// Base's suggested priority fee can be near zero; ops bid at least this much (0.001 gwei)
+const MIN_PRIORITY_FEE_PER_GAS = BigInt(1_000_000);
+
+export async function getUserOperationFees(publicClient: PublicClient): Promise<UserOperationFees> {
+  const [block, suggestedPriorityFee] = await Promise.all([
+    publicClient.getBlock(),
+    publicClient.estimateMaxPriorityFeePerGas(),
+  ]);
+  const maxPriorityFeePerGas =
+    suggestedPriorityFee > MIN_PRIORITY_FEE_PER_GAS ? suggestedPriorityFee : MIN_PRIORITY_FEE_PER_GAS;
+  return {
+    maxFeePerGas: (block.baseFeePerGas ?? BigInt(0)) * BASE_FEE_MULTIPLIER + maxPriorityFeePerGas,
+    maxPriorityFeePerGas,
+  };
+}
@@ -0,0 +1,559 @@
+import {
+  type Address,
+  type Hex,
+  type PublicClient,
+  type SignedAuthorization,
+  type StateOverride,
+  BaseError,
+  concat,
+  decodeAbiParameters,
+  decodeErrorResult,
+  decodeFunctionResult,
+  encodeAbiParameters,
+  encodeFunctionData,
+  hexToBytes,
+  size,
+  zeroHash,
+} from "viem";
+import { type UserOperation } from "viem/account-abstraction";
+import { ENTRYPOINT_ABI } from "./abi/EntryPoint";
+import {
+  ENTRYPOINT_SIMULATIONS_ABI,
+  ENTRYPOINT_SIMULATIONS_V07_CODE,
+  ENTRYPOINT_SIMULATIONS_V08_CODE,
+} from "./abi/EntryPointSimulations";
+import { GAS_PRICE_ORACLE_ABI } from "./abi/GasPriceOracle";
+import { GAS_PRICE_ORACLE_ADDRESS, ZERO_ADDRESS } from "./constants";
+import { type EntryPointConfig, type EntryPointVersion, encodeUserOperation, toEntryPointUserOperation } from "./entrypoint";
+import { getAuthorizationStateOverride, getRevertData } from "./simulation-utils";
+import { decodeSignatureWrapper, encodeWebAuthnAuth, wrapSignature } from "./smart-account";
+import { getUserOperationFees } from "./user-operation-fees";
+import { getAACode } from "./user-operation-validation";
+
+// Server-only: estimates a user operation's gas limits against the chain. verificationGasLimit and
+// callGasLimit are binary-searched with `simulateHandleOp` (EntryPointSimulations' for v0.7 and
+// v0.8), signed with a stub of the sender's owner type; preVerificationGas covers the op's calldata
+// plus the L1 data fee Base charges on top of L2 gas. A v0.7 or v0.8 op with a paymaster also gets
+// its paymaster's verification and postOp gas limits.
+
+export type UserOperationGasEstimate = {
+  preVerificationGas: bigint;
+  verificationGasLimit: bigint;
+  callGasLimit: bigint;
+  // Only for v0.7 and v0.8 ops with a paymaster
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+};
+
+export type UserOperationGasEstimateResult =
+  | { success: true; gas: UserOperationGasEstimate }
+  | {
+      success: false;
+      // FAILED_OP: the op doesn't validate even at the maximum limits; EXECUTION_REVERTED: its call reverts
+      reason: "FAILED_OP" | "EXECUTION_REVERTED";
+      // EntryPoint error code (e.g. `AA23`), when known
+      aaCode?: string;
+      message: string;
+      revertData?: Hex;
+    };
+
+// An op that doesn't validate or execute within these is rejected
+const MAX_VERIFICATION_GAS_LIMIT = BigInt(3_000_000);
+const MAX_CALL_GAS_LIMIT = BigInt(10_000_000);
+const MAX_PAYMASTER_VERIFICATION_GAS_LIMIT = BigInt(3_000_000);
+const MAX_PAYMASTER_POST_OP_GAS_LIMIT = BigInt(3_000_000);
+// The search stops once the failing and passing limits are this close
+const GAS_SEARCH_TOLERANCE = BigInt(2_000);
+// Added to the limits found, for state that changes before the op is bundled
+const GAS_LIMIT_MARGIN_PERCENT = BigInt(10);
+// The stub WebAuthn signature fails the wallet's challenge check before its P-256 verification runs,
+// so the verification gas found is short by about what that verification costs
+const STUB_WEBAUTHN_VERIFICATION_GAS = BigInt(100_000);
+// Simulated ops pay 1 wei per gas, so `paid` is the gas they used, out of a sender balance topped up
+// to cover any prefund
+const SIMULATION_SENDER_BALANCE = BigInt("1000000000000000000");
+
+// preVerificationGas: the transaction's base cost and the EntryPoint's per-op overhead, plus calldata
+const TX_BASE_GAS = 21_000;
+const PER_USER_OP_GAS = 18_300;
+const PER_USER_OP_WORD_GAS = 4;
+// The L1 data fee follows L1 gas prices, which can move before the op is bundled
+const L1_FEE_MARGIN_PERCENT = BigInt(25);
+
+// A WebAuthn assertion shaped like a real one: authenticatorData with the user-present and
+// user-verified flags, and clientDataJSON with a base64url challenge of a 32-byte hash and an
+// origin at least as long as this app's
+const STUB_WEBAUTHN_AUTH = {
+  authenticatorData: "0x49960de5880e8c687434170f6476605b8fe4aeb9a28632c7995cf3ba831d97630500000000",
+  clientDataJSON: `{"type":"webauthn.get","challenge":"${"A".repeat(43)}","origin":"https://${"a".repeat(48)}","crossOrigin":false}`,
+  challengeIndex: BigInt(23),
+  typeIndex: BigInt(1),
+  r: BigInt(`0x${"ff".repeat(32)}`),
+  s: BigInt(`0x${"7f".repeat(32)}`),
+} as const;
+
+// r || s || v, with no zero bytes so its calldata costs as much as a real signature's
+const STUB_ECDSA_SIGNATURE = `0x${"ff".repeat(32)}${"7f".repeat(32)}1b` as const;
+
+// A postOp can't be searched with the op's own limit: one that runs out of gas reverts without
+// failing the op. Instead this meter is `delegateAndRevert`ed into by the simulation's target call,
+// so it runs as the EntryPoint, and calls the paymaster with the calldata after its first two words
+// (the paymaster, and the gas to call it with), returning whether the call succeeded:
+//   CALLDATACOPY(0, 0x40, CALLDATASIZE - 0x40)
+//   MSTORE(0, CALL(CALLDATALOAD(0x20), CALLDATALOAD(0), 0, 0, CALLDATASIZE - 0x40, 0, 0))
+//   RETURN(0, 0x20)
+const POST_OP_GAS_METER_ADDRESS: Address = "0x00000000000000000000000000000000000a4b4d";
+const POST_OP_GAS_METER_CODE: Hex = "0x60403603806040600037600060008260006000600035602035f160005260206000f3";
+
+// The v0.7 and v0.8 IPaymaster functions the postOp search calls as the EntryPoint
+const PAYMASTER_ABI = [
+  {
+    type: "function",
+    name: "validatePaymasterUserOp",
+    inputs: [
+      {
+        name: "userOp",
+        type: "tuple",
+        components: [
+          { name: "sender", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "initCode", type: "bytes" },
+          { name: "callData", type: "bytes" },
+          { name: "accountGasLimits", type: "bytes32" },
+          { name: "preVerificationGas", type: "uint256" },
+          { name: "gasFees", type: "bytes32" },
+          { name: "paymasterAndData", type: "bytes" },
+          { name: "signature", type: "bytes" },
+        ],
+      },
+      { name: "userOpHash", type: "bytes32" },
+      { name: "maxCost", type: "uint256" },
+    ],
+    outputs: [
+      { name: "context", type: "bytes" },
+      { name: "validationData", type: "uint256" },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "postOp",
+    inputs: [
+      { name: "mode", type: "uint8" },
+      { name: "context", type: "bytes" },
+      { name: "actualGasCost", type: "uint256" },
+      { name: "actualUserOpFeePerGas", type: "uint256" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+] as const;
+
+// IPaymaster.PostOpMode.opSucceeded
+const POST_OP_MODE_OP_SUCCEEDED = 0;
+
+const OWNER_AT_INDEX_ABI = [
+  {
+    type: "function",
+    name: "ownerAtIndex",
+    inputs: [{ name: "index", type: "uint256" }],
+    outputs: [{ name: "", type: "bytes" }],
+    stateMutability: "view",
+  },
+] as const;
+
+type HandleOpSimulation =
+  | { success: true; preOpGas: bigint; paid: bigint; targetResult?: Hex }
+  | { success: false; reason: string; revertData?: Hex };
+
+// A stub signature for the owner that signs the op: the owner index is read from the op's own
+// (stub) signature if it has one. A 32-byte owner is an address and signs with ECDSA; anything
+// else, including an owner that can't be read yet (an undeployed wallet), is treated as a passkey.
+export async function getStubSignature(
+  publicClient: PublicClient,
+  userOp: Pick<UserOperation, "sender" | "signature">
+): Promise<{ signature: Hex; isWebAuthn: boolean }> {
+  let ownerIndex = 0;
+  if (userOp.signature !== "0x") {
+    try {
+      ({ ownerIndex } = decodeSignatureWrapper(userOp.signature));
+    } catch {
+      // Not a SignatureWrapper; estimate for the first owner
+    }
+  }
+
+  const owner = await publicClient
+    .readContract({
+      address: userOp.sender,
+      abi: OWNER_AT_INDEX_ABI,
+      functionName: "ownerAtIndex",
+      args: [BigInt(ownerIndex)],
+    })
+    .catch(() => undefined);
+
+  const isWebAuthn = !owner || size(owner) !== 32;
+  return {
+    signature: wrapSignature(ownerIndex, isWebAuthn ? encodeWebAuthnAuth(STUB_WEBAUTHN_AUTH) : STUB_ECDSA_SIGNATURE),
+    isWebAuthn,
+  };
+}
+
+// Gas paid for the op's share of the handleOps calldata and the bundle's fixed overhead, plus the L1
+// data fee for that calldata converted to L2 gas at the op's gas price. An op without fees is
+// priced at the chain's current ones.
+export async function getPreVerificationGas(
+  publicClient: PublicClient,
+  userOp: UserOperation,
+  version: EntryPointVersion
+): Promise<bigint> {
+  const encoded = encodeUserOperation(userOp, version);
+  const bytes = hexToBytes(encoded);
+  let calldataGas = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    calldataGas += bytes[i] === 0 ? 4 : 16;
+  }
+  const words = Math.ceil(bytes.length / 32);
+  const l2Gas = BigInt(TX_BASE_GAS + PER_USER_OP_GAS + calldataGas + words * PER_USER_OP_WORD_GAS);
+
+  const [l1Fee, block, fees] = await Promise.all([
+    publicClient.readContract({
+      address: GAS_PRICE_ORACLE_ADDRESS,
+      abi: GAS_PRICE_ORACLE_ABI,
+      functionName: "getL1Fee",
+      args: [encoded],
+    }),
+    publicClient.getBlock(),
+    userOp.maxFeePerGas > BigInt(0)
+      ? { maxFeePerGas: userOp.maxFeePerGas, maxPriorityFeePerGas: userOp.maxPriorityFeePerGas }
+      : getUserOperationFees(publicClient),
+  ]);
+  // What the EntryPoint charges per gas: the max fee, or less once the base fee leaves room
+  const baseFeeAndTip = (block.baseFeePerGas ?? BigInt(0)) + fees.maxPriorityFeePerGas;
+  const gasPrice = fees.maxFeePerGas < baseFeeAndTip ? fees.maxFeePerGas : baseFeeAndTip;
+  if (gasPrice === BigInt(0)) return l2Gas;
+
+  const l1Gas = (l1Fee * (BigInt(100) + L1_FEE_MARGIN_PERCENT)) / BigInt(100) / gasPrice;
+  return l2Gas + l1Gas;
+}
+
+// Estimates an op's gas limits by searching each with `simulateHandleOp`, which runs validation and
+// execution and reports the gas each used. `authorizationList` delegations are applied as state
+// overrides first.
+export async function estimateUserOperationGasLimits(
+  publicClient: PublicClient,
+  userOp: UserOperation,
+  {
+    entryPoint,
+    authorizationList,
+  }: {
+    entryPoint: EntryPointConfig;
+    authorizationList?: readonly SignedAuthorization[];
+  }
+): Promise<UserOperationGasEstimateResult> {
+  const stateOverride: StateOverride = authorizationList?.length
+    ? await getAuthorizationStateOverride(authorizationList)
+    : [];
+  const senderOverride = stateOverride.find(({ address }) => address.toLowerCase() === userOp.sender.toLowerCase());
+  if (senderOverride) senderOverride.balance = SIMULATION_SENDER_BALANCE;
+  else stateOverride.push({ address: userOp.sender, balance: SIMULATION_SENDER_BALANCE });
+
+  // The call must not revert whatever gas it's given; the node's estimate also seeds the search
+  let callGasHint: bigint;
+  try {
+    callGasHint = await publicClient.estimateGas({
+      account: entryPoint.address,
+      to: userOp.sender,
+      data: userOp.callData,
+      stateOverride,
+    });
+  } catch (error) {
+    return {
+      success: false,
+      reason: "EXECUTION_REVERTED",
+      message: error instanceof BaseError ? error.shortMessage : (error as Error).message,
+      revertData: getRevertData(error),
+    };
+  }
+
+  const { signature, isWebAuthn } = await getStubSignature(publicClient, userOp);
+  const paymaster = entryPoint.version !== "0.6" ? (userOp as UserOperation<"0.7">).paymaster : undefined;
+  // Until their own searches, validation gets the maximum and postOp no gas: a postOp that runs out
+  // reverts without failing the op, and the penalty on an unused postOp limit would count as call gas
+  const limits: Omit<UserOperationGasEstimate, "preVerificationGas"> = {
+    verificationGasLimit: MAX_VERIFICATION_GAS_LIMIT,
+    callGasLimit: MAX_CALL_GAS_LIMIT,
+    ...(paymaster && {
+      paymasterVerificationGasLimit: MAX_PAYMASTER_VERIFICATION_GAS_LIMIT,
+      paymasterPostOpGasLimit: BigInt(0),
+    }),
+  };
+  const simulatedOp = {
+    ...userOp,
+    signature,
+    preVerificationGas: BigInt(0),
+    maxFeePerGas: BigInt(1),
+    maxPriorityFeePerGas: BigInt(1),
+  } as UserOperation;
+  const simulate = (overrides: Partial<typeof limits>) =>
+    simulateHandleOp(publicClient, { ...simulatedOp, ...limits, ...overrides } as UserOperation, entryPoint, stateOverride);
+
+  const atMax = await simulate({});
+  if (!atMax.success) return toFailedOpResult(atMax);
+
+  limits.verificationGasLimit = await searchGasLimit(atMax.preOpGas, MAX_VERIFICATION_GAS_LIMIT, async (limit) => {
+    const result = await simulate({ verificationGasLimit: limit });
+    return result.success;
+  });
+  // A call that ran out of gas used all of it, so the limit fits once execution used less
+  limits.callGasLimit = await searchGasLimit(callGasHint, MAX_CALL_GAS_LIMIT, async (limit) => {
+    const result = await simulate({ callGasLimit: limit });
+    return result.success && result.paid - result.preOpGas < limit;
+  });
+
+  if (paymaster && entryPoint.version !== "0.6") {
+    const paymasterVerificationGasLimit = await searchGasLimit(
+      undefined,
+      MAX_PAYMASTER_VERIFICATION_GAS_LIMIT,
+      async (limit) => {
+        const result = await simulate({ paymasterVerificationGasLimit: limit });
+        return result.success;
+      }
+    );
+    limits.paymasterVerificationGasLimit = paymasterVerificationGasLimit;
+
+    const simulation = await simulate({});
+    if (!simulation.success) return toFailedOpResult(simulation);
+    const paymasterPostOpGasLimit = await searchPaymasterPostOpGasLimit(
+      publicClient,
+      { ...simulatedOp, ...limits } as UserOperation,
+      { paymaster, entryPoint, stateOverride, actualGasCost: simulation.paid }
+    );
+    if (paymasterPostOpGasLimit === undefined) {
+      return {
+        success: false,
+        reason: "EXECUTION_REVERTED",
+        message: `The paymaster's postOp reverts even with ${MAX_PAYMASTER_POST_OP_GAS_LIMIT} gas`,
+      };
+    }
+    limits.paymasterVerificationGasLimit = withMargin(paymasterVerificationGasLimit);
+    limits.paymasterPostOpGasLimit = withMargin(paymasterPostOpGasLimit);
+  }
+
+  if (isWebAuthn) limits.verificationGasLimit += STUB_WEBAUTHN_VERIFICATION_GAS;
+  limits.verificationGasLimit = withMargin(limits.verificationGasLimit);
+  limits.callGasLimit = withMargin(limits.callGasLimit);
+
+  const preVerificationGas = await getPreVerificationGas(
+    publicClient,
+    { ...userOp, ...limits, signature } as UserOperation,
+    entryPoint.version
+  );
+  return { success: true, gas: { preVerificationGas, ...limits } };
+}
+
+// Searches the smallest postOp gas limit the paymaster's postOp succeeds with, or 0 if its validation
+// returns no context (so the EntryPoint won't call postOp). The context comes from calling
+// `validatePaymasterUserOp` as the EntryPoint; each try then simulates the op, whose own postOp gets
+// no gas and so leaves the state as validation left it, and calls postOp through the meter.
+// Undefined if postOp reverts even at the maximum.
+async function searchPaymasterPostOpGasLimit(
+  publicClient: PublicClient,
+  userOp: UserOperation,
+  {
+    paymaster,
+    entryPoint,
+    stateOverride,
+    actualGasCost,
+  }: {
+    paymaster: Address;
+    entryPoint: EntryPointConfig<"0.7" | "0.8">;
+    stateOverride: StateOverride;
+    actualGasCost: bigint;
+  }
+): Promise<bigint | undefined> {
+  const packedUserOp = toEntryPointUserOperation(userOp, entryPoint.version);
+  const {
+    result: [context],
+  } = await publicClient.simulateContract({
+    account: entryPoint.address,
+    address: paymaster,
+    abi: PAYMASTER_ABI,
+    functionName: "validatePaymasterUserOp",
+    // The paymasters here sign their own hash of the op, not the EntryPoint's
+    args: [packedUserOp, zeroHash, getMaxCost(userOp)],
+    stateOverride,
+  });
+  if (size(context) === 0) return BigInt(0);
+
+  const postOpData = encodeFunctionData({
+    abi: PAYMASTER_ABI,
+    functionName: "postOp",
+    args: [POST_OP_MODE_OP_SUCCEEDED, context, actualGasCost, BigInt(1)],
+  });
+  const meterStateOverride: StateOverride = [
+    ...stateOverride,
+    { address: POST_OP_GAS_METER_ADDRESS, code: POST_OP_GAS_METER_CODE },
+  ];
+  const fits = async (limit: bigint) => {
+    const meterData = concat([
+      encodeAbiParameters([{ type: "address" }, { type: "uint256" }], [paymaster, limit]),
+      postOpData,
+    ]);
+    const result = await simulatePackedHandleOp(publicClient, userOp, entryPoint, meterStateOverride, {
+      address: entryPoint.address,
+      data: encodeFunctionData({
+        abi: entryPoint.abi,
+        functionName: "delegateAndRevert",
+        args: [POST_OP_GAS_METER_ADDRESS, meterData],
+      }),
+    });
+    if (!result.success || !result.targetResult) return false;
+    const { errorName, args } = decodeErrorResult({ abi: entryPoint.abi, data: result.targetResult });
+    if (errorName !== "DelegateAndRevert" || !args[0]) return false;
+    const [postOpSucceeded] = decodeAbiParameters([{ type: "bool" }], args[1]);
+    return postOpSucceeded;
+  };
+
+  if (!(await fits(MAX_PAYMASTER_POST_OP_GAS_LIMIT))) return undefined;
+  return searchGasLimit(undefined, MAX_PAYMASTER_POST_OP_GAS_LIMIT, fits);
+}
+
+// The prefund the EntryPoint takes for a v0.7 or v0.8 op: every gas limit at its max fee
+function getMaxCost(userOp: UserOperation) {
+  const op = userOp as UserOperation<"0.7">;
+  const gas =
+    op.verificationGasLimit +
+    op.callGasLimit +
+    op.preVerificationGas +
+    (op.paymasterVerificationGasLimit ?? BigInt(0)) +
+    (op.paymasterPostOpGasLimit ?? BigInt(0));
+  return gas * op.maxFeePerGas;
+}
+
+function withMargin(gas: bigint) {
+  return (gas * (BigInt(100) + GAS_LIMIT_MARGIN_PERCENT)) / BigInt(100);
+}
+
+function toFailedOpResult({ reason, revertData }: { reason: string; revertData?: Hex }): UserOperationGasEstimateResult {
+  return { success: false, reason: "FAILED_OP", aaCode: getAACode(reason), message: reason, revertData };
+}
+
+// Finds the smallest limit (within GAS_SEARCH_TOLERANCE) that `fits`, given that `max` does. A
+// `hint` that fits narrows the search to below it.
+async function searchGasLimit(
+  hint: bigint | undefined,
+  max: bigint,
+  fits: (limit: bigint) => Promise<boolean>
+): Promise<bigint> {
+  let low = BigInt(0);
+  let high = max;
+  if (hint !== undefined && hint < max) {
+    if (await fits(hint)) high = hint;
+    else low = hint;
+  }
+  while (high - low > GAS_SEARCH_TOLERANCE) {
+    const mid = (low + high) / BigInt(2);
+    if (await fits(mid)) high = mid;
+    else low = mid;
+  }
+  return high;
+}
+
+// Runs the op through `simulateHandleOp`, for the gas used before execution and the total paid
+function simulateHandleOp(
+  publicClient: PublicClient,
+  userOp: UserOperation,
+  entryPoint: EntryPointConfig,
+  stateOverride: StateOverride
+): Promise<HandleOpSimulation> {
+  return entryPoint.version === "0.6"
+    ? simulateHandleOp06(publicClient, userOp, entryPoint, stateOverride)
+    : simulatePackedHandleOp(publicClient, userOp, entryPoint, stateOverride);
+}
+
+// Calls v0.6's `simulateHandleOp`, which always reverts: with `ExecutionResult` (the gas used before
+// execution and the total paid) if the op validates, or `FailedOp` if it doesn't
+async function simulateHandleOp06(
+  publicClient: PublicClient,
+  userOp: UserOperation,
+  entryPoint: EntryPointConfig<"0.6">,
+  stateOverride: StateOverride
+): Promise<HandleOpSimulation> {
+  const data = encodeFunctionData({
+    abi: ENTRYPOINT_ABI,
+    functionName: "simulateHandleOp",
+    args: [toEntryPointUserOperation(userOp, "0.6"), ZERO_ADDRESS, "0x"],
+  });
+
+  let revertData: Hex | undefined;
+  try {
+    await publicClient.call({ to: entryPoint.address, data, stateOverride });
+  } catch (error) {
+    revertData = getRevertData(error);
+    if (!revertData) throw error;
+  }
+  if (!revertData) {
+    throw new Error(`simulateHandleOp returned without reverting; is ${entryPoint.address} an EntryPoint v0.6?`);
+  }
+
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: ENTRYPOINT_ABI, data: revertData });
+    if (errorName === "ExecutionResult") {
+      const [preOpGas, paid] = args;
+      return { success: true, preOpGas, paid };
+    }
+    if (errorName === "FailedOp") {
+      return { success: false, reason: args[1], revertData };
+    }
+    return { success: false, reason: `simulateHandleOp reverted with ${errorName}`, revertData };
+  } catch {
+    return { success: false, reason: `simulateHandleOp reverted with unknown error data ${revertData}`, revertData };
+  }
+}
+
+// v0.7 and v0.8 have no on-chain `simulateHandleOp`, so EntryPointSimulations' is called with its
+// code in place of the EntryPoint's. It returns the `ExecutionResult` if the op validates, and
+// reverts with `FailedOp` if it doesn't. A `target` is called as the EntryPoint after the op runs.
+async function simulatePackedHandleOp(
+  publicClient: PublicClient,
+  userOp: UserOperation,
+  entryPoint: EntryPointConfig<"0.7" | "0.8">,
+  stateOverride: StateOverride,
+  target: { address: Address; data: Hex } = { address: ZERO_ADDRESS, data: "0x" }
+): Promise<HandleOpSimulation> {
+  const data = encodeFunctionData({
+    abi: ENTRYPOINT_SIMULATIONS_ABI,
+    functionName: "simulateHandleOp",
+    args: [toEntryPointUserOperation(userOp, entryPoint.version), target.address, target.data],
+  });
+  const code = entryPoint.version === "0.7" ? ENTRYPOINT_SIMULATIONS_V07_CODE : ENTRYPOINT_SIMULATIONS_V08_CODE;
+
+  let result: Hex | undefined;
+  try {
+    ({ data: result } = await publicClient.call({
+      to: entryPoint.address,
+      data,
+      stateOverride: [...stateOverride, { address: entryPoint.address, code }],
+    }));
+  } catch (error) {
+    const revertData = getRevertData(error);
+    if (!revertData) throw error;
+    try {
+      const { errorName, args } = decodeErrorResult({ abi: entryPoint.abi, data: revertData });
+      if (errorName === "FailedOp" || errorName === "FailedOpWithRevert") {
+        return { success: false, reason: args[1], revertData };
+      }
+      return { success: false, reason: `simulateHandleOp reverted with ${errorName}`, revertData };
+    } catch {
+      return { success: false, reason: `simulateHandleOp reverted with unknown error data ${revertData}`, revertData };
+    }
+  }
+  if (!result) throw new Error(`simulateHandleOp returned no data from ${entryPoint.address}`);
+
+  const { preOpGas, paid, targetResult } = decodeFunctionResult({
+    abi: ENTRYPOINT_SIMULATIONS_ABI,
+    functionName: "simulateHandleOp",
+    data: result,
+  });
+  return { success: true, preOpGas, paid, targetResult };
+}
@@ -0,0 +1,520 @@
+import {
+  type Address,
+  type Hash,
+  type Hex,
+  bytesToHex,
+  concat,
+  decodeFunctionData,
+  formatEther,
+  formatGwei,
+  hexToBigInt,
+  hexToNumber,
+  isAddress,
+  isHex,
+  numberToHex,
+  recoverAddress,
+  size,
+  slice,
+} from "viem";
+import { type UserOperation } from "viem/account-abstraction";
+import { baseSepolia } from "./chains";
+import {
+  type EntryPointVersion,
+  ENTRYPOINTS,
+  getEntryPointVersion,
+  getUserOperationHashForEntryPoint,
+  isEip7702InitCode,
+} from "./entrypoint";
+import { type WebAuthnAuth, decodeSignatureWrapper, decodeWebAuthnAuth } from "./smart-account";
+
+// Explains a signed user operation: the hash its signature should cover, computed locally for the
+// EntryPoint it targets, what each field holds, and what the Coinbase Smart Wallet owner actually
+// signed, decoding the `SignatureWrapper` and, for passkeys, the `WebAuthnAuth` assertion.
+
+export type UserOperationFieldExplanation = {
+  field: string;
+  value: string;
+  explanation: string;
+};
+
+// The `clientDataJSON` fields a WebAuthn assertion signs over
+export type WebAuthnClientData = {
+  type?: string;
+  challenge?: string;
+  origin?: string;
+  crossOrigin?: boolean;
+};
+
+export type DecodedWalletSignature =
+  | {
+      type: "ecdsa";
+      ownerIndex: number;
+      r: Hex;
+      s: Hex;
+      v: number;
+      // The address the signature recovers to over the userOp hash, when it could be computed
+      recoveredSigner?: Address;
+    }
+  | {
+      type: "webauthn";
+      ownerIndex: number;
+      auth: WebAuthnAuth;
+      clientData?: WebAuthnClientData;
+      // The challenge decoded from base64url: the userOp hash, if the passkey signed this op
+      challenge?: Hex;
+      challengeMatchesHash?: boolean;
+      // Whether typeIndex and challengeIndex point where the wallet expects them in clientDataJSON
+      indexesValid: boolean;
+      userPresent: boolean;
+      userVerified: boolean;
+      signCount: number;
+    }
+  // Not a SignatureWrapper, or one whose signature data is neither format
+  | { type: "unknown"; ownerIndex?: number; data: Hex };
+
+export type UserOperationInspection = {
+  entryPointVersion: EntryPointVersion;
+  entryPointAddress: Address;
+  userOp: UserOperation;
+  userOpHash?: Hash;
+  // Why the hash couldn't be computed (a v0.8 EIP-7702 op without its delegate)
+  hashError?: string;
+  signature: DecodedWalletSignature;
+  fields: UserOperationFieldExplanation[];
+};
+
+// The wallet's execute functions, as far as callData explanations need them
+const SMART_WALLET_EXECUTE_ABI = [
+  {
+    type: "function",
+    name: "execute",
+    inputs: [
+      { name: "target", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "data", type: "bytes" },
+    ],
+    outputs: [],
+    stateMutability: "payable",
+  },
+  {
+    type: "function",
+    name: "executeBatch",
+    inputs: [
+      {
+        name: "calls",
+        type: "tuple[]",
+        components: [
+          { name: "target", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "data", type: "bytes" },
+        ],
+      },
+    ],
+    outputs: [],
+    stateMutability: "payable",
+  },
+] as const;
+
+// authenticatorData flags
+const USER_PRESENT_FLAG = 0x01;
+const USER_VERIFIED_FLAG = 0x04;
+
+const NONCE_SEQUENCE_BITS = BigInt(64);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Finds the op (and its EntryPoint, if given) in the shapes a signed op is usually shared in: a bare
+// op, `[op, entryPoint]` params or a JSON-RPC request carrying them, `{ userOperation, entryPoint }`,
+// or this app's `{ entryPoint, packed, decoded }` output
+function findUserOperation(value: unknown): { raw: Record<string, unknown>; entryPoint?: unknown } {
+  if (isRecord(value) && Array.isArray(value.params)) return findUserOperation(value.params);
+  if (Array.isArray(value) && isRecord(value[0])) return { raw: value[0], entryPoint: value[1] };
+  if (isRecord(value)) {
+    const nested = value.decoded ?? value.userOperation ?? value.userOp;
+    if (isRecord(nested)) return { raw: nested, entryPoint: value.entryPoint };
+    if (typeof value.sender === "string") return { raw: value, entryPoint: value.entryPoint };
+  }
+  throw new Error("No user operation found; expected an object with a sender, callData and signature");
+}
+
+function readQuantity(raw: Record<string, unknown>, field: string): bigint | undefined {
+  const value = raw[field];
+  if (value === undefined || value === null) return;
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new Error(`${field} must be a hex or decimal quantity`);
+  }
+  try {
+    return BigInt(value);
+  } catch {
+    throw new Error(`${field} must be a hex or decimal quantity`);
+  }
+}
+
+function readBytes(raw: Record<string, unknown>, field: string): Hex | undefined {
+  const value = raw[field];
+  if (value === undefined || value === null) return;
+  if (typeof value !== "string" || !isHex(value)) throw new Error(`${field} must be hex bytes`);
+  return value;
+}
+
+function readAddress(raw: Record<string, unknown>, field: string): Address | undefined {
+  const value = raw[field];
+  if (value === undefined || value === null) return;
+  if (typeof value !== "string" || !isAddress(value, { strict: false })) throw new Error(`${field} must be an address`);
+  return value;
+}
+
+// Reads an op in v0.6 form, v0.7 form, or as a PackedUserOperation (whose packed gas, fee and
+// paymaster fields are unpacked into v0.7 form)
+function toUserOperation(raw: Record<string, unknown>): { userOp: UserOperation; shape: "0.6" | "packed" } {
+  const sender = readAddress(raw, "sender");
+  const callData = readBytes(raw, "callData");
+  const signature = readBytes(raw, "signature");
+  if (!sender || !callData || !signature) throw new Error("A signed user operation needs sender, callData and signature");
+  const nonce = readQuantity(raw, "nonce") ?? BigInt(0);
+  const preVerificationGas = readQuantity(raw, "preVerificationGas") ?? BigInt(0);
+
+  const accountGasLimits = readBytes(raw, "accountGasLimits");
+  const gasFees = readBytes(raw, "gasFees");
+  if (accountGasLimits && gasFees) {
+    const initCode = readBytes(raw, "initCode") ?? "0x";
+    const paymasterAndData = readBytes(raw, "paymasterAndData") ?? "0x";
+    const hasFactory = size(initCode) >= 20;
+    const hasPaymaster = size(paymasterAndData) >= 52;
+    return {
+      shape: "packed",
+      userOp: {
+        sender,
+        nonce,
+        callData,
+        signature,
+        preVerificationGas,
+        verificationGasLimit: hexToBigInt(slice(accountGasLimits, 0, 16)),
+        callGasLimit: hexToBigInt(slice(accountGasLimits, 16, 32)),
+        maxPriorityFeePerGas: hexToBigInt(slice(gasFees, 0, 16)),
+        maxFeePerGas: hexToBigInt(slice(gasFees, 16, 32)),
+        ...(hasFactory
+          ? { factory: slice(initCode, 0, 20), factoryData: size(initCode) > 20 ? slice(initCode, 20) : "0x" }
+          : {}),
+        ...(hasPaymaster
+          ? {
+              paymaster: slice(paymasterAndData, 0, 20),
+              paymasterVerificationGasLimit: hexToBigInt(slice(paymasterAndData, 20, 36)),
+              paymasterPostOpGasLimit: hexToBigInt(slice(paymasterAndData, 36, 52)),
+              paymasterData: size(paymasterAndData) > 52 ? slice(paymasterAndData, 52) : "0x",
+            }
+          : {}),
+      } as UserOperation<"0.7">,
+    };
+  }
+
+  const gas = {
+    callGasLimit: readQuantity(raw, "callGasLimit") ?? BigInt(0),
+    verificationGasLimit: readQuantity(raw, "verificationGasLimit") ?? BigInt(0),
+    preVerificationGas,
+    maxFeePerGas: readQuantity(raw, "maxFeePerGas") ?? BigInt(0),
+    maxPriorityFeePerGas: readQuantity(raw, "maxPriorityFeePerGas") ?? BigInt(0),
+  };
+  if (raw.initCode !== undefined || raw.paymasterAndData !== undefined) {
+    return {
+      shape: "0.6",
+      userOp: {
+        sender,
+        nonce,
+        callData,
+        signature,
+        ...gas,
+        initCode: readBytes(raw, "initCode") ?? "0x",
+        paymasterAndData: readBytes(raw, "paymasterAndData") ?? "0x",
+      } as UserOperation<"0.6">,
+    };
+  }
+
+  const factory = readAddress(raw, "factory");
+  const paymaster = readAddress(raw, "paymaster");
+  return {
+    shape: "packed",
+    userOp: {
+      sender,
+      nonce,
+      callData,
+      signature,
+      ...gas,
+      ...(factory ? { factory, factoryData: readBytes(raw, "factoryData") ?? "0x" } : {}),
+      ...(paymaster
+        ? {
+            paymaster,
+            paymasterVerificationGasLimit: readQuantity(raw, "paymasterVerificationGasLimit") ?? BigInt(0),
+            paymasterPostOpGasLimit: readQuantity(raw, "paymasterPostOpGasLimit") ?? BigInt(0),
+            paymasterData: readBytes(raw, "paymasterData") ?? "0x",
+          }
+        : {}),
+    } as UserOperation<"0.7">,
+  };
+}
+
+function base64UrlToHex(value: string): Hex {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return bytesToHex(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+// Decodes a wallet signature without checking it against any hash
+export function decodeWalletSignature(signature: Hex): DecodedWalletSignature {
+  let wrapper: { ownerIndex: number; signatureData: Hex };
+  try {
+    wrapper = decodeSignatureWrapper(signature);
+  } catch {
+    return { type: "unknown", data: signature };
+  }
+  const { ownerIndex, signatureData } = wrapper;
+
+  if (size(signatureData) === 65) {
+    return {
+      type: "ecdsa",
+      ownerIndex,
+      r: slice(signatureData, 0, 32),
+      s: slice(signatureData, 32, 64),
+      v: hexToNumber(slice(signatureData, 64, 65)),
+    };
+  }
+
+  let auth: WebAuthnAuth;
+  try {
+    auth = decodeWebAuthnAuth(signatureData);
+  } catch {
+    return { type: "unknown", ownerIndex, data: signatureData };
+  }
+
+  let clientData: WebAuthnClientData | undefined;
+  try {
+    clientData = JSON.parse(auth.clientDataJSON) as WebAuthnClientData;
+  } catch {
+    // Left undefined; the raw JSON is still in `auth`
+  }
+  let challenge: Hex | undefined;
+  try {
+    challenge = clientData?.challenge ? base64UrlToHex(clientData.challenge) : undefined;
+  } catch {
+    // Not base64url
+  }
+
+  const flags = size(auth.authenticatorData) > 32 ? hexToNumber(slice(auth.authenticatorData, 32, 33)) : 0;
+  return {
+    type: "webauthn",
+    ownerIndex,
+    auth,
+    clientData,
+    challenge,
+    indexesValid:
+      auth.clientDataJSON.startsWith('"type":"webauthn.get"', Number(auth.typeIndex)) &&
+      auth.clientDataJSON.startsWith('"challenge":"', Number(auth.challengeIndex)),
+    userPresent: (flags & USER_PRESENT_FLAG) !== 0,
+    userVerified: (flags & USER_VERIFIED_FLAG) !== 0,
+    signCount: size(auth.authenticatorData) >= 37 ? hexToNumber(slice(auth.authenticatorData, 33, 37)) : 0,
+  };
+}
+
+function explainCallData(callData: Hex): string {
+  if (callData === "0x") return "No call; the op only validates (and deploys or initializes the account)";
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: SMART_WALLET_EXECUTE_ABI, data: callData });
+    const describe = ({ target, value, data }: { target: Address; value: bigint; data: Hex }) =>
+      `${target} with ${formatEther(value)} ETH${data === "0x" ? "" : ` and ${size(data)} bytes of calldata (selector ${slice(data, 0, 4)})`}`;
+    if (functionName === "execute") {
+      const [target, value, data] = args;
+      return `execute: the wallet calls ${describe({ target, value, data })}`;
+    }
+    const [calls] = args;
+    return calls.length === 0
+      ? "executeBatch with no calls"
+      : `executeBatch of ${calls.length} call${calls.length === 1 ? "" : "s"}: ${calls.map(describe).join("; ")}`;
+  } catch {
+    return `Calls the account with selector ${slice(callData, 0, 4)}; not a Coinbase Smart Wallet execute or executeBatch`;
+  }
+}
+
+function explainSignature(signature: DecodedWalletSignature, userOpHash?: Hash): string {
+  if (signature.type === "unknown") {
+    return signature.ownerIndex === undefined
+      ? "Not a Coinbase Smart Wallet SignatureWrapper"
+      : `SignatureWrapper for owner #${signature.ownerIndex}, but its ${size(signature.data)}-byte signatureData is neither an ECDSA signature nor a WebAuthnAuth`;
+  }
+  if (signature.type === "ecdsa") {
+    return (
+      `Owner #${signature.ownerIndex} signed the userOp hash with ECDSA (v = ${signature.v})` +
+      (signature.recoveredSigner
+        ? `; it recovers to ${signature.recoveredSigner}, which must be that owner's address`
+        : "")
+    );
+  }
+  const parts = [`Owner #${signature.ownerIndex} signed with a passkey (P-256 WebAuthn assertion)`];
+  if (signature.challengeMatchesHash !== undefined) {
+    parts.push(
+      signature.challengeMatchesHash
+        ? "its challenge is this op's hash"
+        : `its challenge ${signature.challenge ?? "(unreadable)"} is NOT this op's hash ${userOpHash}`
+    );
+  }
+  if (signature.clientData?.origin) parts.push(`origin ${signature.clientData.origin}`);
+  parts.push(`user ${signature.userVerified ? "verified" : signature.userPresent ? "present, not verified" : "not present"}`);
+  if (!signature.indexesValid) parts.push("typeIndex or challengeIndex doesn't point at its field, so the wallet will reject it");
+  return parts.join("; ");
+}
+
+function explainFields(
+  userOp: UserOperation,
+  shape: "0.6" | "packed",
+  signature: DecodedWalletSignature,
+  userOpHash?: Hash
+): UserOperationFieldExplanation[] {
+  const nonceKey = userOp.nonce >> NONCE_SEQUENCE_BITS;
+  const nonceSequence = userOp.nonce & ((BigInt(1) << NONCE_SEQUENCE_BITS) - BigInt(1));
+  const gwei = (value: bigint) => `${formatGwei(value)} gwei`;
+  const fields: UserOperationFieldExplanation[] = [
+    { field: "sender", value: userOp.sender, explanation: "The account that validates and executes the op" },
+    {
+      field: "nonce",
+      value: userOp.nonce.toString(),
+      explanation: `Key ${nonceKey} (upper 192 bits), sequence ${nonceSequence} (lower 64 bits); the EntryPoint only accepts the key's next sequence`,
+    },
+  ];
+
+  if (shape === "0.6") {
+    const { initCode = "0x" } = userOp as UserOperation<"0.6">;
+    fields.push({
+      field: "initCode",
+      value: initCode,
+      explanation:
+        initCode === "0x"
+          ? "Empty: the account is already deployed"
+          : `Factory ${slice(initCode, 0, 20)} deploys the account with ${size(initCode) - 20} bytes of calldata`,
+    });
+  } else {
+    const { factory, factoryData = "0x" } = userOp as UserOperation<"0.7">;
+    fields.push({
+      field: "factory / factoryData",
+      value: factory ? `${factory} ${factoryData}` : "(none)",
+      explanation: !factory
+        ? "None: the account is already deployed"
+        : isEip7702InitCode(factory)
+          ? `EIP-7702 marker: the sender is a delegated EOA${factoryData === "0x" ? "" : `, initialized with ${size(factoryData)} bytes of calldata`} (v0.8)`
+          : `Factory ${factory} deploys the account with ${size(factoryData)} bytes of calldata`,
+    });
+  }
+
+  fields.push(
+    { field: "callData", value: userOp.callData, explanation: explainCallData(userOp.callData) },
+    {
+      field: "callGasLimit",
+      value: userOp.callGasLimit.toString(),
+      explanation: "Gas for the account's execution of callData",
+    },
+    {
+      field: "verificationGasLimit",
+      value: userOp.verificationGasLimit.toString(),
+      explanation:
+        shape === "0.6"
+          ? "Gas for deployment, the account's validateUserOp and the paymaster's validation and postOp"
+          : "Gas for deployment and the account's validateUserOp",
+    },
+    {
+      field: "preVerificationGas",
+      value: userOp.preVerificationGas.toString(),
+      explanation: "Gas paid to the bundler for calldata and overhead that no limit meters, including the L1 data fee",
+    },
+    { field: "maxFeePerGas", value: userOp.maxFeePerGas.toString(), explanation: `At most ${gwei(userOp.maxFeePerGas)} per gas` },
+    {
+      field: "maxPriorityFeePerGas",
+      value: userOp.maxPriorityFeePerGas.toString(),
+      explanation: `Tip of at most ${gwei(userOp.maxPriorityFeePerGas)} per gas above the base fee`,
+    }
+  );
+
+  if (shape === "0.6") {
+    const { paymasterAndData = "0x" } = userOp as UserOperation<"0.6">;
+    fields.push({
+      field: "paymasterAndData",
+      value: paymasterAndData,
+      explanation:
+        paymasterAndData === "0x"
+          ? "Empty: the sender's EntryPoint deposit (topped up from its balance) pays for gas"
+          : `Paymaster ${slice(paymasterAndData, 0, 20)} pays for gas, with ${size(paymasterAndData) - 20} bytes of paymaster data`,
+    });
+  } else {
+    const { paymaster, paymasterData = "0x", paymasterVerificationGasLimit, paymasterPostOpGasLimit } =
+      userOp as UserOperation<"0.7">;
+    fields.push({
+      field: "paymaster",
+      value: paymaster ? `${paymaster} ${paymasterData}` : "(none)",
+      explanation: paymaster
+        ? `Pays for gas with ${size(paymasterData)} bytes of paymaster data; validation gas ${paymasterVerificationGasLimit ?? BigInt(0)}, postOp gas ${paymasterPostOpGasLimit ?? BigInt(0)}`
+        : "None: the sender's EntryPoint deposit (topped up from its balance) pays for gas",
+    });
+  }
+
+  fields.push({ field: "signature", value: userOp.signature, explanation: explainSignature(signature, userOpHash) });
+  return fields;
+}
+
+// Parses a signed userOp from JSON and explains it. The EntryPoint version comes from `version`,
+// else from an `entryPoint` address next to the op, else from the op's shape (v0.6 or v0.7).
+// A v0.8 op from an EIP-7702 sender needs `eip7702Delegate` to be hashed.
+export async function inspectUserOperation(
+  json: string,
+  {
+    version,
+    chainId = baseSepolia.id,
+    eip7702Delegate,
+  }: { version?: EntryPointVersion; chainId?: number; eip7702Delegate?: Address } = {}
+): Promise<UserOperationInspection> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+  const { raw, entryPoint } = findUserOperation(parsed);
+  const { userOp, shape } = toUserOperation(raw);
+
+  const entryPointVersion =
+    version ??
+    (typeof entryPoint === "string" ? getEntryPointVersion(entryPoint) : undefined) ??
+    (shape === "0.6" ? "0.6" : "0.7");
+  if ((entryPointVersion === "0.6") !== (shape === "0.6")) {
+    throw new Error(
+      `The op has ${shape === "0.6" ? "v0.6" : "v0.7"} fields, which EntryPoint v${entryPointVersion} doesn't take`
+    );
+  }
+
+  let userOpHash: Hash | undefined;
+  let hashError: string | undefined;
+  try {
+    userOpHash = getUserOperationHashForEntryPoint(userOp, entryPointVersion, { chainId, delegate: eip7702Delegate });
+  } catch (error) {
+    hashError = (error as Error).message;
+  }
+
+  const signature = decodeWalletSignature(userOp.signature);
+  if (userOpHash && signature.type === "webauthn" && signature.challenge) {
+    signature.challengeMatchesHash = signature.challenge.toLowerCase() === userOpHash.toLowerCase();
+  }
+  if (userOpHash && signature.type === "ecdsa") {
+    signature.recoveredSigner = await recoverAddress({
+      hash: userOpHash,
+      signature: concat([signature.r, signature.s, numberToHex(signature.v, { size: 1 })]),
+    }).catch(() => undefined);
+  }
+
+  return {
+    entryPointVersion,
+    entryPointAddress: ENTRYPOINTS[entryPointVersion].address,
+    userOp,
+    userOpHash,
+    hashError,
+    signature,
+    fields: explainFields(userOp, shape, signature, userOpHash),
+  };
+}
@@ -0,0 +1,68 @@
+import { type Address, type Hash, type Hex, type Log, parseEventLogs } from "viem";
+import { ENTRYPOINT_ABI } from "./abi/EntryPoint";
+import { getEntryPointVersion } from "./entrypoint";
+import { decodeRevert } from "./simulation-utils";
+
+// Server-only: what happened to each user operation in a handleOps bundle, read from the
+// EntryPoint's `UserOperationEvent` and `UserOperationRevertReason` logs in its receipt.
+
+// One op's result. `success` is false when the op was included (and paid for) but its call reverted.
+export type UserOperationOutcome = {
+  userOpHash: Hash;
+  sender: Address;
+  nonce: bigint;
+  paymaster: Address;
+  success: boolean;
+  actualGasCost: bigint;
+  actualGasUsed: bigint;
+  // The call's raw revert data and its decoded reason, when it reverted
+  revertData?: Hex;
+  revertReason?: string;
+};
+
+// Turns an op's revert data into a readable reason: the message of an `Error(string)`, the code of
+// a `Panic`, a custom error's name and arguments, or the raw data if it can't be decoded
+export function describeUserOperationRevert(data: Hex): string {
+  if (data === "0x") return "reverted without a reason";
+  const revert = decodeRevert(data);
+  if (!revert) return `reverted with unknown error data ${data}`;
+  if (revert.errorName === "Error") return String(revert.args[0]);
+  return `${revert.errorName}(${revert.args.join(", ")})`;
+}
+
+// Matches every UserOperationEvent in a bundle's logs with its UserOperationRevertReason, if any.
+// Both events are the same in v0.6 and v0.7; logs from other contracts are ignored.
+export function getUserOperationOutcomes(logs: Log[]): UserOperationOutcome[] {
+  const entryPointLogs = logs.filter((log) => getEntryPointVersion(log.address) !== undefined);
+  const events = parseEventLogs({
+    abi: ENTRYPOINT_ABI,
+    eventName: "UserOperationEvent",
+    logs: entryPointLogs,
+  });
+  const reverts = parseEventLogs({
+    abi: ENTRYPOINT_ABI,
+    eventName: "UserOperationRevertReason",
+    logs: entryPointLogs,
+  });
+
+  return events.map(({ args }) => {
+    const revert = reverts.find(
+      (candidate) => candidate.args.userOpHash.toLowerCase() === args.userOpHash.toLowerCase()
+    );
+    return {
+      userOpHash: args.userOpHash,
+      sender: args.sender,
+      nonce: args.nonce,
+      paymaster: args.paymaster,
+      success: args.success,
+      actualGasCost: args.actualGasCost,
+      actualGasUsed: args.actualGasUsed,
+      revertData: revert?.args.revertReason,
+      revertReason: revert
+        ? describeUserOperationRevert(revert.args.revertReason)
+        : args.success
+          ? undefined
+          : "reverted without a reason",
+    };
+  });
+}
@@ -0,0 +1,200 @@
+import {
+  type Address,
+  type DecodeErrorResultReturnType,
+  type Hex,
+  type PublicClient,
+  type SignedAuthorization,
+  decodeErrorResult,
+  encodeFunctionData,
+} from "viem";
+import { type UserOperation } from "viem/account-abstraction";
+import { ENTRYPOINT_ABI } from "./abi/EntryPoint";
+import { type EntryPointConfig, ENTRYPOINTS, encodeHandleOps, toEntryPointUserOperation } from "./entrypoint";
+import { getAuthorizationStateOverride, getRevertData } from "./simulation-utils";
+
+// Server-only: runs a user operation through the EntryPoint's validation before the relayer pays
+// to include it, rejecting ops that would fail or be refunded nothing on-chain.
+
+// The EntryPoint's view of a validated op, from `ValidationResult.returnInfo`
+export type UserOperationReturnInfo = {
+  preOpGas: bigint;
+  prefund: bigint;
+  sigFailed: boolean;
+  validAfter: number;
+  validUntil: number;
+  paymasterContext: Hex;
+};
+
+export type UserOperationRejectionReason =
+  | "FAILED_OP"
+  | "SIGNATURE_FAILED"
+  | "EXPIRED"
+  | "NOT_YET_VALID"
+  | "INSUFFICIENT_PREFUND";
+
+export type UserOperationValidationResult =
+  // `returnInfo` is only reported by v0.6's `simulateValidation`
+  | { valid: true; returnInfo?: UserOperationReturnInfo }
+  | {
+      valid: false;
+      reason: UserOperationRejectionReason;
+      // EntryPoint error code (e.g. `AA24`), when known
+      aaCode?: string;
+      message: string;
+    };
+
+// An op must stay valid at least this long to be worth submitting
+const VALID_UNTIL_MARGIN_SECONDS = 30;
+
+// Extracts the `AAxx` code the EntryPoint prefixes its FailedOp reasons with
+export function getAACode(reason: string): string | undefined {
+  return /^(AA\d\d)\b/.exec(reason)?.[1];
+}
+
+// Classifies an EntryPoint FailedOp reason by its AA code
+function toFailedOpResult(failure: string): UserOperationValidationResult {
+  const aaCode = getAACode(failure);
+  const reason: UserOperationRejectionReason =
+    aaCode === "AA21" || aaCode === "AA31"
+      ? "INSUFFICIENT_PREFUND"
+      : aaCode === "AA24" || aaCode === "AA34"
+        ? "SIGNATURE_FAILED"
+        : aaCode === "AA22" || aaCode === "AA32"
+          ? "EXPIRED"
+          : "FAILED_OP";
+  return { valid: false, reason, aaCode, message: failure };
+}
+
+// Validates an op against its EntryPoint. v0.6 calls `simulateValidation`; v0.7 and v0.8 have no
+// on-chain simulation entry point, so `handleOps([userOp])` is `eth_call`ed from `beneficiary`
+// instead, which fails with the same FailedOp reasons (signature, validity window, prefund) the
+// bundle would. `authorizationList` delegations are applied as state overrides first.
+export async function simulateUserOperationValidation(
+  publicClient: PublicClient,
+  userOp: UserOperation,
+  {
+    entryPoint = ENTRYPOINTS["0.6"],
+    beneficiary,
+    authorizationList,
+    now = Math.floor(Date.now() / 1000),
+  }: {
+    entryPoint?: EntryPointConfig;
+    beneficiary: Address;
+    authorizationList?: readonly SignedAuthorization[];
+    now?: number;
+  }
+): Promise<UserOperationValidationResult> {
+  if (entryPoint.version !== "0.6") {
+    const data = encodeHandleOps(entryPoint, [userOp], beneficiary);
+    const stateOverride = authorizationList?.length
+      ? await getAuthorizationStateOverride(authorizationList)
+      : undefined;
+    try {
+      await publicClient.call({ account: beneficiary, to: entryPoint.address, data, stateOverride });
+      return { valid: true };
+    } catch (error) {
+      const revertData = getRevertData(error);
+      if (!revertData) throw error;
+      try {
+        const { errorName, args } = decodeErrorResult({ abi: entryPoint.abi, data: revertData });
+        if (errorName === "FailedOp" || errorName === "FailedOpWithRevert") {
+          return toFailedOpResult(args[1]);
+        }
+        return { valid: false, reason: "FAILED_OP", message: `Validation reverted with ${errorName}` };
+      } catch {
+        return { valid: false, reason: "FAILED_OP", message: `Validation reverted with unknown error data ${revertData}` };
+      }
+    }
+  }
+
+  return simulateValidation06(publicClient, userOp as UserOperation<"0.6">, { entryPoint, now });
+}
+
+// Calls v0.6's `simulateValidation`, which always reverts: with `ValidationResult` if the op
+// validates, or `FailedOp` if it doesn't. Also rejects ops whose signature failed, whose validity
+// window has passed (or not started), or whose prefund exceeds what the sender has deposited plus
+// its balance.
+async function simulateValidation06(
+  publicClient: PublicClient,
+  userOp: UserOperation<"0.6">,
+  { entryPoint, now }: { entryPoint: EntryPointConfig; now: number }
+): Promise<UserOperationValidationResult> {
+  const data = encodeFunctionData({
+    abi: ENTRYPOINT_ABI,
+    functionName: "simulateValidation",
+    args: [toEntryPointUserOperation(userOp, "0.6")],
+  });
+
+  let revertData: Hex | undefined;
+  try {
+    await publicClient.call({ to: entryPoint.address, data });
+  } catch (error) {
+    revertData = getRevertData(error);
+    if (!revertData) throw error;
+  }
+  if (!revertData) {
+    throw new Error(`simulateValidation returned without reverting; is ${entryPoint.address} an EntryPoint v0.6?`);
+  }
+
+  let decoded: DecodeErrorResultReturnType<typeof ENTRYPOINT_ABI>;
+  try {
+    decoded = decodeErrorResult({ abi: ENTRYPOINT_ABI, data: revertData });
+  } catch {
+    return { valid: false, reason: "FAILED_OP", message: `Validation reverted with unknown error data ${revertData}` };
+  }
+
+  if (decoded.errorName === "FailedOp") {
+    return toFailedOpResult(decoded.args[1]);
+  }
+  if (decoded.errorName !== "ValidationResult" && decoded.errorName !== "ValidationResultWithAggregation") {
+    return { valid: false, reason: "FAILED_OP", message: `Validation reverted with ${decoded.errorName}` };
+  }
+
+  const [returnInfo] = decoded.args;
+  const validAfter = Number(returnInfo.validAfter);
+  const validUntil = Number(returnInfo.validUntil);
+
+  if (returnInfo.sigFailed) {
+    return { valid: false, reason: "SIGNATURE_FAILED", aaCode: "AA24", message: "AA24 signature error" };
+  }
+  // validUntil of 0 means the op never expires
+  if (validUntil !== 0 && validUntil < now + VALID_UNTIL_MARGIN_SECONDS) {
+    return {
+      valid: false,
+      reason: "EXPIRED",
+      aaCode: "AA22",
+      message: `AA22 expired or not due: valid until ${new Date(validUntil * 1000).toISOString()}`,
+    };
+  }
+  if (validAfter > now) {
+    return {
+      valid: false,
+      reason: "NOT_YET_VALID",
+      aaCode: "AA22",
+      message: `AA22 expired or not due: valid after ${new Date(validAfter * 1000).toISOString()}`,
+    };
+  }
+
+  // Without a paymaster, the prefund comes out of the sender's deposit, topped up from its balance
+  if (!userOp.paymasterAndData || userOp.paymasterAndData === "0x") {
+    const [deposit, balance] = await Promise.all([
+      publicClient.readContract({
+        address: entryPoint.address,
+        abi: ENTRYPOINT_ABI,
+        functionName: "balanceOf",
+        args: [userOp.sender],
+      }) as Promise<bigint>,
+      publicClient.getBalance({ address: userOp.sender }),
+    ]);
+    if (deposit + balance < returnInfo.prefund) {
+      return {
+        valid: false,
+        reason: "INSUFFICIENT_PREFUND",
+        aaCode: "AA21",
+        message: `AA21 didn't pay prefund: requires ${returnInfo.prefund} wei, sender has ${deposit} deposited and ${balance} in balance`,
+      };
+    }
+  }
+
+  return { valid: true, returnInfo };
+}
@@ -106,6 +106,41 @@ export function encodeInitializeArgs(
   });
 }
 
+// Encodes a call to `EIP7702Proxy.setImplementation`, validated by the default validator
+export function encodeSetImplementation(
+  newImplementation: Hex,
+  callData: Hex,
+  signature: Hex,
+  expiry: bigint,
+  allowCrossChainReplay = false
+): Hex {
+  return encodeFunctionData({
+    abi: [{
+      type: "function",
+      name: "setImplementation",
+      inputs: [
+        { name: "newImplementation", type: "address" },
+        { name: "callData", type: "bytes" },
+        { name: "validator", type: "address" },
+        { name: "expiry", type: "uint256" },
+        { name: "signature", type: "bytes" },
+        { name: "allowCrossChainReplay", type: "bool" }
+      ],
+      outputs: [],
+      stateMutability: "payable"
+    }],
+    functionName: "setImplementation",
+    args: [
+      newImplementation,
+      callData,
+      VALIDATOR_ADDRESS,
+      expiry,
+      signature,
+      allowCrossChainReplay
+    ]
+  });
+}
+
 // Creates the hash to be signed for a call to `EIP7702Proxy.setImplementation`
 export function createSetImplementationHash(
   proxyAddr: Hex,
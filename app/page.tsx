@@ -2,7 +2,7 @@
 
 import { useState } from "react";
 import { type ExtendedAccount } from "./lib/wallet-utils";
-import { type P256Credential, toCoinbaseSmartAccount, type UserOperation } from "viem/account-abstraction";
+import { type P256Credential, type UserOperation } from "viem/account-abstraction";
 import { 
   generateMnemonic,
   validateMnemonic,
@@ -16,12 +16,22 @@ import {
 } from "./lib/prf-mnemonic-utils";
 import { createWebAuthnCredentialWithPRF, authenticateWithPRF } from "./lib/webauthn-prf";
 import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
-import { createEOAWalletFromMnemonic, createEOAClient, encodeInitializeArgs, createSetImplementationHash, signSetImplementation } from "./lib/wallet-utils";
-import { createPublicClient, http, maxUint256, type Hex, parseEther } from "viem";
+import { createEOAWalletFromMnemonic, createEOAClient, encodeInitializeArgs, createSetImplementationHash, signSetImplementation, encodeSetImplementation } from "./lib/wallet-utils";
+import { createPublicClient, http, maxUint256, type Address, type Hex, type PublicClient, formatEther, parseEther } from "viem";
 import { baseSepolia } from "./lib/chains";
-import { CBSW_IMPLEMENTATION_ADDRESS, ZERO_ADDRESS, EIP7702PROXY_TEMPLATE_ADDRESS } from "./lib/constants";
+import { CBSW_IMPLEMENTATION_ADDRESS, ZERO_ADDRESS, EIP7702PROXY_TEMPLATE_ADDRESS, EIP7702_INITCODE_MARKER } from "./lib/constants";
 import { getNonceFromTracker, checkContractState } from "./lib/contract-utils";
-import { formatGasEstimate, GAS_ASSUMPTIONS } from "./lib/gas-utils";
+import { formatActualGas, formatGasEstimate } from "./lib/gas-utils";
+import { relay, waitForRelayedTransaction } from "./lib/relay-client";
+import { createRelayerBundlerClient, sendUserOperationWithAuthorization } from "./lib/bundler-client";
+import { getUserOperationFees } from "./lib/user-operation-fees";
+import { type EntryPointVersion, DEFAULT_ENTRYPOINT_VERSION, ENTRYPOINTS, encodeUserOperation } from "./lib/entrypoint";
+import { toCoinbaseSmartAccountForEntryPoint } from "./lib/smart-account";
+import { explainUserOperationError } from "./lib/user-operation-errors";
+import { UserOperationInspector } from "./components/UserOperationInspector";
+
+// Gas of a plain ETH transfer, the least any transaction pays
+const TRANSFER_GAS = BigInt(21_000);
 
 export default function Home() {
   const [activeSection, setActiveSection] = useState<string>("generate");
@@ -41,9 +51,21 @@ export default function Home() {
   const [txValue, setTxValue] = useState<string>("0.0001");
   const [eoaSignedTx, setEoaSignedTx] = useState<string>("");
   const [eoaGasEstimate, setEoaGasEstimate] = useState<string>("");
+  // What the sent transaction actually used, shown under the estimate it was signed with
+  const [eoaGasActual, setEoaGasActual] = useState<string>("");
   const [userOp, setUserOp] = useState<string>("");
   const [userOpGasEstimate, setUserOpGasEstimate] = useState<string>("");
+  const [userOpGasActual, setUserOpGasActual] = useState<string>("");
+  const [entryPointVersion, setEntryPointVersion] = useState<EntryPointVersion>(DEFAULT_ENTRYPOINT_VERSION);
   const [signingStatus, setSigningStatus] = useState<string>("");
+  const [signedUserOperation, setSignedUserOperation] = useState<{ userOperation: UserOperation; entryPointAddress: Address } | null>(null);
+  const [eoaSendStatus, setEoaSendStatus] = useState<string>("");
+  // Wei the EOA is missing to pay for the transaction it is signing, offered as a relayer `fund`
+  const [eoaFundingShortfall, setEoaFundingShortfall] = useState<bigint>(BigInt(0));
+  const [userOpSendStatus, setUserOpSendStatus] = useState<string>("");
+  const [isSending, setIsSending] = useState(false);
+  // Signed userOp JSON handed to the inspector section
+  const [inspectorJson, setInspectorJson] = useState<string>("");
   
   // Section 3: Create PRF Passkey & Bitmask (Modified)
   const [bitmaskMnemonic, setBitmaskMnemonic] = useState<string>("");
@@ -90,6 +112,47 @@ export default function Home() {
     }
   };
 
+  // Signs the `setImplementation` call that initializes the smart wallet and the EIP-7702
+  // authorization delegating the EOA to the proxy
+  const signUpgrade = async (account: ExtendedAccount, publicClient: PublicClient) => {
+    const userWallet = createEOAClient(account);
+    
+    // Derive the EOA's public key from the mnemonic
+    setUpgradeStatus("Deriving EOA public key...");
+    const trimmedMnemonic = walletMnemonic.trim();
+    const keypair = await deriveKeypairFromMnemonic(trimmedMnemonic, 0);
+    const eoaPublicKey = keypair.publicKey;
+    
+    // Initialize with the EOA's public key as the only owner
+    const initArgs = encodeInitializeArgs([
+      { publicKey: eoaPublicKey as Hex }, // EOA's secp256k1 public key
+    ]);
+    
+    const nonce = await getNonceFromTracker(publicClient, account.address);
+    const chainId = baseSepolia.id;
+    
+    const setImplementationHash = createSetImplementationHash(
+      EIP7702PROXY_TEMPLATE_ADDRESS,
+      CBSW_IMPLEMENTATION_ADDRESS,
+      initArgs,
+      nonce,
+      ZERO_ADDRESS,
+      false,
+      BigInt(chainId),
+      BigInt(maxUint256)
+    );
+    
+    const signature = await signSetImplementation(userWallet, setImplementationHash);
+    
+    // Create the authorization signature for EIP-7702
+    setUpgradeStatus("Creating authorization signature...");
+    const authorization = await userWallet.signAuthorization({
+      contractAddress: EIP7702PROXY_TEMPLATE_ADDRESS,
+    });
+    
+    return { initArgs, nonce, signature, authorization };
+  };
+
   const handleUpgradeToSmartWallet = async () => {
     if (!walletAccount) {
       setUpgradeStatus("❌ Please create a wallet first");
@@ -100,83 +163,116 @@ export default function Home() {
       setUpgradeStatus("Upgrading to smart wallet...");
       
       // Create clients
-      const userWallet = createEOAClient(walletAccount);
       const publicClient = createPublicClient({
         chain: baseSepolia,
         transport: http(),
       });
       
-      // Derive the EOA's public key from the mnemonic
-      setUpgradeStatus("Deriving EOA public key...");
-      const trimmedMnemonic = walletMnemonic.trim();
-      const keypair = await deriveKeypairFromMnemonic(trimmedMnemonic, 0);
-      const eoaPublicKey = keypair.publicKey;
+      const { initArgs, nonce, signature, authorization } = await signUpgrade(walletAccount, publicClient);
       
-      // For this version, we'll add both the EOA's public key and the relayer as owners
-      const relayerAddress = process.env.NEXT_PUBLIC_RELAYER_ADDRESS;
-      if (!relayerAddress) {
-        throw new Error("NEXT_PUBLIC_RELAYER_ADDRESS not defined");
-      }
+      setUpgradeStatus("Submitting upgrade transaction...");
       
-      // Initialize with EOA public key and relayer
-      const initArgs = encodeInitializeArgs([
-        { publicKey: eoaPublicKey as Hex }, // EOA's secp256k1 public key
-        relayerAddress as Hex,               // Relayer address
-      ]);
+      const { hash: upgradeHash } = await relay({
+        operation: "upgradeEOA",
+        targetAddress: walletAccount.address,
+        initArgs,
+        signature,
+        authorizationList: [authorization],
+      }, { type: "eoa", account: walletAccount }, {
+        // Both nonces stay the same until the upgrade lands, so resubmitting after a reload
+        // returns the original job instead of paying for a second upgrade
+        idempotencyKey: `upgradeEOA:${nonce}:${authorization.nonce}`,
+      });
+      setUpgradeStatus("Waiting for confirmation...");
       
-      const nonce = await getNonceFromTracker(publicClient, walletAccount.address);
-      const chainId = baseSepolia.id;
+      const upgradeReceipt = await waitForRelayedTransaction(publicClient, upgradeHash);
       
-      const setImplementationHash = createSetImplementationHash(
-        EIP7702PROXY_TEMPLATE_ADDRESS,
-        CBSW_IMPLEMENTATION_ADDRESS,
-        initArgs,
-        nonce,
-        ZERO_ADDRESS,
-        false,
-        BigInt(chainId),
-        BigInt(maxUint256)
-      );
+      if (upgradeReceipt.status !== "success") {
+        throw new Error("Upgrade transaction failed");
+      }
       
-      const signature = await signSetImplementation(userWallet, setImplementationHash);
+      // Verify deployment
+      const state = await checkContractState(publicClient, walletAccount.address);
+      if (state.bytecode === "0x") {
+        throw new Error("Code deployment failed");
+      }
+      
+      setIsUpgraded(true);
+      setUpgradeStatus(`✅ Successfully upgraded to smart wallet! 
+        Address: ${walletAccount.address}
+        Transaction: ${upgradeReceipt.transactionHash}
+        The EOA can now sign UserOperations as a smart wallet owner using its secp256k1 key.`);
+    } catch (error) {
+      setUpgradeStatus(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Upgrade with the wallet's first UserOperation on EntryPoint v0.8: the bundle carries the
+  // EIP-7702 authorization, the op's initCode runs `setImplementation` and its call runs right after
+  const handleUpgradeWithUserOperation = async () => {
+    if (!walletAccount) {
+      setUpgradeStatus("❌ Please create a wallet first");
+      return;
+    }
+
+    try {
+      setUpgradeStatus("Upgrading to smart wallet with a UserOperation...");
       
-      // Create the authorization signature for EIP-7702
-      setUpgradeStatus("Creating authorization signature...");
-      const authorization = await userWallet.signAuthorization({
-        contractAddress: EIP7702PROXY_TEMPLATE_ADDRESS,
+      const publicClient = createPublicClient({
+        chain: baseSepolia,
+        transport: http(),
       });
       
-      setUpgradeStatus("Submitting upgrade transaction...");
+      const { initArgs, signature, authorization } = await signUpgrade(walletAccount, publicClient);
       
-      const upgradeResponse = await fetch("/api/relay", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(
-          {
-            operation: "upgradeEOA",
-            targetAddress: walletAccount.address,
-            initArgs,
-            signature,
-            authorizationList: [authorization],
-          },
-          (_, value) => (typeof value === "bigint" ? value.toString() : value)
-        ),
+      // The sender's userOp hash commits to the delegate its authorization installs
+      const smartAccount = await toCoinbaseSmartAccountForEntryPoint({
+        client: publicClient,
+        owners: [walletAccount],
+        address: walletAccount.address,
+        entryPointVersion: "0.8",
+        eip7702Delegate: EIP7702PROXY_TEMPLATE_ADDRESS,
       });
       
-      if (!upgradeResponse.ok) {
-        const error = await upgradeResponse.json();
-        throw new Error(error.error || "Failed to relay upgrade transaction");
-      }
+      // The first call is an empty batch; the op exists to initialize the wallet
+      const callData = await smartAccount.encodeCalls([]);
+      const nonce = await smartAccount.getNonce();
+      const { maxFeePerGas, maxPriorityFeePerGas } = await getUserOperationFees(publicClient);
       
-      const upgradeHash = (await upgradeResponse.json()).hash;
-      setUpgradeStatus("Waiting for confirmation...");
+      // Gas can't be estimated before the delegation exists, so use fixed limits that cover
+      // `setImplementation` and the wallet's initialization during validation
+      const unsignedUserOp = {
+        sender: smartAccount.address,
+        nonce,
+        factory: EIP7702_INITCODE_MARKER,
+        factoryData: encodeSetImplementation(CBSW_IMPLEMENTATION_ADDRESS, initArgs, signature, BigInt(maxUint256)),
+        callData,
+        callGasLimit: BigInt(100000),
+        verificationGasLimit: BigInt(600000),
+        preVerificationGas: BigInt(100000),
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+        signature: "0x" as const,
+      };
+      
+      setUpgradeStatus("Signing UserOperation...");
+      const userOperation = {
+        ...unsignedUserOp,
+        signature: await smartAccount.signUserOperation(unsignedUserOp),
+      } as UserOperation;
       
-      const upgradeReceipt = await publicClient.waitForTransactionReceipt({
-        hash: upgradeHash,
+      setUpgradeStatus("Submitting UserOperation to the bundler...");
+      const userOpHash = await sendUserOperationWithAuthorization({
+        userOperation,
+        entryPointAddress: ENTRYPOINTS["0.8"].address,
+        authorization,
       });
       
-      if (upgradeReceipt.status !== "success") {
-        throw new Error("Upgrade transaction failed");
+      setUpgradeStatus(`Waiting for UserOperation ${userOpHash} to be bundled...`);
+      const bundlerClient = createRelayerBundlerClient(publicClient);
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOpHash });
+      if (!receipt.success) {
+        throw new Error(`UserOperation failed${receipt.reason ? `: ${receipt.reason}` : ""}`);
       }
       
       // Verify deployment
@@ -186,10 +282,10 @@ export default function Home() {
       }
       
       setIsUpgraded(true);
-      setUpgradeStatus(`✅ Successfully upgraded to smart wallet! 
+      setUpgradeStatus(`✅ Successfully upgraded to smart wallet in a UserOperation! 
         Address: ${walletAccount.address}
-        Transaction: ${upgradeHash}
-        The EOA can now sign UserOperations as a smart wallet owner using its secp256k1 key.`);
+        UserOperation: ${userOpHash}
+        Transaction: ${receipt.receipt.transactionHash}`);
     } catch (error) {
       setUpgradeStatus(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -203,7 +299,11 @@ export default function Home() {
     }
 
     try {
-      setSigningStatus("Signing transaction as EOA...");
+      setSigningStatus("Checking the EOA's balance...");
+      setEoaSignedTx("");
+      setEoaSendStatus("");
+      setEoaGasActual("");
+      setEoaFundingShortfall(BigInt(0));
       
       const userWallet = createEOAClient(walletAccount);
       const publicClient = createPublicClient({
@@ -221,21 +321,35 @@ export default function Home() {
         data: "0x" as `0x${string}`,
       };
 
+      // Get current gas prices
+      const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas();
+
+      // Nodes refuse to estimate or send a transaction the balance can't cover, so check it first and
+      // offer a relayer `fund` for the difference. Before estimating, a plain transfer's gas is the floor.
+      const balance = await publicClient.getBalance({ address: walletAccount.address });
+      const needsFunding = (gas: bigint) => {
+        const required = valueInWei + gas * maxFeePerGas;
+        if (balance >= required) return false;
+        setEoaFundingShortfall(required - balance);
+        setSigningStatus(`❌ The EOA holds ${formatEther(balance)} ETH but the transaction needs up to ${formatEther(required)} ETH. Fund it, then sign again.`);
+        return true;
+      };
+      if (needsFunding(TRANSFER_GAS)) return;
+
       // Estimate gas
+      setSigningStatus("Signing transaction as EOA...");
       const gasEstimate = await publicClient.estimateGas({
         ...tx,
         account: walletAccount.address,
       });
-
-      // Get current gas prices
-      const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas();
+      if (needsFunding(gasEstimate)) return;
 
       // Build the complete transaction object
       const fullTx = {
         ...tx,
         gas: gasEstimate,
-        maxFeePerGas: maxFeePerGas || BigInt(20000000000),
-        maxPriorityFeePerGas: maxPriorityFeePerGas || BigInt(1000000000),
+        maxFeePerGas,
+        maxPriorityFeePerGas,
         nonce: await publicClient.getTransactionCount({ address: walletAccount.address }),
         chainId: baseSepolia.id,
       };
@@ -259,8 +373,8 @@ export default function Home() {
         }
       }));
       
-      // Use fixed gas assumptions for display
-      setEoaGasEstimate(formatGasEstimate(gasEstimate, GAS_ASSUMPTIONS.gasPrice));
+      // Priced at the fee cap the transaction was signed with, the most it can cost
+      setEoaGasEstimate(formatGasEstimate(gasEstimate, maxFeePerGas));
       setSigningStatus("✅ Transaction signed as EOA");
     } catch (error) {
       setSigningStatus(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
@@ -276,6 +390,9 @@ export default function Home() {
 
     try {
       setSigningStatus("Creating UserOperation as smart account...");
+      setSignedUserOperation(null);
+      setUserOpSendStatus("");
+      setUserOpGasActual("");
       
       const publicClient = createPublicClient({
         chain: baseSepolia,
@@ -285,10 +402,11 @@ export default function Home() {
       // Create smart account client
       // Since the EOA's public key was added as an owner during upgrade,
       // we can use the EOA account directly to sign UserOperations
-      const smartAccount = await toCoinbaseSmartAccount({
+      const smartAccount = await toCoinbaseSmartAccountForEntryPoint({
         client: publicClient,
         owners: [walletAccount], // Use the EOA account directly
         address: walletAccount.address,
+        entryPointVersion,
       });
 
       // Parse the value in ETH to wei
@@ -307,52 +425,35 @@ export default function Home() {
       const nonce = await smartAccount.getNonce();
 
       // Get current gas prices from the network
-      const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas();
-
-      // Estimate gas for the actual call
-      // This is a rough estimation - in production, you'd want to use the bundler's estimateUserOperationGas
-      let callGasEstimate: bigint;
-      try {
-        // Try to estimate gas for the actual transaction
-        callGasEstimate = await publicClient.estimateGas({
-          account: walletAccount.address,
-          to: txRecipient as `0x${string}`,
-          value: valueInWei,
-          data: "0x" as `0x${string}`,
-        });
-        // Add 20% buffer for smart contract overhead
-        callGasEstimate = (callGasEstimate * BigInt(120)) / BigInt(100);
-      } catch {
-        // Fallback to default if estimation fails
-        callGasEstimate = BigInt(100000);
-      }
+      const { maxFeePerGas, maxPriorityFeePerGas } = await getUserOperationFees(publicClient);
 
-      // Gas limits with better defaults based on operation type
-      const gasLimits = {
-        callGasLimit: callGasEstimate < BigInt(50000) ? BigInt(50000) : callGasEstimate,
-        verificationGasLimit: BigInt(150000), // Typical for signature verification
-        preVerificationGas: BigInt(50000), // Typical bundler overhead
-      };
+      // Estimate gas limits with the relayer's bundler, which simulates the op with a stub signature
+      const bundlerClient = createRelayerBundlerClient(publicClient);
+      const gasLimits = await bundlerClient.estimateUserOperationGas({
+        account: smartAccount,
+        callData,
+        nonce,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+      });
 
-      // Add buffer for safety
       const totalGasLimit = gasLimits.callGasLimit + gasLimits.verificationGasLimit + gasLimits.preVerificationGas;
       
       setSigningStatus(`Estimated gas: ${totalGasLimit.toString()} units. Creating UserOperation...`);
 
-      // Prepare UserOperation
+      // Prepare UserOperation; v0.7 has no initCode or paymasterAndData when there is no factory or paymaster
       const unsignedUserOp = {
         sender: smartAccount.address,
         nonce,
-        initCode: "0x" as const,
         callData,
         callGasLimit: gasLimits.callGasLimit,
         verificationGasLimit: gasLimits.verificationGasLimit,
         preVerificationGas: gasLimits.preVerificationGas,
-        maxFeePerGas: maxFeePerGas || BigInt(20000000000),
-        maxPriorityFeePerGas: maxPriorityFeePerGas || BigInt(1000000000),
-        paymasterAndData: "0x" as const,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
         signature: "0x" as const,
-      } as const;
+        ...(entryPointVersion === "0.6" ? { initCode: "0x" as const, paymasterAndData: "0x" as const } : {}),
+      };
 
       // Sign the UserOperation
       const signature = await smartAccount.signUserOperation(unsignedUserOp);
@@ -363,33 +464,23 @@ export default function Home() {
                       unsignedUserOp.verificationGasLimit + 
                       unsignedUserOp.preVerificationGas;
 
-      // Create a packed representation of the UserOp (similar to RLP for regular txs)
-      // This is a simplified packed format for display purposes
-      const packedUserOp = [
-        signedUserOp.sender,
-        '0x' + signedUserOp.nonce.toString(16).padStart(64, '0'),
-        signedUserOp.initCode,
-        signedUserOp.callData,
-        '0x' + signedUserOp.callGasLimit.toString(16).padStart(64, '0'),
-        '0x' + signedUserOp.verificationGasLimit.toString(16).padStart(64, '0'),
-        '0x' + signedUserOp.preVerificationGas.toString(16).padStart(64, '0'),
-        '0x' + signedUserOp.maxFeePerGas.toString(16).padStart(64, '0'),
-        '0x' + signedUserOp.maxPriorityFeePerGas.toString(16).padStart(64, '0'),
-        signedUserOp.paymasterAndData,
-        signedUserOp.signature
-      ].join('');
+      // ABI-encode the UserOp as handleOps carries it (a PackedUserOperation for v0.7)
+      const packedUserOp = encodeUserOperation(signedUserOp, entryPointVersion);
 
       setUserOp(JSON.stringify({
+        entryPoint: ENTRYPOINTS[entryPointVersion].address,
         packed: packedUserOp,
         decoded: JSON.parse(JSON.stringify(signedUserOp, (_, value) => 
           typeof value === "bigint" ? value.toString() : value
         ))
       }, null, 2));
       
-      // Use fixed gas assumptions for display with breakdown
+      setSignedUserOperation({ userOperation: signedUserOp, entryPointAddress: ENTRYPOINTS[entryPointVersion].address });
+
+      // Priced at the op's maxFeePerGas, with breakdown
       setUserOpGasEstimate(formatGasEstimate(
         totalGas, 
-        GAS_ASSUMPTIONS.gasPrice,
+        maxFeePerGas,
         {
           call: unsignedUserOp.callGasLimit,
           verification: unsignedUserOp.verificationGasLimit,
@@ -403,6 +494,113 @@ export default function Home() {
     }
   };
 
+  // Broadcast the signed EOA transaction, first checking the EOA can pay for it
+  const handleSendEOATransaction = async () => {
+    if (!walletAccount || !eoaSignedTx) return;
+
+    try {
+      setIsSending(true);
+      const { rlpEncoded, decoded } = JSON.parse(eoaSignedTx);
+      const publicClient = createPublicClient({
+        chain: baseSepolia,
+        transport: http(),
+      });
+
+      // Nodes reject a transaction unless the balance covers its value plus gas at its fee cap
+      const required = BigInt(decoded.value) + BigInt(decoded.gas) * BigInt(decoded.maxFeePerGas);
+      const balance = await publicClient.getBalance({ address: walletAccount.address });
+      if (balance < required) {
+        setEoaFundingShortfall(required - balance);
+        setEoaSendStatus(`❌ The EOA holds ${formatEther(balance)} ETH but the transaction needs up to ${formatEther(required)} ETH`);
+        return;
+      }
+      setEoaFundingShortfall(BigInt(0));
+
+      setEoaSendStatus("Broadcasting transaction...");
+      const hash = await publicClient.sendRawTransaction({ serializedTransaction: rlpEncoded });
+      setEoaSendStatus(`Waiting for ${hash} to be mined...`);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+      setEoaSendStatus(`${receipt.status === "success" ? "✅ Mined" : "❌ Reverted"} in block ${receipt.blockNumber}: ${hash}`);
+      setEoaGasActual(formatActualGas(receipt.gasUsed, receipt.effectiveGasPrice, BigInt(decoded.gas)));
+    } catch (error) {
+      setEoaSendStatus(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // Ask the relayer to send the EOA what it is missing for the transaction it is signing or sending
+  const handleFundEOA = async () => {
+    if (!walletAccount || eoaFundingShortfall === BigInt(0)) return;
+    // Before signing, progress is reported with the signing status
+    const setStatus = eoaSignedTx ? setEoaSendStatus : setSigningStatus;
+
+    try {
+      setIsSending(true);
+      setStatus(`Requesting ${formatEther(eoaFundingShortfall)} ETH from the relayer...`);
+      const publicClient = createPublicClient({
+        chain: baseSepolia,
+        transport: http(),
+      });
+      const { hash } = await relay({
+        operation: "fund",
+        targetAddress: walletAccount.address,
+        value: eoaFundingShortfall,
+      }, { type: "eoa", account: walletAccount });
+      const receipt = await waitForRelayedTransaction(publicClient, hash);
+      if (receipt.status !== "success") {
+        throw new Error("Funding transaction failed");
+      }
+
+      setEoaFundingShortfall(BigInt(0));
+      setStatus(`✅ Funded in ${receipt.transactionHash}. The transaction can be ${eoaSignedTx ? "sent" : "signed"} now.`);
+    } catch (error) {
+      setStatus(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // Submit the signed UserOperation to the relayer's bundler and wait for its bundle
+  const handleSendUserOperation = async () => {
+    if (!signedUserOperation) return;
+
+    try {
+      setIsSending(true);
+      const publicClient = createPublicClient({
+        chain: baseSepolia,
+        transport: http(),
+      });
+      const bundlerClient = createRelayerBundlerClient(publicClient);
+
+      setUserOpSendStatus("Submitting UserOperation to the bundler...");
+      const userOpHash = await bundlerClient.sendUserOperation({
+        ...signedUserOperation.userOperation,
+        entryPointAddress: signedUserOperation.entryPointAddress,
+      });
+      setUserOpSendStatus(`Waiting for UserOperation ${userOpHash} to be bundled...`);
+      const receipt = await bundlerClient.waitForUserOperationReceipt({ hash: userOpHash });
+
+      // The EntryPoint charges the op actualGasCost for actualGasUsed
+      const { callGasLimit, verificationGasLimit, preVerificationGas } = signedUserOperation.userOperation;
+      const gasPrice = receipt.actualGasUsed > BigInt(0) ? receipt.actualGasCost / receipt.actualGasUsed : BigInt(0);
+      setUserOpSendStatus(`${receipt.success ? "✅ Bundled" : `❌ Bundled, but its call reverted${receipt.reason ? `: ${receipt.reason}` : ""}`} in ${receipt.receipt.transactionHash}`);
+      setUserOpGasActual(formatActualGas(
+        receipt.actualGasUsed,
+        gasPrice,
+        callGasLimit + verificationGasLimit + preVerificationGas
+      ));
+    } catch (error) {
+      const explanation = explainUserOperationError(error);
+      setUserOpSendStatus(`❌ Error: ${error instanceof Error ? error.message : String(error)}${
+        explanation ? `\n${explanation.code} ${explanation.title}: ${explanation.suggestedFix}` : ""
+      }`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
   // Section 3: Create PRF Passkey & Bitmask
   const handleCreateBitmask = async () => {
     const trimmedMnemonic = bitmaskMnemonic.trim();
@@ -560,6 +758,10 @@ export default function Home() {
       setEoaGasEstimate("");
       setUserOp("");
       setUserOpGasEstimate("");
+      setSignedUserOperation(null);
+      setEoaSendStatus("");
+      setEoaFundingShortfall(BigInt(0));
+      setUserOpSendStatus("");
       setSigningStatus("");
     }
   };
@@ -569,6 +771,7 @@ export default function Home() {
     { id: "upgrade", title: "2. Upgrade Mnemonic to Smart Wallet" },
     { id: "bitmask", title: "3. Create PRF Passkey & Encrypted Recovery" },
     { id: "recover", title: "4. Recover Mnemonic" },
+    { id: "inspect", title: "5. Inspect UserOperation" },
   ];
 
   return (
@@ -662,15 +865,32 @@ export default function Home() {
                 </button>
                 
                 {walletAccount && !isUpgraded && (
-                  <button
-                    onClick={handleUpgradeToSmartWallet}
-                    className="px-6 py-3 bg-purple-500 text-white rounded hover:bg-purple-600"
-                  >
-                    Upgrade to Smart Wallet
-                  </button>
+                  <>
+                    <button
+                      onClick={handleUpgradeToSmartWallet}
+                      className="px-6 py-3 bg-purple-500 text-white rounded hover:bg-purple-600"
+                    >
+                      Upgrade to Smart Wallet
+                    </button>
+                    
+                    <button
+                      onClick={handleUpgradeWithUserOperation}
+                      className="px-6 py-3 bg-indigo-500 text-white rounded hover:bg-indigo-600"
+                    >
+                      Upgrade with First UserOperation (EntryPoint v0.8)
+                    </button>
+                  </>
                 )}
               </div>
               
+              {walletAccount && !isUpgraded && (
+                <p className="text-xs text-yellow-400">
+                  Upgrading with a UserOperation delegates the EOA, initializes the wallet and runs its first call in one
+                  bundle, but the Coinbase Smart Wallet implementation only accepts calls from EntryPoint v0.6, so the
+                  v0.8 UserOperation will be rejected at validation unless the account trusts that EntryPoint.
+                </p>
+              )}
+              
               {walletAddress && (
                 <div className="bg-gray-800 p-4 rounded">
                   <p className="text-sm">
@@ -696,7 +916,7 @@ export default function Home() {
                 <div className="mt-8 space-y-4">
                   <h3 className="text-xl font-bold text-purple-400">Sign Transactions</h3>
                   <p className="text-gray-400 text-sm">
-                    Sign a transaction as an EOA (using mnemonic) or as a 4337 smart account owner.
+                    Sign a transaction as an EOA (using mnemonic) or as a 4337 smart account owner, then send it.
                   </p>
                   
                   <div className="space-y-3">
@@ -716,6 +936,25 @@ export default function Home() {
                       className="w-full p-3 bg-gray-800 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
                     />
                     
+                    <label className="flex items-center gap-3 text-sm text-gray-400">
+                      EntryPoint
+                      <select
+                        value={entryPointVersion}
+                        onChange={(e) => setEntryPointVersion(e.target.value as EntryPointVersion)}
+                        className="p-2 bg-gray-800 text-white rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+                      >
+                        <option value="0.6">v0.6 ({ENTRYPOINTS["0.6"].address})</option>
+                        <option value="0.7">v0.7 ({ENTRYPOINTS["0.7"].address})</option>
+                        <option value="0.8">v0.8 ({ENTRYPOINTS["0.8"].address})</option>
+                      </select>
+                    </label>
+                    {entryPointVersion !== "0.6" && (
+                      <p className="text-xs text-yellow-400">
+                        The Coinbase Smart Wallet implementation only accepts calls from EntryPoint v0.6, so
+                        v{entryPointVersion} UserOperations will be rejected at validation unless the account trusts that EntryPoint.
+                      </p>
+                    )}
+
                     <div className="flex gap-4">
                       <button
                         onClick={handleSignAsEOA}
@@ -735,6 +974,15 @@ export default function Home() {
                     {signingStatus && (
                       <div className="bg-gray-800 p-4 rounded">
                         <p className="text-sm font-mono">{signingStatus}</p>
+                        {!eoaSignedTx && eoaFundingShortfall > BigInt(0) && (
+                          <button
+                            onClick={handleFundEOA}
+                            disabled={isSending}
+                            className="mt-2 px-3 py-1 text-sm bg-yellow-600 rounded hover:bg-yellow-700 disabled:bg-gray-600"
+                          >
+                            Fund {formatEther(eoaFundingShortfall)} ETH from relayer
+                          </button>
+                        )}
                       </div>
                     )}
                     
@@ -743,6 +991,30 @@ export default function Home() {
                       <div className="bg-gray-800 p-4 rounded">
                         <h4 className="font-bold text-green-400 mb-2">EOA Signed Transaction:</h4>
                         <p className="text-xs text-gray-400 mb-2">{eoaGasEstimate}</p>
+                        {eoaGasActual && (
+                          <p className="text-xs text-green-300 mb-2 whitespace-pre-line">{eoaGasActual}</p>
+                        )}
+                        <div className="flex gap-2 mb-2">
+                          <button
+                            onClick={handleSendEOATransaction}
+                            disabled={isSending}
+                            className="px-3 py-1 text-sm bg-green-600 rounded hover:bg-green-700 disabled:bg-gray-600"
+                          >
+                            Send Transaction
+                          </button>
+                          {eoaFundingShortfall > BigInt(0) && (
+                            <button
+                              onClick={handleFundEOA}
+                              disabled={isSending}
+                              className="px-3 py-1 text-sm bg-yellow-600 rounded hover:bg-yellow-700 disabled:bg-gray-600"
+                            >
+                              Fund {formatEther(eoaFundingShortfall)} ETH from relayer
+                            </button>
+                          )}
+                        </div>
+                        {eoaSendStatus && (
+                          <p className="text-xs font-mono text-gray-300 mb-4 whitespace-pre-line break-all">{eoaSendStatus}</p>
+                        )}
                         {(() => {
                           try {
                             const txData = JSON.parse(eoaSignedTx);
@@ -783,8 +1055,32 @@ export default function Home() {
                     {/* Smart Account UserOperation */}
                     {userOp && (
                       <div className="bg-gray-800 p-4 rounded">
-                        <h4 className="font-bold text-indigo-400 mb-2">Smart Account UserOperation:</h4>
+                        <div className="flex justify-between items-center mb-2">
+                          <h4 className="font-bold text-indigo-400">Smart Account UserOperation:</h4>
+                          <button
+                            onClick={() => {
+                              setInspectorJson(userOp);
+                              handleSectionChange("inspect");
+                            }}
+                            className="px-3 py-1 text-sm bg-indigo-600 rounded hover:bg-indigo-700"
+                          >
+                            Inspect
+                          </button>
+                        </div>
                         <p className="text-xs text-gray-400 mb-2">{userOpGasEstimate}</p>
+                        {userOpGasActual && (
+                          <p className="text-xs text-green-300 mb-2 whitespace-pre-line">{userOpGasActual}</p>
+                        )}
+                        <button
+                          onClick={handleSendUserOperation}
+                          disabled={isSending || !signedUserOperation}
+                          className="px-3 py-1 mb-2 text-sm bg-indigo-600 rounded hover:bg-indigo-700 disabled:bg-gray-600"
+                        >
+                          Send UserOperation
+                        </button>
+                        {userOpSendStatus && (
+                          <p className="text-xs font-mono text-gray-300 mb-4 whitespace-pre-line break-all">{userOpSendStatus}</p>
+                        )}
                         {(() => {
                           try {
                             const userOpData = JSON.parse(userOp);
@@ -974,6 +1270,14 @@ export default function Home() {
             </div>
           </div>
         )}
+
+        {/* Section 5: Inspect UserOperation */}
+        {activeSection === "inspect" && (
+          <div className="bg-gray-900 p-8 rounded-lg">
+            <h2 className="text-2xl font-bold mb-6 text-blue-400">Inspect UserOperation</h2>
+            <UserOperationInspector key={inspectorJson} initialJson={inspectorJson} />
+          </div>
+        )}
       </div>
     </main>
   );
@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+/// @dev EntryPoint v0.6 `UserOperation`
+struct UserOperation {
+    address sender;
+    uint256 nonce;
+    bytes initCode;
+    bytes callData;
+    uint256 callGasLimit;
+    uint256 verificationGasLimit;
+    uint256 preVerificationGas;
+    uint256 maxFeePerGas;
+    uint256 maxPriorityFeePerGas;
+    bytes paymasterAndData;
+    bytes signature;
+}
+
+interface IEntryPoint {
+    function depositTo(address account) external payable;
+    function withdrawTo(address payable withdrawAddress, uint256 withdrawAmount) external;
+    function balanceOf(address account) external view returns (uint256);
+}
+
+interface IERC20 {
+    function balanceOf(address account) external view returns (uint256);
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+/// @notice A minimal EntryPoint v0.6 paymaster that is paid in one ERC-20 at an owner-set exchange rate.
+///
+/// `paymasterAndData` is `paymaster (20 bytes) || token (20 bytes) || maxTokenCost (uint256)`.
+/// Validation collects `maxTokenCost` from the sender with `transferFrom`, so the sender must have
+/// approved this paymaster before the op (an `approve` in the op's own call would run too late), and
+/// `postOp` refunds the unused part. The payment is taken before the op's call runs, so an op whose
+/// call reverts still pays for its gas.
+///
+/// Not for production: the exchange rate is set by hand, and validation writes this paymaster's own
+/// token balance, which ERC-7562 bundlers only allow for a staked paymaster.
+contract MockTokenPaymaster {
+    enum PostOpMode {
+        opSucceeded,
+        opReverted,
+        postOpReverted
+    }
+
+    IEntryPoint public immutable entryPoint;
+    IERC20 public immutable token;
+    address public owner;
+
+    /// @notice Token base units charged per 1 ETH (1e18 wei) of gas
+    uint256 public exchangeRate;
+
+    /// @notice Gas charged on top of the EntryPoint's `actualGasCost` to cover `postOp` itself
+    uint256 public constant POST_OP_GAS = 50_000;
+
+    event ExchangeRateUpdated(uint256 exchangeRate);
+    event UserOperationCharged(address indexed sender, uint256 actualGasCost, uint256 tokenCost);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "MockTokenPaymaster: not owner");
+        _;
+    }
+
+    modifier onlyEntryPoint() {
+        require(msg.sender == address(entryPoint), "MockTokenPaymaster: not from EntryPoint");
+        _;
+    }
+
+    constructor(IEntryPoint entryPoint_, IERC20 token_, uint256 exchangeRate_) {
+        entryPoint = entryPoint_;
+        token = token_;
+        exchangeRate = exchangeRate_;
+        owner = msg.sender;
+    }
+
+    function setExchangeRate(uint256 exchangeRate_) external onlyOwner {
+        exchangeRate = exchangeRate_;
+        emit ExchangeRateUpdated(exchangeRate_);
+    }
+
+    /// @notice Converts a gas cost in wei to token base units, rounding up
+    function toTokenAmount(uint256 weiAmount) public view returns (uint256) {
+        return (weiAmount * exchangeRate + 1e18 - 1) / 1e18;
+    }
+
+    function deposit() external payable {
+        entryPoint.depositTo{value: msg.value}(address(this));
+    }
+
+    function getDeposit() external view returns (uint256) {
+        return entryPoint.balanceOf(address(this));
+    }
+
+    function withdrawTo(address payable withdrawAddress, uint256 amount) external onlyOwner {
+        entryPoint.withdrawTo(withdrawAddress, amount);
+    }
+
+    function withdrawTokens(address to, uint256 amount) external onlyOwner {
+        require(token.transfer(to, amount), "MockTokenPaymaster: transfer failed");
+    }
+
+    function validatePaymasterUserOp(UserOperation calldata userOp, bytes32, uint256 maxCost)
+        external
+        onlyEntryPoint
+        returns (bytes memory context, uint256 validationData)
+    {
+        require(userOp.paymasterAndData.length == 72, "MockTokenPaymaster: invalid paymasterAndData");
+        address payToken = address(bytes20(userOp.paymasterAndData[20:40]));
+        uint256 maxTokenCost = uint256(bytes32(userOp.paymasterAndData[40:72]));
+        require(payToken == address(token), "MockTokenPaymaster: unsupported token");
+        require(
+            toTokenAmount(maxCost + POST_OP_GAS * userOp.maxFeePerGas) <= maxTokenCost,
+            "MockTokenPaymaster: maxTokenCost too low"
+        );
+        require(
+            token.transferFrom(userOp.sender, address(this), maxTokenCost), "MockTokenPaymaster: payment failed"
+        );
+
+        return (abi.encode(userOp.sender, maxTokenCost), 0);
+    }
+
+    /// @dev Called after the op's call whether it succeeded or reverted; the sender pays for its gas either way
+    function postOp(PostOpMode mode, bytes calldata context, uint256 actualGasCost) external onlyEntryPoint {
+        (address sender, uint256 maxTokenCost) = abi.decode(context, (address, uint256));
+
+        // If the refund reverted, postOp is called again in this mode and the whole maxTokenCost is kept
+        uint256 tokenCost = maxTokenCost;
+        if (mode != PostOpMode.postOpReverted) {
+            tokenCost = toTokenAmount(actualGasCost + POST_OP_GAS * tx.gasprice);
+            if (tokenCost > maxTokenCost) tokenCost = maxTokenCost;
+            if (tokenCost < maxTokenCost) {
+                require(token.transfer(sender, maxTokenCost - tokenCost), "MockTokenPaymaster: refund failed");
+            }
+        }
+        emit UserOperationCharged(sender, actualGasCost, tokenCost);
+    }
+}